@@ -0,0 +1,109 @@
+// Local stand-in for the FBR POS fiscal service, for development and testing.
+//
+//   npm run fbr:mock
+//
+// Accepts invoices on the same path as the FBR fiscal component and answers
+// with a made-up fiscal invoice number. Environment variables:
+//   FBR_MOCK_PORT       port to listen on (default 8524)
+//   FBR_MOCK_FAIL_RATE  share of requests answered with 503, 0 to 1 (default 0)
+//   FBR_MOCK_TOKEN      bearer token to require (default: none)
+import http from 'node:http';
+
+const PORT = Number(process.env.FBR_MOCK_PORT ?? 8524);
+const FAIL_RATE = Number(process.env.FBR_MOCK_FAIL_RATE ?? 0);
+const TOKEN = process.env.FBR_MOCK_TOKEN;
+const INVOICE_PATH = '/api/IMSFiscal/GetInvoiceNumberByModel';
+
+const REQUIRED_FIELDS = ['POSID', 'USIN', 'DateTime', 'TotalBillAmount', 'TotalQuantity', 'TotalSaleValue', 'TotalTaxCharged', 'PaymentMode', 'InvoiceType', 'Items'];
+
+// The same USIN always gets the same number, as the real service does for resubmissions
+const issued = new Map();
+let sequence = 0;
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const reject = (response, message) => {
+  send(response, 200, { InvoiceNumber: '', Code: '401', Response: 'Invoice rejected', Errors: message });
+};
+
+const validateInvoice = (invoice) => {
+  const missing = REQUIRED_FIELDS.filter(field => invoice[field] === undefined || invoice[field] === null);
+  if (missing.length > 0) return `Missing fields: ${missing.join(', ')}`;
+  if (!Array.isArray(invoice.Items) || invoice.Items.length === 0) return 'Invoice has no items';
+
+  const saleValue = invoice.Items.reduce((sum, item) => sum + item.SaleValue, 0);
+  if (Math.abs(saleValue - invoice.TotalSaleValue) > invoice.Items.length * 0.01) {
+    return `Item sale values (${saleValue.toFixed(2)}) do not add up to TotalSaleValue (${invoice.TotalSaleValue})`;
+  }
+  return null;
+};
+
+const createInvoiceNumber = (invoice) => {
+  sequence += 1;
+  const stamp = new Date().toISOString().replace(/\D/g, '').slice(2, 14);
+  return `${invoice.POSID}${stamp}${String(sequence).padStart(4, '0')}*test*`;
+};
+
+const server = http.createServer((request, response) => {
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+  if (request.method !== 'POST' || request.url !== INVOICE_PATH) {
+    send(response, 404, { Errors: `Not found: ${request.method} ${request.url}` });
+    return;
+  }
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+    send(response, 401, { Errors: 'Invalid access token' });
+    return;
+  }
+
+  let body = '';
+  request.on('data', chunk => {
+    body += chunk;
+  });
+  request.on('end', () => {
+    if (Math.random() < FAIL_RATE) {
+      console.log('Simulating outage: 503');
+      send(response, 503, { Errors: 'Service unavailable' });
+      return;
+    }
+
+    let invoice;
+    try {
+      invoice = JSON.parse(body);
+    } catch {
+      reject(response, 'Request body is not valid JSON');
+      return;
+    }
+
+    const problem = validateInvoice(invoice);
+    if (problem) {
+      console.log(`Rejected ${invoice.USIN ?? 'invoice'}: ${problem}`);
+      reject(response, problem);
+      return;
+    }
+
+    const invoiceNumber = issued.get(invoice.USIN) ?? createInvoiceNumber(invoice);
+    issued.set(invoice.USIN, invoiceNumber);
+    console.log(`Issued ${invoiceNumber} for ${invoice.USIN} (Rs. ${invoice.TotalBillAmount})`);
+    send(response, 200, {
+      InvoiceNumber: invoiceNumber,
+      Code: '100',
+      Response: 'Fiscal Invoice Number generated successfully.',
+      Errors: null,
+    });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`FBR mock server listening on http://localhost:${PORT}${INVOICE_PATH}`);
+});
@@ -13,11 +13,16 @@ import POSSystem from './pages/POSSystem';
 import TakeOrders from './pages/TakeOrders';
 import Kitchen from './pages/Kitchen';
 import MenuManagement from './pages/MenuManagement';
+import BulkMenuEditor from './pages/BulkMenuEditor';
 import Inventory from './pages/Inventory';
 import Orders from './pages/Orders';
 import Reports from './pages/Reports';
 import Users from './pages/Users';
 import MenuView from './pages/MenuView';
+import Settings from './pages/Settings';
+import Backup from './pages/Backup';
+import AuditLog from './pages/AuditLog';
+import Promotions from './pages/Promotions';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode; allowedRoles?: string[] }> = ({ 
   children, 
@@ -63,6 +68,11 @@ const AppContent: React.FC = () => {
               <MenuManagement />
             </ProtectedRoute>
           } />
+          <Route path="bulk-edit" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <BulkMenuEditor />
+            </ProtectedRoute>
+          } />
           <Route path="inventory" element={
             <ProtectedRoute allowedRoles={['admin']}>
               <Inventory />
@@ -78,6 +88,26 @@ const AppContent: React.FC = () => {
               <Reports />
             </ProtectedRoute>
           } />
+          <Route path="settings" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <Settings />
+            </ProtectedRoute>
+          } />
+          <Route path="backup" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <Backup />
+            </ProtectedRoute>
+          } />
+          <Route path="promotions" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <Promotions />
+            </ProtectedRoute>
+          } />
+          <Route path="audit" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <AuditLog />
+            </ProtectedRoute>
+          } />
           
           {/* Cashier Routes */}
           <Route path="pos" element={
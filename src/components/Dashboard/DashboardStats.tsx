@@ -1,8 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import { BarChart3, DollarSign, ShoppingCart, Users } from 'lucide-react';
-import { getAllOrders, getAllMenuItems, getAllUsers } from '../../utils/database';
+import { getOrdersBetween, getRecentOrders, getAllMenuItems, getAllUsers } from '../../utils/database';
 import { Order } from '../../types';
-import { format, startOfDay, isToday } from 'date-fns';
+import { format, startOfDay, endOfDay } from 'date-fns';
 
 interface StatsData {
   todaySales: number;
@@ -24,21 +24,24 @@ const DashboardStats: React.FC = () => {
   useEffect(() => {
     const loadStats = async () => {
       try {
-        const [orders, menuItems, users] = await Promise.all([
-          getAllOrders(),
+        const now = new Date();
+        const [todayOrders, recentOrders, menuItems, users] = await Promise.all([
+          getOrdersBetween(startOfDay(now), endOfDay(now)),
+          getRecentOrders(5),
           getAllMenuItems(),
           getAllUsers(),
         ]);
 
-        const todayOrders = orders.filter(order => isToday(new Date(order.createdAt)));
-        const todaySales = todayOrders.reduce((sum, order) => sum + order.finalTotal, 0);
+        // A cancelled order is not a sale, though it still carries its total
+        const todaySalesOrders = todayOrders.filter(order => order.status !== 'cancelled');
+        const todaySales = todaySalesOrders.reduce((sum, order) => sum + order.finalTotal, 0);
 
         setStats({
           todaySales,
-          todayOrders: todayOrders.length,
+          todayOrders: todaySalesOrders.length,
           totalMenuItems: menuItems.length,
           totalUsers: users.length,
-          recentOrders: orders.slice(0, 5),
+          recentOrders,
         });
       } catch (error) {
         console.error('Error loading stats:', error);
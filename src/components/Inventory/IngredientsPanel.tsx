@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { v4 as uuidv4 } from 'uuid';
+import { createIngredient, deleteIngredient, setIngredientStock, updateIngredientDetails } from '../../utils/database';
+import {
+  INGREDIENT_UNITS,
+  INGREDIENT_UNIT_LABELS,
+  formatQuantity,
+  getMenuItemsUsing,
+  isLowOnIngredient,
+  validateIngredient,
+} from '../../utils/recipes';
+import { Ingredient, MenuItem } from '../../types';
+
+interface IngredientsPanelProps {
+  ingredients: Ingredient[];
+  menuItems: MenuItem[];
+  onChanged: () => void;
+}
+
+const IngredientsPanel: React.FC<IngredientsPanelProps> = ({ ingredients, menuItems, onChanged }) => {
+  const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
+  const [editingStock, setEditingStock] = useState<{ [id: string]: number }>({});
+
+  const isNew = !!editingIngredient && !ingredients.some(ingredient => ingredient.id === editingIngredient.id);
+
+  const stopEditingStock = (id: string) => {
+    const newEditingStock = { ...editingStock };
+    delete newEditingStock[id];
+    setEditingStock(newEditingStock);
+  };
+
+  const handleSaveStock = async (ingredient: Ingredient) => {
+    const stock = editingStock[ingredient.id];
+    if (stock < 0) {
+      toast.error('Stock cannot be negative');
+      return;
+    }
+    try {
+      await setIngredientStock(ingredient.id, stock);
+      toast.success('Stock updated successfully');
+      stopEditingStock(ingredient.id);
+      onChanged();
+    } catch (error) {
+      console.error('Error updating ingredient stock:', error);
+      toast.error('Failed to update stock');
+    }
+  };
+
+  const handleSaveIngredient = async () => {
+    if (!editingIngredient) return;
+    const problem = validateIngredient(editingIngredient, ingredients);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    const ingredient = { ...editingIngredient, name: editingIngredient.name.trim() };
+    try {
+      if (isNew) {
+        await createIngredient(ingredient);
+        toast.success('Ingredient added successfully');
+      } else {
+        await updateIngredientDetails(ingredient);
+        toast.success('Ingredient updated successfully');
+      }
+      setEditingIngredient(null);
+      onChanged();
+    } catch (error) {
+      console.error('Error saving ingredient:', error);
+      toast.error('Failed to save ingredient');
+    }
+  };
+
+  const handleDeleteIngredient = async (ingredient: Ingredient) => {
+    const usedBy = getMenuItemsUsing(ingredient.id, menuItems);
+    if (usedBy.length > 0) {
+      toast.error(`${ingredient.name} is used by ${usedBy.map(item => item.name).join(', ')}. Remove it from their recipes first.`);
+      return;
+    }
+    if (!window.confirm(`Delete ${ingredient.name}?`)) return;
+
+    try {
+      await deleteIngredient(ingredient.id);
+      toast.success('Ingredient deleted successfully');
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting ingredient:', error);
+      toast.error('Failed to delete ingredient');
+    }
+  };
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <button
+          onClick={() => setEditingIngredient({ id: uuidv4(), name: '', unit: 'kg', stock: 0, lowStockLevel: 0, createdAt: new Date() })}
+          className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 flex items-center space-x-2"
+        >
+          <Plus size={20} />
+          <span>Add Ingredient</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ingredient</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Low At</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Used In</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {ingredients.map(ingredient => {
+                const isEditing = ingredient.id in editingStock;
+                const usedBy = getMenuItemsUsing(ingredient.id, menuItems);
+                return (
+                  <tr key={ingredient.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{ingredient.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {isEditing ? (
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="number"
+                            value={editingStock[ingredient.id]}
+                            onChange={(e) => setEditingStock({ ...editingStock, [ingredient.id]: parseFloat(e.target.value) || 0 })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+                            min="0"
+                            step="any"
+                          />
+                          <span className="text-sm text-gray-500">{ingredient.unit}</span>
+                          <button
+                            onClick={() => handleSaveStock(ingredient)}
+                            className="bg-green-500 text-white px-2 py-1 rounded text-xs hover:bg-green-600"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => stopEditingStock(ingredient.id)}
+                            className="bg-gray-500 text-white px-2 py-1 rounded text-xs hover:bg-gray-600"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-sm font-medium">{formatQuantity(ingredient.stock, ingredient.unit)}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatQuantity(ingredient.lowStockLevel, ingredient.unit)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        ingredient.stock <= 0 ? 'text-red-600 bg-red-100' :
+                        isLowOnIngredient(ingredient) ? 'text-yellow-600 bg-yellow-100' :
+                        'text-green-600 bg-green-100'
+                      }`}>
+                        {ingredient.stock <= 0 ? 'Out of Stock' : isLowOnIngredient(ingredient) ? 'Low Stock' : 'In Stock'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {usedBy.length > 0 ? usedBy.map(item => item.name).join(', ') : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div className="flex items-center space-x-3">
+                        {!isEditing && (
+                          <button
+                            onClick={() => setEditingStock({ ...editingStock, [ingredient.id]: ingredient.stock })}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            Edit Stock
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditingIngredient(ingredient)}
+                          className="text-blue-500 hover:text-blue-700"
+                        >
+                          <Edit size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteIngredient(ingredient)}
+                          className="text-red-500 hover:text-red-700"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {ingredients.length === 0 && (
+        <div className="text-center py-16">
+          <h3 className="text-xl font-medium text-gray-900 mb-2">No ingredients yet</h3>
+          <p className="text-gray-600">Add the ingredients your kitchen counts, then give dishes a recipe.</p>
+        </div>
+      )}
+
+      {/* Ingredient Form Modal */}
+      {editingIngredient && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+            <h3 className="text-xl font-bold mb-4">{isNew ? 'Add Ingredient' : 'Edit Ingredient'}</h3>
+            <div className="space-y-4">
+              <input
+                type="text"
+                value={editingIngredient.name}
+                onChange={(e) => setEditingIngredient({ ...editingIngredient, name: e.target.value })}
+                placeholder="Ingredient Name"
+                className="w-full p-3 border border-gray-300 rounded-lg"
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Unit</label>
+                <select
+                  value={editingIngredient.unit}
+                  onChange={(e) => setEditingIngredient({ ...editingIngredient, unit: e.target.value as Ingredient['unit'] })}
+                  disabled={!isNew}
+                  className="w-full p-3 border border-gray-300 rounded-lg disabled:bg-gray-100"
+                >
+                  {INGREDIENT_UNITS.map(unit => (
+                    <option key={unit} value={unit}>{INGREDIENT_UNIT_LABELS[unit]}</option>
+                  ))}
+                </select>
+                {!isNew && <p className="text-xs text-gray-500 mt-1">Recipes and stock are kept in this unit, so it cannot be changed.</p>}
+              </div>
+              {isNew && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Stock ({editingIngredient.unit})</label>
+                  <input
+                    type="number"
+                    value={editingIngredient.stock}
+                    onChange={(e) => setEditingIngredient({ ...editingIngredient, stock: parseFloat(e.target.value) || 0 })}
+                    min="0"
+                    step="any"
+                    className="w-full p-3 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Low stock at ({editingIngredient.unit})</label>
+                <input
+                  type="number"
+                  value={editingIngredient.lowStockLevel}
+                  onChange={(e) => setEditingIngredient({ ...editingIngredient, lowStockLevel: parseFloat(e.target.value) || 0 })}
+                  min="0"
+                  step="any"
+                  className="w-full p-3 border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+            <div className="flex space-x-2 mt-6">
+              <button
+                onClick={() => setEditingIngredient(null)}
+                className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveIngredient}
+                className="flex-1 bg-green-500 text-white py-2 rounded-lg hover:bg-green-600"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default IngredientsPanel;
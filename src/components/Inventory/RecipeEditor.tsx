@@ -0,0 +1,84 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Ingredient, RecipeLine } from '../../types';
+import { getCompatibleUnits } from '../../utils/recipes';
+
+interface RecipeEditorProps {
+  recipe: RecipeLine[];
+  ingredients: Ingredient[];
+  onChange: (recipe: RecipeLine[]) => void;
+}
+
+// Ingredient lines for one dish, size or modifier option
+const RecipeEditor: React.FC<RecipeEditorProps> = ({ recipe, ingredients, onChange }) => {
+  const updateLine = (index: number, changes: Partial<RecipeLine>) => {
+    onChange(recipe.map((line, lineIndex) => lineIndex === index ? { ...line, ...changes } : line));
+  };
+
+  // A new ingredient starts in its own unit
+  const selectIngredient = (index: number, ingredientId: string) => {
+    const ingredient = ingredients.find(candidate => candidate.id === ingredientId);
+    if (ingredient) updateLine(index, { ingredientId, unit: ingredient.unit });
+  };
+
+  const addLine = () => {
+    const unused = ingredients.find(ingredient => !recipe.some(line => line.ingredientId === ingredient.id));
+    if (!unused) return;
+    onChange([...recipe, { ingredientId: unused.id, quantity: 0, unit: unused.unit }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {recipe.map((line, index) => {
+        const ingredient = ingredients.find(candidate => candidate.id === line.ingredientId);
+        return (
+          <div key={index} className="flex space-x-2 items-center">
+            <select
+              value={line.ingredientId}
+              onChange={(e) => selectIngredient(index, e.target.value)}
+              className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {!ingredient && <option value={line.ingredientId}>Deleted ingredient</option>}
+              {ingredients.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={line.quantity}
+              onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+              min="0"
+              step="any"
+              className="w-24 p-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <select
+              value={line.unit}
+              onChange={(e) => updateLine(index, { unit: e.target.value as RecipeLine['unit'] })}
+              className="w-20 p-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {(ingredient ? getCompatibleUnits(ingredient.unit) : [line.unit]).map(unit => (
+                <option key={unit} value={unit}>{unit}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(recipe.filter((_, lineIndex) => lineIndex !== index))}
+              className="text-red-500 hover:text-red-700 p-1"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={addLine}
+        disabled={recipe.length >= ingredients.length}
+        className="text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1 disabled:opacity-50"
+      >
+        <Plus size={14} />
+        <span>Add ingredient</span>
+      </button>
+    </div>
+  );
+};
+
+export default RecipeEditor;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { updateMenuItemRecipes } from '../../utils/database';
+import { getRecipe, getRecipeCapacity, validateRecipe } from '../../utils/recipes';
+import { formatItemName, hasVariants } from '../../utils/variants';
+import { Ingredient, MenuItem, RecipeLine } from '../../types';
+import RecipeEditor from './RecipeEditor';
+
+interface RecipeModalProps {
+  item: MenuItem;
+  ingredients: Ingredient[];
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+const RecipeModal: React.FC<RecipeModalProps> = ({ item, ingredients, onSaved, onClose }) => {
+  const [draft, setDraft] = useState<MenuItem>(item);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setVariantRecipe = (variantId: string, recipe: RecipeLine[]) => {
+    setDraft({
+      ...draft,
+      variants: draft.variants!.map(variant => variant.id === variantId ? { ...variant, recipe } : variant),
+    });
+  };
+
+  const setOptionRecipe = (groupId: string, optionId: string, recipe: RecipeLine[]) => {
+    setDraft({
+      ...draft,
+      modifierGroups: draft.modifierGroups.map(group => group.id !== groupId ? group : {
+        ...group,
+        options: group.options.map(option => option.id === optionId ? { ...option, recipe } : option),
+      }),
+    });
+  };
+
+  const describeCapacity = (variantId?: string) => {
+    const recipe = getRecipe(draft, variantId);
+    return recipe.length > 0 ? `Can make ${getRecipeCapacity(recipe, ingredients)} more` : 'Counted as finished dishes';
+  };
+
+  const handleSave = async () => {
+    const recipes: [string, RecipeLine[]][] = [
+      [draft.name, draft.recipe ?? []],
+      ...(draft.variants ?? []).map((variant): [string, RecipeLine[]] => [formatItemName(draft.name, variant.name), variant.recipe ?? []]),
+      ...draft.modifierGroups.flatMap(group =>
+        group.options.map((option): [string, RecipeLine[]] => [`${group.name}: ${option.name}`, option.recipe ?? []])
+      ),
+    ];
+    for (const [name, recipe] of recipes) {
+      const problem = validateRecipe(name, recipe, ingredients);
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await updateMenuItemRecipes(draft);
+      toast.success('Recipe saved');
+      onSaved();
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+      toast.error('Failed to save recipe');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">{item.name} Recipe</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {ingredients.length === 0 ? (
+          <p className="text-sm text-gray-600 mb-4">Add ingredients on the Ingredients tab before writing recipes.</p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <h4 className="font-medium">{hasVariants(draft) ? 'Every size' : `One ${draft.name}`}</h4>
+                {!hasVariants(draft) && <span className="text-sm text-gray-600">{describeCapacity()}</span>}
+              </div>
+              <p className="text-xs text-gray-500 mb-2">
+                With a recipe the dish is sold from its ingredients' stock; leave it empty to keep counting finished dishes.
+              </p>
+              <RecipeEditor
+                recipe={draft.recipe ?? []}
+                ingredients={ingredients}
+                onChange={(recipe) => setDraft({ ...draft, recipe })}
+              />
+            </div>
+
+            {hasVariants(draft) && draft.variants!.map(variant => (
+              <div key={variant.id}>
+                <div className="flex justify-between items-baseline mb-2">
+                  <h4 className="font-medium">{variant.name}</h4>
+                  <span className="text-sm text-gray-600">{describeCapacity(variant.id)}</span>
+                </div>
+                <p className="text-xs text-gray-500 mb-2">Replaces the recipe above for this size when set.</p>
+                <RecipeEditor
+                  recipe={variant.recipe ?? []}
+                  ingredients={ingredients}
+                  onChange={(recipe) => setVariantRecipe(variant.id, recipe)}
+                />
+              </div>
+            ))}
+
+            {draft.modifierGroups.map(group => (
+              <div key={group.id}>
+                <h4 className="font-medium mb-2">{group.name}</h4>
+                <p className="text-xs text-gray-500 mb-2">Used on top of the dish's recipe when the option is chosen.</p>
+                <div className="space-y-3">
+                  {group.options.map(option => (
+                    <div key={option.id} className="border border-gray-200 rounded-lg p-3">
+                      <p className="text-sm font-medium mb-2">{option.name}</p>
+                      <RecipeEditor
+                        recipe={option.recipe ?? []}
+                        ingredients={ingredients}
+                        onChange={(recipe) => setOptionRecipe(group.id, option.id, recipe)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex space-x-2 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || ingredients.length === 0}
+            className="flex-1 bg-green-500 text-white py-2 rounded-lg hover:bg-green-600 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecipeModal;
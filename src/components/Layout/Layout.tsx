@@ -1,10 +1,17 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
 import Header from './Header';
 import { motion, AnimatePresence } from 'framer-motion';
+import { startFiscalSync } from '../../utils/fiscalSync';
+import { startPriceSchedule } from '../../utils/priceSchedule';
 
 const Layout: React.FC = () => {
+  // Keep reporting queued sales to FBR while anyone is signed in
+  useEffect(() => startFiscalSync(), []);
+  // and applying scheduled price changes when they fall due
+  useEffect(() => startPriceSchedule(), []);
+
   return (
     <div className="flex h-screen bg-background text-text-primary">
       <Sidebar />
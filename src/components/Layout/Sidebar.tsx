@@ -10,7 +10,12 @@ import {
   ChefHat, 
   CreditCard,
   LogOut,
-  UtensilsCrossed
+  UtensilsCrossed,
+  Settings,
+  DatabaseBackup,
+  ScrollText,
+  Tag,
+  FileSpreadsheet
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { motion } from 'framer-motion';
@@ -35,9 +40,14 @@ const Sidebar: React.FC = () => {
         return [
           ...commonItems,
           { icon: BookOpen, label: 'Menu', path: '/menu' },
+          { icon: FileSpreadsheet, label: 'Bulk Edit', path: '/bulk-edit' },
           { icon: Package, label: 'Inventory', path: '/inventory' },
           { icon: Users, label: 'Users', path: '/users' },
+          { icon: Tag, label: 'Promotions', path: '/promotions' },
           { icon: BarChart3, label: 'Reports', path: '/reports' },
+          { icon: ScrollText, label: 'Audit Log', path: '/audit' },
+          { icon: DatabaseBackup, label: 'Backup & Restore', path: '/backup' },
+          { icon: Settings, label: 'Settings', path: '/settings' },
         ];
       case 'cashier':
         return [
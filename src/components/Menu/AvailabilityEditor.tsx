@@ -0,0 +1,76 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Schedule } from '../../types';
+import { DEFAULT_AVAILABILITY_WINDOW } from '../../utils/availability';
+import { DAY_LABELS } from '../../utils/schedule';
+
+interface AvailabilityEditorProps {
+  availability: Schedule[];
+  onChange: (availability: Schedule[]) => void;
+}
+
+// Time windows something can be ordered in; no windows means always
+const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({ availability, onChange }) => {
+  const updateWindow = (index: number, changes: Partial<Schedule>) => {
+    onChange(availability.map((window, i) => i === index ? { ...window, ...changes } : window));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const { days } = availability[index];
+    updateWindow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  return (
+    <div className="space-y-2">
+      {availability.length === 0 && (
+        <p className="text-sm text-gray-500">Available at all times</p>
+      )}
+      {availability.map((window, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {DAY_LABELS.map((label, day) => (
+              <label key={label} className="flex items-center space-x-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={window.days.includes(day)}
+                  onChange={() => toggleDay(index, day)}
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2 text-sm">
+            <input
+              type="time"
+              value={window.startTime}
+              onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+              className="p-2 border border-gray-300 rounded-lg"
+            />
+            <span>to</span>
+            <input
+              type="time"
+              value={window.endTime}
+              onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+              className="p-2 border border-gray-300 rounded-lg"
+            />
+            <button
+              onClick={() => onChange(availability.filter((_, i) => i !== index))}
+              className="text-red-500 hover:text-red-700 p-1"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...availability, { ...DEFAULT_AVAILABILITY_WINDOW }])}
+        className="w-full border-2 border-dashed border-gray-300 text-gray-600 py-2 rounded-lg hover:border-blue-500 hover:text-blue-500 flex items-center justify-center space-x-2"
+      >
+        <Plus size={16} />
+        <span>Add Time Window</span>
+      </button>
+    </div>
+  );
+};
+
+export default AvailabilityEditor;
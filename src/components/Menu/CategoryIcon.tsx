@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+  Beef,
+  Cake,
+  Coffee,
+  Croissant,
+  CupSoda,
+  Drumstick,
+  Fish,
+  Flame,
+  IceCreamCone,
+  LucideIcon,
+  Pizza,
+  Salad,
+  Sandwich,
+  Soup,
+  Utensils,
+  Wheat,
+} from 'lucide-react';
+
+const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  utensils: Utensils,
+  wheat: Wheat,
+  flame: Flame,
+  drumstick: Drumstick,
+  beef: Beef,
+  fish: Fish,
+  sandwich: Sandwich,
+  pizza: Pizza,
+  soup: Soup,
+  salad: Salad,
+  croissant: Croissant,
+  'cup-soda': CupSoda,
+  coffee: Coffee,
+  cake: Cake,
+  'ice-cream': IceCreamCone,
+};
+
+interface CategoryIconProps {
+  icon?: string;
+  size?: number;
+  color?: string;
+  className?: string;
+}
+
+// Renders nothing for categories without a (known) icon
+const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, size = 16, color, className }) => {
+  const Icon = icon ? CATEGORY_ICONS[icon] : undefined;
+  if (!Icon) return null;
+  return <Icon size={size} color={color} className={className} />;
+};
+
+interface CategoryIconPickerProps {
+  value?: string;
+  onChange: (icon: string | undefined) => void;
+}
+
+export const CategoryIconPicker: React.FC<CategoryIconPickerProps> = ({ value, onChange }) => {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button
+        type="button"
+        onClick={() => onChange(undefined)}
+        className={`px-2 h-9 rounded-lg border text-xs ${!value ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600'}`}
+      >
+        None
+      </button>
+      {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+        <button
+          key={name}
+          type="button"
+          onClick={() => onChange(name)}
+          title={name}
+          className={`w-9 h-9 flex items-center justify-center rounded-lg border ${
+            value === name ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600 hover:border-blue-300'
+          }`}
+        >
+          <Icon size={18} />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default CategoryIcon;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Category } from '../../types';
+import { getSubCategories, getTopLevelCategories, getTopLevelCategoryId } from '../../utils/menuOrder';
+import CategoryIcon from './CategoryIcon';
+
+// The POS keeps its own gray and blue look; waiter screens follow the theme
+const TAB_STYLES = {
+  pos: {
+    tab: 'px-4 py-2 rounded-lg',
+    active: 'bg-blue-500 text-white',
+    inactive: 'bg-gray-200 text-gray-700 hover:bg-gray-300',
+  },
+  theme: {
+    tab: 'px-4 py-2 rounded-full text-sm font-medium',
+    active: 'bg-primary text-white shadow',
+    inactive: 'bg-surface text-text-secondary hover:bg-background',
+  },
+};
+
+interface CategoryTabsProps {
+  // Categories to offer, already filtered for the screen and in sort order
+  categories: Category[];
+  selectedId: string;
+  onSelect: (categoryId: string) => void;
+  variant: keyof typeof TAB_STYLES;
+}
+
+// Top-level categories as tabs, with a second row for the selected one's sub-categories
+const CategoryTabs: React.FC<CategoryTabsProps> = ({ categories, selectedId, onSelect, variant }) => {
+  const styles = TAB_STYLES[variant];
+  const activeTopId = getTopLevelCategoryId(selectedId, categories);
+  const activeTop = categories.find(category => category.id === activeTopId);
+  const subCategories = getSubCategories(activeTopId, categories);
+
+  const renderTab = (category: Category, label: string, isActive: boolean, size: 'large' | 'small') => (
+    <button
+      key={`${category.id}-${label}`}
+      onClick={() => onSelect(category.id)}
+      style={isActive && category.color ? { backgroundColor: category.color } : undefined}
+      className={`${size === 'large' ? styles.tab : 'px-3 py-1 rounded-lg text-sm'} whitespace-nowrap transition-colors flex items-center space-x-2 ${
+        isActive ? styles.active : styles.inactive
+      }`}
+    >
+      <CategoryIcon icon={category.icon} color={isActive ? undefined : category.color} />
+      <span>{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="mb-6">
+      <div className="flex space-x-2 overflow-x-auto pb-2">
+        {getTopLevelCategories(categories).map(category =>
+          renderTab(category, category.name, category.id === activeTopId, 'large')
+        )}
+      </div>
+      {activeTop && subCategories.length > 0 && (
+        <div className="flex space-x-2 overflow-x-auto pb-2 mt-1">
+          {renderTab(activeTop, `All ${activeTop.name}`, selectedId === activeTopId, 'small')}
+          {subCategories.map(category => renderTab(category, category.name, category.id === selectedId, 'small'))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoryTabs;
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { ImagePlus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { createMenuImage } from '../../utils/images';
+import { MenuImage } from '../../types';
+import MenuItemImage from './MenuItemImage';
+
+interface ImageUploadProps {
+  // The saved photo, if any
+  imageId?: string;
+  // A photo picked in this form that is not saved yet
+  pendingImage: MenuImage | null;
+  onUpload: (image: MenuImage) => void;
+  onRemove: () => void;
+}
+
+const ImageUpload: React.FC<ImageUploadProps> = ({ imageId, pendingImage, onUpload, onRemove }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [pendingUrl, setPendingUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pendingImage) {
+      setPendingUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(pendingImage.thumbnail);
+    setPendingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [pendingImage]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsProcessing(true);
+    try {
+      onUpload(await createMenuImage(file));
+    } catch (error) {
+      console.error('Error processing image:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to process image');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  const hasImage = !!pendingImage || !!imageId;
+
+  return (
+    <div className="flex items-center space-x-4">
+      {hasImage && (
+        <div className="w-24 h-24 rounded-lg border overflow-hidden bg-gray-50 flex-shrink-0">
+          {pendingUrl
+            ? <img src={pendingUrl} alt="New photo" className="w-full h-full object-cover" />
+            : <MenuItemImage imageId={imageId} alt="Photo" className="w-full h-full" />}
+        </div>
+      )}
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex-1 flex flex-col items-center justify-center p-4 border-2 border-dashed rounded-lg cursor-pointer text-sm ${
+          isDragging ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600 hover:border-blue-300'
+        }`}
+      >
+        <ImagePlus size={24} className="mb-1" />
+        <span>{isProcessing ? 'Processing...' : hasImage ? 'Drop or choose a new photo' : 'Drop a photo here or click to choose'}</span>
+        <input
+          type="file"
+          accept="image/*"
+          disabled={isProcessing}
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </label>
+      {hasImage && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-red-500 hover:text-red-700"
+          title="Remove photo"
+        >
+          <Trash2 size={20} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ImageUpload;
@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import { X, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { importMenu } from '../../utils/database';
+import {
+  ColumnMapping,
+  DuplicateAction,
+  ImportRowStatus,
+  MENU_FIELDS,
+  MENU_FIELD_LABELS,
+  MenuSource,
+  REQUIRED_MENU_FIELDS,
+  buildImportRows,
+  getImportRowStatus,
+  guessMapping,
+  prepareMenuImport,
+  readMenuFile,
+} from '../../utils/menuTransfer';
+import { Category, MenuItem } from '../../types';
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'New',
+  update: 'Update',
+  skip: 'Skip',
+  error: 'Error',
+};
+
+const STATUS_COLORS: Record<ImportRowStatus, string> = {
+  new: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-100 text-gray-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+interface MenuImportModalProps {
+  menuItems: MenuItem[];
+  categories: Category[];
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const MenuImportModal: React.FC<MenuImportModalProps> = ({ menuItems, categories, onImported, onClose }) => {
+  const [source, setSource] = useState<MenuSource | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [duplicateAction, setDuplicateAction] = useState<DuplicateAction>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const missingFields = REQUIRED_MENU_FIELDS.filter(field => !mapping[field]);
+  const rows = useMemo(
+    () => (source && REQUIRED_MENU_FIELDS.every(field => mapping[field]) ? buildImportRows(source, mapping, menuItems) : []),
+    [source, mapping, menuItems]
+  );
+  const counts = rows.reduce<Record<ImportRowStatus, number>>((totals, row) => {
+    totals[getImportRowStatus(row, duplicateAction)] += 1;
+    return totals;
+  }, { new: 0, update: 0, skip: 0, error: 0 });
+  const importCount = counts.new + counts.update;
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = readMenuFile(file.name, await file.text());
+      if (parsed.records.length === 0) {
+        toast.error('File has no menu items');
+        return;
+      }
+      setSource(parsed);
+      setFileName(file.name);
+      setMapping(guessMapping(parsed.columns));
+    } catch (error) {
+      console.error('Error reading menu file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read menu file');
+      setSource(null);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const changes = await prepareMenuImport(rows, duplicateAction, menuItems, categories);
+      await importMenu(changes.categories, changes.menuItems, changes.images);
+      toast.success(`Imported ${changes.menuItems.length} menu items`);
+      onImported();
+    } catch (error) {
+      console.error('Error importing menu:', error);
+      toast.error('Failed to import menu');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">Import Menu</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Choose a CSV or JSON file. Nothing is written until you confirm the preview below.
+        </p>
+        <label className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 inline-flex items-center space-x-2 cursor-pointer">
+          <Upload size={20} />
+          <span>Choose File</span>
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileSelected} className="hidden" />
+        </label>
+        {fileName && <p className="text-sm text-gray-600 mt-2">{fileName} ({source?.records.length} rows)</p>}
+
+        {source && (
+          <>
+            <h4 className="font-medium mt-6 mb-2">Columns</h4>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {MENU_FIELDS.map(field => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {MENU_FIELD_LABELS[field]}{REQUIRED_MENU_FIELDS.includes(field) ? ' *' : ''}
+                  </label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Not imported</option>
+                    {source.columns.map(column => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <h4 className="font-medium mt-6 mb-2">Items already on the menu</h4>
+            <div className="flex space-x-4 text-sm">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  checked={duplicateAction === 'skip'}
+                  onChange={() => setDuplicateAction('skip')}
+                />
+                <span>Skip them</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  checked={duplicateAction === 'update'}
+                  onChange={() => setDuplicateAction('update')}
+                />
+                <span>Update them from the file</span>
+              </label>
+            </div>
+
+            {missingFields.length > 0 ? (
+              <p className="text-sm text-red-600 mt-6">
+                Choose a column for {missingFields.map(field => MENU_FIELD_LABELS[field]).join(' and ')} to see the preview.
+              </p>
+            ) : (
+              <>
+                <div className="flex space-x-4 text-sm mt-6 mb-2">
+                  {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map(status => (
+                    <span key={status} className={`px-2 py-1 rounded-full ${STATUS_COLORS[status]}`}>
+                      {STATUS_LABELS[status]}: {counts[status]}
+                    </span>
+                  ))}
+                </div>
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="min-w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {rows.map(row => {
+                        const status = getImportRowStatus(row, duplicateAction);
+                        return (
+                          <tr key={row.rowNumber}>
+                            <td className="px-4 py-2 text-sm text-gray-500">{row.rowNumber}</td>
+                            <td className="px-4 py-2 text-sm">{row.name || '-'}</td>
+                            <td className="px-4 py-2 text-sm">{row.categoryName || '-'}</td>
+                            <td className="px-4 py-2 text-sm">
+                              {row.item.variants ? `From Rs. ${row.item.price}` : `Rs. ${row.item.price}`}
+                            </td>
+                            <td className="px-4 py-2 text-sm">
+                              <span className={`px-2 py-1 rounded-full text-xs ${STATUS_COLORS[status]}`}>
+                                {STATUS_LABELS[status]}
+                              </span>
+                              {row.errors.map(error => (
+                                <p key={error} className="text-xs text-red-600 mt-1">{error}</p>
+                              ))}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        <div className="flex space-x-2 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={importCount === 0 || isImporting}
+            className="flex-1 bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isImporting ? 'Importing...' : `Import ${importCount} Items`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MenuImportModal;
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { getMenuImage } from '../../utils/database';
+
+interface MenuItemImageProps {
+  imageId?: string;
+  alt: string;
+  // Order tiles use the thumbnail; the menu shows the full photo
+  size?: 'thumbnail' | 'image';
+  className?: string;
+}
+
+// Renders nothing until the photo is loaded, or at all when the item has none
+const MenuItemImage: React.FC<MenuItemImageProps> = ({ imageId, alt, size = 'thumbnail', className = '' }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!imageId) {
+      setUrl(null);
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getMenuImage(imageId)
+      .then(image => {
+        if (!image || cancelled) return;
+        objectUrl = URL.createObjectURL(image[size]);
+        setUrl(objectUrl);
+      })
+      .catch(error => console.error('Error loading menu image:', error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [imageId, size]);
+
+  if (!url) return null;
+  return <img src={url} alt={alt} className={`object-cover ${className}`} />;
+};
+
+export default MenuItemImage;
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdjustmentApproval, AdjustmentReason, Order, OrderItem, Payment, TenderMethod, User } from '../../types';
+import { ADJUSTMENT_REASONS, createApproval, hasManagerPin, verifyManagerPin } from '../../utils/adjustments';
+import { getAmountPaid, getItemsAmount, getUnpaidItems } from '../../utils/splitBill';
+
+export interface AdjustmentRequest {
+  orderItemIds: string[];
+  amount: number;
+  method: TenderMethod;
+  approval: AdjustmentApproval;
+  manager: User;
+}
+
+interface AdjustmentModalProps {
+  mode: 'void' | 'refund';
+  order: Order;
+  items: OrderItem[];
+  payments: Payment[];
+  initialItemIds?: string[];
+  getItemName: (item: OrderItem) => string;
+  isProcessing: boolean;
+  onConfirm: (request: AdjustmentRequest) => void;
+  onClose: () => void;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const AdjustmentModal: React.FC<AdjustmentModalProps> = ({
+  mode,
+  order,
+  items,
+  payments,
+  initialItemIds = [],
+  getItemName,
+  isProcessing,
+  onConfirm,
+  onClose,
+}) => {
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>(initialItemIds);
+  const [customAmount, setCustomAmount] = useState<number | null>(null);
+  const [method, setMethod] = useState<TenderMethod>('cash');
+  const [reason, setReason] = useState<AdjustmentReason | ''>('');
+  const [note, setNote] = useState('');
+  const [pin, setPin] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [managerPinSet, setManagerPinSet] = useState(true);
+
+  useEffect(() => {
+    hasManagerPin()
+      .then(setManagerPinSet)
+      .catch(error => console.error('Error checking manager PINs:', error));
+  }, []);
+
+  // Voids can only touch items nobody has paid for yet; refunds any item still on the bill
+  const selectableItems = mode === 'void'
+    ? getUnpaidItems(items, payments)
+    : items.filter(item => !item.voided);
+  const selectedItems = selectableItems.filter(item => selectedItemIds.includes(item.id));
+  const netPaid = getAmountPaid(payments);
+
+  const isFullRefund = mode === 'refund' && selectedItems.length === selectableItems.length;
+  const itemsAmount = isFullRefund ? netPaid : Math.min(netPaid, roundMoney(getItemsAmount(order, selectedItems)));
+  const amount = mode === 'refund' && customAmount !== null ? customAmount : itemsAmount;
+
+  const toggleItem = (itemId: string) => {
+    setSelectedItemIds(selectedItemIds.includes(itemId)
+      ? selectedItemIds.filter(id => id !== itemId)
+      : [...selectedItemIds, itemId]);
+    setCustomAmount(null);
+  };
+
+  const handleConfirm = async () => {
+    if (mode === 'void' && selectedItems.length === 0) {
+      toast.error('Select the items to void');
+      return;
+    }
+    if (mode === 'refund' && (amount <= 0 || amount > netPaid)) {
+      toast.error(`Refund must be between Rs. 0.01 and Rs. ${netPaid.toFixed(2)}`);
+      return;
+    }
+    if (!reason) {
+      toast.error('Choose a reason');
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const manager = await verifyManagerPin(pin);
+      if (!manager) {
+        toast.error('Manager PIN not recognised');
+        setPin('');
+        return;
+      }
+
+      onConfirm({
+        orderItemIds: selectedItems.map(item => item.id),
+        amount,
+        method,
+        approval: createApproval(manager, reason, note),
+        manager,
+      });
+    } catch (error) {
+      console.error('Error verifying manager PIN:', error);
+      toast.error('Failed to verify manager PIN');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-xl font-bold">{mode === 'void' ? 'Void Items' : 'Refund Order'}</h3>
+            <p className="text-sm text-gray-600">Order #{order.id.slice(0, 8)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {selectableItems.map(item => (
+              <label key={item.id} className="flex items-center justify-between border rounded-lg p-3 cursor-pointer">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedItemIds.includes(item.id)}
+                    onChange={() => toggleItem(item.id)}
+                  />
+                  <span className="text-sm">{getItemName(item)} x{item.quantity}</span>
+                </div>
+                <span className="text-sm font-medium">Rs. {item.totalPrice.toFixed(2)}</span>
+              </label>
+            ))}
+          </div>
+
+          {mode === 'refund' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Refund Amount (paid: Rs. {netPaid.toFixed(2)})
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max={netPaid}
+                  value={amount}
+                  onChange={(e) => setCustomAmount(Math.max(0, parseFloat(e.target.value) || 0))}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Selected items are returned to stock. Leave items unselected to refund an amount only.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Refund Method
+                </label>
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as TenderMethod)}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="cash">Cash</option>
+                  <option value="card">Card</option>
+                </select>
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Reason
+            </label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as AdjustmentReason | '')}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">Choose a reason...</option>
+              {Object.entries(ADJUSTMENT_REASONS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="w-full p-2 border border-gray-300 rounded-lg"
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Manager PIN
+            </label>
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            />
+            {!managerPinSet && (
+              <p className="text-xs text-red-600 mt-1">
+                No admin has a manager PIN yet. An admin can set one on the Users page.
+              </p>
+            )}
+          </div>
+
+          <button
+            onClick={handleConfirm}
+            disabled={isProcessing || isVerifying}
+            className="w-full bg-red-500 text-white py-2 rounded-lg hover:bg-red-600 disabled:opacity-50 flex items-center justify-center space-x-2"
+          >
+            <ShieldCheck size={20} />
+            <span>
+              {isProcessing || isVerifying
+                ? 'Processing...'
+                : mode === 'void'
+                  ? `Approve Void (Rs. ${itemsAmount.toFixed(2)})`
+                  : `Approve Refund (Rs. ${amount.toFixed(2)})`}
+            </span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentModal;
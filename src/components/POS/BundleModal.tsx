@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { X, Package } from 'lucide-react';
+import { BundleComponent, BundleSlot, Category, MenuItem } from '../../types';
+import { createComponent, getDefaultComponents } from '../../utils/bundles';
+import { isAvailableNow } from '../../utils/availability';
+import { formatItemName, getStockOf } from '../../utils/variants';
+
+interface SlotOption {
+  key: string;
+  item: MenuItem;
+  variantId?: string;
+  name: string;
+  stock: number;
+}
+
+// Each size of a sized item is its own option
+const getSlotOptions = (slot: BundleSlot, menuItems: MenuItem[]): SlotOption[] => {
+  return slot.menuItemIds.flatMap(id => {
+    const item = menuItems.find(menuItem => menuItem.id === id);
+    if (!item) return [];
+    if (!item.variants || item.variants.length === 0) {
+      return [{ key: id, item, name: item.name, stock: item.stock }];
+    }
+    return item.variants.map(variant => ({
+      key: `${id}:${variant.id}`,
+      item,
+      variantId: variant.id,
+      name: formatItemName(item.name, variant.name),
+      stock: getStockOf(item, variant.id),
+    }));
+  });
+};
+
+interface BundleModalProps {
+  bundle: MenuItem;
+  menuItems: MenuItem[];
+  categories: Category[];
+  onConfirm: (components: BundleComponent[]) => void;
+  onClose: () => void;
+}
+
+const BundleModal: React.FC<BundleModalProps> = ({ bundle, menuItems, categories, onConfirm, onClose }) => {
+  const canOrder = (option: MenuItem) => isAvailableNow(option, menuItems, categories, new Date());
+  const [components, setComponents] = useState<BundleComponent[]>(() => getDefaultComponents(bundle, menuItems, canOrder));
+
+  const choose = (slot: BundleSlot, option: SlotOption) => {
+    setComponents(components.map(component =>
+      component.slotId === slot.id ? createComponent(slot, option.item, option.variantId) : component
+    ));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center space-x-2">
+            <Package className="text-blue-500" size={24} />
+            <div>
+              <h3 className="text-xl font-bold">{bundle.name}</h3>
+              <p className="text-sm text-gray-600">Rs. {bundle.price}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {bundle.bundle?.map(slot => {
+            const selected = components.find(component => component.slotId === slot.id);
+            return (
+              <div key={slot.id}>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  {slot.name}{slot.quantity > 1 ? ` (x${slot.quantity})` : ''}
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {getSlotOptions(slot, menuItems).map(option => {
+                    const inStock = option.stock >= slot.quantity && canOrder(option.item);
+                    const isSelected = selected?.menuItemId === option.item.id && selected.variantId === option.variantId;
+                    return (
+                      <button
+                        key={option.key}
+                        onClick={() => choose(slot, option)}
+                        disabled={!inStock || (slot.type === 'fixed' && !option.variantId)}
+                        className={`p-2 rounded-lg border text-sm text-left ${
+                          isSelected
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-300 text-gray-700 hover:border-blue-300'
+                        } ${!inStock ? 'opacity-50' : ''}`}
+                      >
+                        {option.name}
+                        {!inStock && <span className="block text-xs text-red-500">{canOrder(option.item) ? 'Out of stock' : 'Unavailable'}</span>}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex space-x-2 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(components)}
+            className="flex-1 bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600"
+          >
+            Add to Order
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BundleModal;
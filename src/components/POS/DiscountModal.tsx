@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { DiscountSettings, ManualDiscount, User } from '../../types';
+import { hasManagerPin, verifyManagerPin } from '../../utils/adjustments';
+import { exceedsManualLimit, getManualDiscountAmount } from '../../utils/promotions';
+
+interface DiscountModalProps {
+  subtotal: number;
+  settings: DiscountSettings;
+  user: User;
+  current?: ManualDiscount;
+  isProcessing: boolean;
+  // `undefined` removes the manual discount
+  onApply: (manualDiscount: ManualDiscount | undefined) => void;
+  onClose: () => void;
+}
+
+const DiscountModal: React.FC<DiscountModalProps> = ({
+  subtotal,
+  settings,
+  user,
+  current,
+  isProcessing,
+  onApply,
+  onClose,
+}) => {
+  const [type, setType] = useState<ManualDiscount['type']>(current?.type ?? 'percentage');
+  const [value, setValue] = useState(current?.value ?? 0);
+  const [reason, setReason] = useState(current?.reason ?? '');
+  const [pin, setPin] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [managerPinSet, setManagerPinSet] = useState(true);
+
+  useEffect(() => {
+    hasManagerPin()
+      .then(setManagerPinSet)
+      .catch(error => console.error('Error checking manager PINs:', error));
+  }, []);
+
+  const limit = settings.manualLimits[user.role] ?? 0;
+  const needsApproval = exceedsManualLimit(settings, user.role, { type, value }, subtotal);
+  const amount = Math.min(subtotal, getManualDiscountAmount({ type, value, reason, appliedBy: user.id }, subtotal));
+
+  const handleApply = async () => {
+    if (value <= 0) {
+      toast.error('Enter a discount greater than 0');
+      return;
+    }
+    if (type === 'percentage' && value > 100) {
+      toast.error('A percentage discount cannot exceed 100%');
+      return;
+    }
+    if (type === 'fixed' && value > subtotal) {
+      toast.error(`A fixed discount cannot exceed the subtotal of Rs. ${subtotal.toFixed(2)}`);
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error('Enter a reason for the discount');
+      return;
+    }
+
+    const manualDiscount: ManualDiscount = { type, value, reason: reason.trim(), appliedBy: user.id };
+    if (!needsApproval) {
+      onApply(manualDiscount);
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const manager = await verifyManagerPin(pin);
+      if (!manager) {
+        toast.error('Manager PIN not recognised');
+        setPin('');
+        return;
+      }
+      onApply({ ...manualDiscount, approvedBy: manager.id });
+    } catch (error) {
+      console.error('Error verifying manager PIN:', error);
+      toast.error('Failed to verify manager PIN');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-xl font-bold">Manual Discount</h3>
+            <p className="text-sm text-gray-600">Your limit: {limit}% of the subtotal</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex space-x-2">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as ManualDiscount['type'])}
+              className="p-2 border border-gray-300 rounded-lg"
+            >
+              <option value="percentage">%</option>
+              <option value="fixed">Rs.</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              value={value}
+              onChange={(e) => setValue(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="flex-1 p-2 border border-gray-300 rounded-lg text-right"
+            />
+          </div>
+
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason, e.g. regular guest"
+            className="w-full p-2 border border-gray-300 rounded-lg"
+          />
+
+          {needsApproval && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Manager PIN (above your limit)
+              </label>
+              <input
+                type="password"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg"
+              />
+              {!managerPinSet && (
+                <p className="text-xs text-red-600 mt-1">
+                  No admin has a manager PIN yet. An admin can set one on the Users page.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            {current && (
+              <button
+                onClick={() => onApply(undefined)}
+                disabled={isProcessing}
+                className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            )}
+            <button
+              onClick={handleApply}
+              disabled={isProcessing || isVerifying}
+              className="flex-1 bg-green-500 text-white py-2 rounded-lg hover:bg-green-600 disabled:opacity-50 flex items-center justify-center space-x-2"
+            >
+              {needsApproval && <ShieldCheck size={20} />}
+              <span>{isProcessing || isVerifying ? 'Processing...' : `Apply (Rs. ${amount.toFixed(2)})`}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiscountModal;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { X, Banknote, CreditCard, Plus, Trash2 } from 'lucide-react';
+import { TenderMethod } from '../../types';
+import { TenderBreakdown, TenderInput, calculateTenders, validateTenders } from '../../utils/tenders';
+
+interface PaymentModalProps {
+  amountDue: number;
+  amountLabel: string;
+  completeLabel: string;
+  isProcessing: boolean;
+  onPrint: (breakdown: TenderBreakdown) => void;
+  onComplete: (breakdown: TenderBreakdown) => void;
+  onClose: () => void;
+}
+
+// Common notes for one-tap cash entry
+const CASH_NOTES = [500, 1000, 5000];
+
+const PaymentModal: React.FC<PaymentModalProps> = ({
+  amountDue,
+  amountLabel,
+  completeLabel,
+  isProcessing,
+  onPrint,
+  onComplete,
+  onClose,
+}) => {
+  const [tenders, setTenders] = useState<TenderInput[]>([{ method: 'cash', tendered: amountDue }]);
+  const [tip, setTip] = useState(0);
+
+  const breakdown = calculateTenders(amountDue, tip, tenders);
+  const problem = validateTenders(breakdown);
+
+  const updateTender = (index: number, tender: Partial<TenderInput>) => {
+    setTenders(tenders.map((existing, i) => i === index ? { ...existing, ...tender } : existing));
+  };
+
+  const addTender = (method: TenderMethod) => {
+    setTenders([...tenders, { method, tendered: breakdown.shortfall }]);
+  };
+
+  const removeTender = (index: number) => {
+    setTenders(tenders.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">Payment</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <p className="text-lg font-medium">{amountLabel}: Rs. {amountDue.toFixed(2)}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tip
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={tip}
+              onChange={(e) => setTip(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tenders
+            </label>
+            <div className="space-y-2">
+              {tenders.map((tender, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <select
+                    value={tender.method}
+                    onChange={(e) => updateTender(index, { method: e.target.value as TenderMethod })}
+                    className="p-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="cash">Cash</option>
+                    <option value="card">Card</option>
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    value={tender.tendered}
+                    onChange={(e) => updateTender(index, { tendered: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="flex-1 p-2 border border-gray-300 rounded-lg text-right"
+                  />
+                  <button
+                    onClick={() => removeTender(index)}
+                    disabled={tenders.length === 1}
+                    className="text-red-500 hover:text-red-700 disabled:opacity-30"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mt-2">
+              <button
+                onClick={() => addTender('cash')}
+                className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 flex items-center space-x-1"
+              >
+                <Plus size={12} />
+                <Banknote size={12} />
+                <span>Cash</span>
+              </button>
+              <button
+                onClick={() => addTender('card')}
+                className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 flex items-center space-x-1"
+              >
+                <Plus size={12} />
+                <CreditCard size={12} />
+                <span>Card</span>
+              </button>
+              {CASH_NOTES.map(note => (
+                <button
+                  key={note}
+                  onClick={() => setTenders([{ method: 'cash', tendered: note }])}
+                  className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300"
+                >
+                  Cash Rs. {note}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-t pt-4 space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Tendered:</span>
+              <span>Rs. {breakdown.totalTendered.toFixed(2)}</span>
+            </div>
+            {breakdown.shortfall > 0 ? (
+              <div className="flex justify-between font-bold text-lg text-red-600">
+                <span>Remaining:</span>
+                <span>Rs. {breakdown.shortfall.toFixed(2)}</span>
+              </div>
+            ) : (
+              <div className="flex justify-between font-bold text-lg text-green-600">
+                <span>Change Due:</span>
+                <span>Rs. {breakdown.changeDue.toFixed(2)}</span>
+              </div>
+            )}
+            {problem && breakdown.shortfall === 0 && (
+              <p className="text-sm text-red-600">{problem}</p>
+            )}
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onPrint(breakdown)}
+              className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600"
+            >
+              Print Receipt
+            </button>
+            <button
+              onClick={() => onComplete(breakdown)}
+              disabled={isProcessing || problem !== null}
+              className="flex-1 bg-green-500 text-white py-2 rounded-lg hover:bg-green-600 disabled:opacity-50"
+            >
+              {isProcessing ? 'Processing...' : completeLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentModal;
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { X, Banknote, CreditCard } from 'lucide-react';
+import { Order, OrderItem, Payment, TenderMethod } from '../../types';
+import {
+  SplitMode,
+  SplitShare,
+  getRemainingBalance,
+  getUnpaidItems,
+  splitByItems,
+  splitBySeat,
+  splitEvenly,
+} from '../../utils/splitBill';
+
+interface SplitBillModalProps {
+  order: Order;
+  items: OrderItem[];
+  payments: Payment[];
+  getItemName: (item: OrderItem) => string;
+  isProcessing: boolean;
+  // Resolves to true once the share's payment has been recorded
+  onPay: (share: SplitShare, method: TenderMethod) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<SplitMode, string> = {
+  even: 'Evenly',
+  items: 'By Item',
+  seat: 'By Seat',
+};
+
+const SplitBillModal: React.FC<SplitBillModalProps> = ({
+  order,
+  items,
+  payments,
+  getItemName,
+  isProcessing,
+  onPay,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<SplitMode>('even');
+  const [ways, setWays] = useState(2);
+  const [sharesPaid, setSharesPaid] = useState(0);
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [seats, setSeats] = useState<Record<string, number | undefined>>(
+    Object.fromEntries(items.map(item => [item.id, item.seat]))
+  );
+  const [method, setMethod] = useState<TenderMethod>('cash');
+
+  const remaining = getRemainingBalance(order, payments);
+  const unpaidItems = getUnpaidItems(items, payments);
+
+  // Shares still to pay, numbered against the original number of guests
+  const evenShares = splitEvenly(remaining, Math.max(1, ways - sharesPaid)).map((share, index) => ({
+    ...share,
+    label: `Share ${sharesPaid + index + 1} of ${ways}`,
+  }));
+
+  const getShares = (): SplitShare[] => {
+    switch (mode) {
+      case 'even':
+        return evenShares.slice(0, 1);
+      case 'items':
+        return selectedItemIds.length > 0 ? [splitByItems(order, items, payments, selectedItemIds)] : [];
+      case 'seat':
+        return splitBySeat(order, items, payments, seats);
+    }
+  };
+
+  const toggleItem = (itemId: string) => {
+    setSelectedItemIds(selectedItemIds.includes(itemId)
+      ? selectedItemIds.filter(id => id !== itemId)
+      : [...selectedItemIds, itemId]);
+  };
+
+  const shares = getShares();
+
+  const handlePay = async (share: SplitShare) => {
+    const isPaid = await onPay(share, method);
+    if (!isPaid) return;
+
+    if (mode === 'even') {
+      setSharesPaid(sharesPaid + 1);
+    }
+    setSelectedItemIds([]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-xl font-bold">Split Bill</h3>
+            <p className="text-sm text-gray-600">Balance due: Rs. {remaining.toFixed(2)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex space-x-2 mb-4">
+          {(Object.keys(MODE_LABELS) as SplitMode[]).map(splitMode => (
+            <button
+              key={splitMode}
+              onClick={() => setMode(splitMode)}
+              className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                mode === splitMode
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {MODE_LABELS[splitMode]}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'even' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Split the balance between
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min={Math.max(2, sharesPaid + 1)}
+                value={ways}
+                disabled={sharesPaid > 0}
+                onChange={(e) => setWays(Math.max(2, parseInt(e.target.value) || 2))}
+                className="w-20 p-2 border border-gray-300 rounded-lg"
+              />
+              <span className="text-sm text-gray-600">guests</span>
+            </div>
+            <div className="mt-3 space-y-1 text-sm text-gray-600">
+              {evenShares.map(share => (
+                <div key={share.label} className="flex justify-between">
+                  <span>{share.label}</span>
+                  <span>Rs. {share.amount.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {mode === 'items' && (
+          <div className="space-y-2 mb-4">
+            <p className="text-sm text-gray-600">Select the items this guest is paying for.</p>
+            {unpaidItems.map(item => (
+              <label key={item.id} className="flex items-center justify-between border rounded-lg p-3 cursor-pointer">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedItemIds.includes(item.id)}
+                    onChange={() => toggleItem(item.id)}
+                  />
+                  <span className="text-sm">{getItemName(item)} x{item.quantity}</span>
+                </div>
+                <span className="text-sm font-medium">Rs. {item.totalPrice.toFixed(2)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {mode === 'seat' && (
+          <div className="space-y-2 mb-4">
+            <p className="text-sm text-gray-600">Assign items to seats. Items without a seat are shared by everyone.</p>
+            {unpaidItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between border rounded-lg p-3">
+                <span className="text-sm">{getItemName(item)} x{item.quantity}</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={seats[item.id] ?? ''}
+                  placeholder="All"
+                  onChange={(e) => setSeats({ ...seats, [item.id]: parseInt(e.target.value) || undefined })}
+                  className="w-16 text-right border border-gray-300 rounded px-2 py-1 text-sm"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Payment Method
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => setMethod('cash')}
+              className={`flex items-center justify-center space-x-2 p-3 border rounded-lg ${
+                method === 'cash'
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300'
+              }`}
+            >
+              <Banknote size={20} />
+              <span>Cash</span>
+            </button>
+            <button
+              onClick={() => setMethod('card')}
+              className={`flex items-center justify-center space-x-2 p-3 border rounded-lg ${
+                method === 'card'
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300'
+              }`}
+            >
+              <CreditCard size={20} />
+              <span>Card</span>
+            </button>
+          </div>
+        </div>
+
+        {shares.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-2">
+            {mode === 'items' ? 'No items selected' : 'Give at least one item a seat number'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {shares.map(share => (
+              <div key={share.label} className="flex items-center justify-between border-t pt-2">
+                <div>
+                  <p className="font-medium">{share.label}</p>
+                  <p className="text-sm text-gray-600">Rs. {share.amount.toFixed(2)}</p>
+                </div>
+                <button
+                  onClick={() => handlePay(share)}
+                  disabled={isProcessing || share.amount <= 0}
+                  className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 disabled:opacity-50"
+                >
+                  {isProcessing ? 'Processing...' : 'Pay & Print'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SplitBillModal;
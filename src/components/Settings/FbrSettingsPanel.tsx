@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { Landmark, RefreshCw, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { getFbrSettings, getFiscalQueue, saveFbrSettings } from '../../utils/database';
+import { DEFAULT_FBR_SETTINGS, validateFbrSettings } from '../../utils/fbr';
+import { processFiscalQueue } from '../../utils/fiscalSync';
+import { FbrSettings, FiscalQueueEntry } from '../../types';
+
+const FbrSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<FbrSettings>(DEFAULT_FBR_SETTINGS);
+  const [queue, setQueue] = useState<FiscalQueueEntry[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [settingsData, queueData] = await Promise.all([
+        getFbrSettings(),
+        getFiscalQueue()
+      ]);
+      setSettings(settingsData);
+      setQueue(queueData.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()));
+    } catch (error) {
+      console.error('Error loading FBR settings:', error);
+      toast.error('Failed to load FBR settings');
+    }
+  };
+
+  const handleSave = async () => {
+    const problem = validateFbrSettings(settings);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveFbrSettings({ ...settings, endpoint: settings.endpoint.trim(), pctCode: settings.pctCode.trim() });
+      toast.success('FBR settings saved');
+    } catch (error) {
+      console.error('Error saving FBR settings:', error);
+      toast.error('Failed to save FBR settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRetry = async () => {
+    setIsSyncing(true);
+    try {
+      const { reported, failed } = await processFiscalQueue(true);
+      if (failed > 0) {
+        toast.error(`${failed} invoice${failed === 1 ? '' : 's'} could not be reported`);
+      } else {
+        toast.success(`${reported} invoice${reported === 1 ? '' : 's'} reported`);
+      }
+      await loadData();
+    } catch (error) {
+      console.error('Error syncing FBR invoices:', error);
+      toast.error('Failed to sync FBR invoices');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow border mb-6">
+      <div className="p-6 border-b flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Landmark className="text-blue-500" size={24} />
+          <h3 className="text-lg font-bold">FBR POS Integration</h3>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 disabled:opacity-50 flex items-center space-x-2"
+        >
+          <Save size={16} />
+          <span>{isSaving ? 'Saving...' : 'Save'}</span>
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+          />
+          <span className="text-sm font-medium text-gray-700">Report paid invoices to FBR</span>
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Endpoint
+            </label>
+            <input
+              type="url"
+              value={settings.endpoint}
+              onChange={(e) => setSettings({ ...settings, endpoint: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              POS ID
+            </label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={settings.posId}
+              onChange={(e) => setSettings({ ...settings, posId: e.target.value.trim() })}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              PCT Code
+            </label>
+            <input
+              type="text"
+              value={settings.pctCode}
+              onChange={(e) => setSettings({ ...settings, pctCode: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Access Token
+            </label>
+            <input
+              type="password"
+              value={settings.accessToken}
+              onChange={(e) => setSettings({ ...settings, accessToken: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+        </div>
+
+        <div className="border-t pt-4">
+          <div className="flex items-center justify-between mb-2">
+            <div>
+              <h4 className="font-medium">Pending Invoices ({queue.length})</h4>
+              <p className="text-xs text-gray-500">
+                Paid orders and refund credit notes are retried automatically until FBR issues an invoice number.
+                Invoices FBR rejected wait for Retry Now once the problem is fixed.
+              </p>
+            </div>
+            <button
+              onClick={handleRetry}
+              disabled={isSyncing || queue.length === 0}
+              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 disabled:opacity-50 flex items-center space-x-2"
+            >
+              <RefreshCw size={16} className={isSyncing ? 'animate-spin' : ''} />
+              <span>Retry Now</span>
+            </button>
+          </div>
+
+          {queue.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Order
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Attempts
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Next Attempt
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Last Error
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {queue.map(entry => (
+                    <tr key={entry.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        #{entry.orderId.slice(0, 8)}
+                        {entry.paymentId && <span className="ml-2 text-xs font-normal text-gray-500">Refund credit note</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.attempts}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {entry.rejected ? (
+                          <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full text-red-600 bg-red-100">
+                            Rejected
+                          </span>
+                        ) : format(new Date(entry.nextAttemptAt), 'dd/MM/yyyy HH:mm:ss')}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-red-600">{entry.lastError ?? '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FbrSettingsPanel;
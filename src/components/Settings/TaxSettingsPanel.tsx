@@ -0,0 +1,391 @@
+import React, { useState, useEffect } from 'react';
+import { Percent, Plus, Trash2, Save } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import toast from 'react-hot-toast';
+import { getAllCategories, getTaxSettings, saveTaxSettings, updateCategory } from '../../utils/database';
+import { DEFAULT_TAX_SETTINGS, ORDER_TYPE_LABELS } from '../../utils/pricing';
+import { Category, OrderType, TaxClass, TaxRate, TaxRule, TaxSettings, TenderMethod } from '../../types';
+
+const ORDER_TYPES = Object.keys(ORDER_TYPE_LABELS) as OrderType[];
+
+// Returns a user-facing problem with the settings, or null when they can be saved
+const validateTaxSettings = (settings: TaxSettings): string | null => {
+  if (settings.rates.some(rate => !rate.name.trim())) {
+    return 'Every tax rate needs a name';
+  }
+  if ([...settings.rates, ...settings.rules].some(rate => rate.rate < 0 || rate.rate > 100)) {
+    return 'Tax rates must be between 0% and 100%';
+  }
+  if (settings.classes.some(taxClass => !taxClass.name.trim())) {
+    return 'Every tax class needs a name';
+  }
+  if (!settings.classes.some(taxClass => taxClass.id === settings.defaultClassId)) {
+    return 'Choose a default tax class';
+  }
+  if (settings.rules.some(rule => !rule.paymentMethod && !rule.orderType)) {
+    return 'Each rule needs a payment method or order type';
+  }
+  if (settings.serviceChargeRate < 0 || settings.serviceChargeRate > 100) {
+    return 'Service charge must be between 0% and 100%';
+  }
+  return null;
+};
+
+const TaxSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [settingsData, categoriesData] = await Promise.all([
+        getTaxSettings(),
+        getAllCategories()
+      ]);
+      setSettings(settingsData);
+      setCategories(categoriesData);
+    } catch (error) {
+      console.error('Error loading tax settings:', error);
+      toast.error('Failed to load tax settings');
+    }
+  };
+
+  const updateRate = (id: string, changes: Partial<TaxRate>) => {
+    setSettings({ ...settings, rates: settings.rates.map(rate => rate.id === id ? { ...rate, ...changes } : rate) });
+  };
+
+  const removeRate = (id: string) => {
+    setSettings({
+      ...settings,
+      rates: settings.rates.filter(rate => rate.id !== id),
+      classes: settings.classes.map(taxClass => ({ ...taxClass, rateIds: taxClass.rateIds.filter(rateId => rateId !== id) })),
+      rules: settings.rules.filter(rule => rule.rateId !== id),
+    });
+  };
+
+  const updateClass = (id: string, changes: Partial<TaxClass>) => {
+    setSettings({ ...settings, classes: settings.classes.map(taxClass => taxClass.id === id ? { ...taxClass, ...changes } : taxClass) });
+  };
+
+  const toggleClassRate = (taxClass: TaxClass, rateId: string) => {
+    updateClass(taxClass.id, {
+      rateIds: taxClass.rateIds.includes(rateId)
+        ? taxClass.rateIds.filter(id => id !== rateId)
+        : [...taxClass.rateIds, rateId],
+    });
+  };
+
+  const updateRule = (id: string, changes: Partial<TaxRule>) => {
+    setSettings({ ...settings, rules: settings.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+  };
+
+  const toggleServiceOrderType = (orderType: OrderType) => {
+    const orderTypes = settings.serviceChargeOrderTypes;
+    setSettings({
+      ...settings,
+      serviceChargeOrderTypes: orderTypes.includes(orderType)
+        ? orderTypes.filter(type => type !== orderType)
+        : [...orderTypes, orderType],
+    });
+  };
+
+  const handleCategoryClass = async (category: Category, taxClassId: string) => {
+    try {
+      const updatedCategory = { ...category, taxClassId: taxClassId || undefined };
+      await updateCategory(updatedCategory);
+      setCategories(categories.map(c => c.id === category.id ? updatedCategory : c));
+      toast.success(`${category.name} tax class updated`);
+    } catch (error) {
+      console.error('Error updating category:', error);
+      toast.error('Failed to update category');
+    }
+  };
+
+  const handleSave = async () => {
+    const problem = validateTaxSettings(settings);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveTaxSettings({
+        ...settings,
+        rates: settings.rates.map(rate => ({ ...rate, name: rate.name.trim() })),
+        classes: settings.classes.map(taxClass => ({ ...taxClass, name: taxClass.name.trim() })),
+      });
+      toast.success('Tax settings saved');
+    } catch (error) {
+      console.error('Error saving tax settings:', error);
+      toast.error('Failed to save tax settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getClassName = (taxClassId?: string) => {
+    return settings.classes.find(taxClass => taxClass.id === taxClassId)?.name ?? 'Default';
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow border mb-6">
+      <div className="p-6 border-b flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Percent className="text-blue-500" size={24} />
+          <h3 className="text-lg font-bold">Tax & Service Charge</h3>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 disabled:opacity-50 flex items-center space-x-2"
+        >
+          <Save size={16} />
+          <span>{isSaving ? 'Saving...' : 'Save'}</span>
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={settings.pricesIncludeTax}
+                onChange={(e) => setSettings({ ...settings, pricesIncludeTax: e.target.checked })}
+              />
+              <span className="text-sm font-medium text-gray-700">Menu prices include tax</span>
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              When on, tax is extracted from item prices instead of added on top.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Service Charge (%)
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              value={settings.serviceChargeRate}
+              onChange={(e) => setSettings({ ...settings, serviceChargeRate: parseFloat(e.target.value) || 0 })}
+              className="w-32 p-2 border border-gray-300 rounded-lg"
+            />
+            <div className="flex flex-wrap gap-4 mt-2">
+              {ORDER_TYPES.map(orderType => (
+                <label key={orderType} className="flex items-center space-x-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={settings.serviceChargeOrderTypes.includes(orderType)}
+                    onChange={() => toggleServiceOrderType(orderType)}
+                  />
+                  <span>{ORDER_TYPE_LABELS[orderType]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Rates */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium">Tax Rates</h4>
+            <button
+              onClick={() => setSettings({ ...settings, rates: [...settings.rates, { id: uuidv4(), name: '', rate: 0 }] })}
+              className="text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1"
+            >
+              <Plus size={16} />
+              <span>Add Rate</span>
+            </button>
+          </div>
+          <div className="space-y-2">
+            {settings.rates.map(rate => (
+              <div key={rate.id} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={rate.name}
+                  placeholder="Name, e.g. GST"
+                  onChange={(e) => updateRate(rate.id, { name: e.target.value })}
+                  className="flex-1 p-2 border border-gray-300 rounded-lg"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={rate.rate}
+                  onChange={(e) => updateRate(rate.id, { rate: parseFloat(e.target.value) || 0 })}
+                  className="w-24 p-2 border border-gray-300 rounded-lg text-right"
+                />
+                <span className="text-sm text-gray-600">%</span>
+                <button onClick={() => removeRate(rate.id)} className="text-red-500 hover:text-red-700">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Classes */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium">Tax Classes</h4>
+            <button
+              onClick={() => setSettings({ ...settings, classes: [...settings.classes, { id: uuidv4(), name: '', rateIds: [] }] })}
+              className="text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1"
+            >
+              <Plus size={16} />
+              <span>Add Class</span>
+            </button>
+          </div>
+          <div className="space-y-2">
+            {settings.classes.map(taxClass => (
+              <div key={taxClass.id} className="flex flex-wrap items-center gap-3 border rounded-lg p-3">
+                <input
+                  type="text"
+                  value={taxClass.name}
+                  placeholder="Class name"
+                  onChange={(e) => updateClass(taxClass.id, { name: e.target.value })}
+                  className="w-40 p-2 border border-gray-300 rounded-lg"
+                />
+                {settings.rates.map(rate => (
+                  <label key={rate.id} className="flex items-center space-x-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={taxClass.rateIds.includes(rate.id)}
+                      onChange={() => toggleClassRate(taxClass, rate.id)}
+                    />
+                    <span>{rate.name || 'Unnamed'}</span>
+                  </label>
+                ))}
+                <label className="flex items-center space-x-1 text-sm ml-auto">
+                  <input
+                    type="radio"
+                    checked={settings.defaultClassId === taxClass.id}
+                    onChange={() => setSettings({ ...settings, defaultClassId: taxClass.id })}
+                  />
+                  <span>Default</span>
+                </label>
+                <button
+                  onClick={() => setSettings({ ...settings, classes: settings.classes.filter(c => c.id !== taxClass.id) })}
+                  disabled={settings.defaultClassId === taxClass.id}
+                  className="text-red-500 hover:text-red-700 disabled:opacity-30"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Rules */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <div>
+              <h4 className="font-medium">Rules</h4>
+              <p className="text-xs text-gray-500">Charge a different rate for a payment method or order type.</p>
+            </div>
+            <button
+              onClick={() => settings.rates.length > 0 && setSettings({
+                ...settings,
+                rules: [...settings.rules, { id: uuidv4(), rateId: settings.rates[0].id, rate: 0, paymentMethod: 'card' }],
+              })}
+              disabled={settings.rates.length === 0}
+              className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50 flex items-center space-x-1"
+            >
+              <Plus size={16} />
+              <span>Add Rule</span>
+            </button>
+          </div>
+          <div className="space-y-2">
+            {settings.rules.map(rule => (
+              <div key={rule.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <select
+                  value={rule.rateId}
+                  onChange={(e) => updateRule(rule.id, { rateId: e.target.value })}
+                  className="p-2 border border-gray-300 rounded-lg"
+                >
+                  {settings.rates.map(rate => (
+                    <option key={rate.id} value={rate.id}>{rate.name || 'Unnamed'}</option>
+                  ))}
+                </select>
+                <span>is</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={rule.rate}
+                  onChange={(e) => updateRule(rule.id, { rate: parseFloat(e.target.value) || 0 })}
+                  className="w-20 p-2 border border-gray-300 rounded-lg text-right"
+                />
+                <span>% when paid by</span>
+                <select
+                  value={rule.paymentMethod ?? ''}
+                  onChange={(e) => updateRule(rule.id, { paymentMethod: (e.target.value || undefined) as TenderMethod | undefined })}
+                  className="p-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="">Any method</option>
+                  <option value="cash">Cash</option>
+                  <option value="card">Card</option>
+                </select>
+                <span>for</span>
+                <select
+                  value={rule.orderType ?? ''}
+                  onChange={(e) => updateRule(rule.id, { orderType: (e.target.value || undefined) as OrderType | undefined })}
+                  className="p-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="">Any order type</option>
+                  {ORDER_TYPES.map(orderType => (
+                    <option key={orderType} value={orderType}>{ORDER_TYPE_LABELS[orderType]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setSettings({ ...settings, rules: settings.rules.filter(r => r.id !== rule.id) })}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Category classes */}
+        {categories.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-2">Category Tax Classes</h4>
+            <p className="text-xs text-gray-500 mb-2">
+              Applied to the category's items unless an item has its own class in Menu Management.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {categories.map(category => (
+                <div key={category.id} className="flex items-center justify-between border rounded-lg p-2">
+                  <span className="text-sm">{category.name}</span>
+                  <select
+                    value={category.taxClassId ?? ''}
+                    onChange={(e) => handleCategoryClass(category, e.target.value)}
+                    className="p-1 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="">Default ({getClassName(settings.defaultClassId)})</option>
+                    {settings.classes.map(taxClass => (
+                      <option key={taxClass.id} value={taxClass.id}>{taxClass.name || 'Unnamed'}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaxSettingsPanel;
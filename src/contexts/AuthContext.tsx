@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import bcrypt from 'bcryptjs';
 import { User, AuthContextType } from '../types';
-import { getUserByEmail } from '../utils/database';
+import { getUserByEmail, setAuditActor } from '../utils/database';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -29,6 +29,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     if (token && userData) {
       try {
         const parsedUser = JSON.parse(userData);
+        setAuditActor(parsedUser);
         setUser(parsedUser);
         setIsAuthenticated(true);
       } catch (error) {
@@ -59,6 +60,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       localStorage.setItem('auth_token', token);
       localStorage.setItem('user_data', JSON.stringify(foundUser));
       
+      setAuditActor(foundUser);
       setUser(foundUser);
       setIsAuthenticated(true);
       
@@ -72,6 +74,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const logout = () => {
     localStorage.removeItem('auth_token');
     localStorage.removeItem('user_data');
+    setAuditActor(null);
     setUser(null);
     setIsAuthenticated(false);
   };
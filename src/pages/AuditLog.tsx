@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { ScrollText, ChevronDown, ChevronRight } from 'lucide-react';
+import { format, parseISO, startOfDay, endOfDay, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { getAuditLogBetween, getAllUsers } from '../utils/database';
+import { ENTITY_LABELS, SYSTEM_ACTOR } from '../utils/audit';
+import { AuditEntityType, AuditLogEntry, User } from '../types';
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  if (value instanceof Date) return format(value, 'dd/MM/yyyy HH:mm:ss');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const getActionColor = (action: AuditLogEntry['action']) => {
+  switch (action) {
+    case 'create':
+      return 'bg-green-100 text-green-800';
+    case 'update':
+      return 'bg-blue-100 text-blue-800';
+    case 'delete':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-purple-100 text-purple-800';
+  }
+};
+
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [actorFilter, setActorFilter] = useState('');
+  const [entityFilter, setEntityFilter] = useState<AuditEntityType | ''>('');
+  const [fromDate, setFromDate] = useState(format(subDays(new Date(), 7), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadEntries(fromDate, toDate);
+  }, [fromDate, toDate]);
+
+  const loadEntries = async (from: string, to: string) => {
+    try {
+      const [entriesData, usersData] = await Promise.all([
+        getAuditLogBetween(startOfDay(parseISO(from)), endOfDay(parseISO(to))),
+        getAllUsers()
+      ]);
+
+      // Newest first
+      entriesData.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+      setEntries(entriesData);
+      setUsers(usersData);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast.error('Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredEntries = entries.filter(entry =>
+    (!actorFilter || entry.actorId === actorFilter) &&
+    (!entityFilter || entry.entityType === entityFilter)
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <ScrollText className="text-blue-500" size={28} />
+        <h1 className="text-2xl font-bold">Audit Log</h1>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg shadow border mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+          <select
+            value={actorFilter}
+            onChange={(e) => setActorFilter(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg"
+          >
+            <option value="">All users</option>
+            <option value={SYSTEM_ACTOR.id}>{SYSTEM_ACTOR.name}</option>
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+          <select
+            value={entityFilter}
+            onChange={(e) => setEntityFilter(e.target.value as AuditEntityType | '')}
+            className="w-full p-2 border border-gray-300 rounded-lg"
+          >
+            <option value="">All entities</option>
+            {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate}
+            onChange={(e) => e.target.value && setFromDate(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate}
+            onChange={(e) => e.target.value && setToDate(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Entity
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Changes
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredEntries.map(entry => {
+                const isExpanded = expandedId === entry.id;
+                const changedFields = Object.keys(entry.changes);
+
+                return (
+                  <React.Fragment key={entry.id}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(new Date(entry.timestamp), 'dd/MM/yyyy HH:mm:ss')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {entry.actorName}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getActionColor(entry.action)}`}>
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {ENTITY_LABELS[entry.entityType]} <span className="text-gray-500">#{entry.entityId.slice(0, 8)}</span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        <div className="flex items-center space-x-1">
+                          {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                          <span>{changedFields.length} field{changedFields.length === 1 ? '' : 's'}: {changedFields.slice(0, 3).join(', ')}{changedFields.length > 3 ? '…' : ''}</span>
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={5} className="px-6 py-4">
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-500">
+                                <th className="py-1 pr-4 font-medium">Field</th>
+                                <th className="py-1 pr-4 font-medium">Before</th>
+                                <th className="py-1 font-medium">After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {Object.entries(entry.changes).map(([field, change]) => (
+                                <tr key={field} className="align-top">
+                                  <td className="py-1 pr-4 font-medium text-gray-900">{field}</td>
+                                  <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                                  <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {filteredEntries.length === 0 && (
+        <div className="text-center py-16">
+          <ScrollText size={64} className="text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-medium text-gray-900 mb-2">No audit entries</h3>
+          <p className="text-gray-600">No changes match the current filters.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { DatabaseBackup, Download, Upload, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { RestoreMode } from '../utils/database';
+import {
+  BackupFile,
+  RestorePreview,
+  createBackup,
+  getBackupFileName,
+  previewRestore,
+  readBackup,
+  restoreBackup,
+} from '../utils/backup';
+
+const STORE_LABELS: Record<string, string> = {
+  users: 'Users',
+  categories: 'Categories',
+  menuItems: 'Menu Items',
+  tables: 'Tables',
+  orders: 'Orders',
+  orderItems: 'Order Items',
+  payments: 'Payments',
+  settings: 'Settings',
+  promotions: 'Promotions',
+};
+
+const Backup: React.FC = () => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await createBackup();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBackupFileName();
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('Backup downloaded');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      toast.error('Failed to export backup');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const loadPreview = async (file: BackupFile, restoreMode: RestoreMode) => {
+    try {
+      setPreview(await previewRestore(file, restoreMode));
+    } catch (error) {
+      console.error('Error previewing backup:', error);
+      toast.error('Failed to preview backup');
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = await readBackup(await file.text());
+      setBackup(parsed);
+      setFileName(file.name);
+      await loadPreview(parsed, mode);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read backup');
+      setBackup(null);
+      setPreview(null);
+    }
+  };
+
+  const handleModeChange = (restoreMode: RestoreMode) => {
+    setMode(restoreMode);
+    if (backup) {
+      loadPreview(backup, restoreMode);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    const message = mode === 'replace'
+      ? 'Replace ALL data on this terminal with the backup? Records not in the backup will be deleted.'
+      : 'Merge the backup into this terminal? Records with the same ID will be overwritten.';
+    if (!window.confirm(message)) return;
+
+    setIsRestoring(true);
+    try {
+      await restoreBackup(backup, mode);
+      toast.success('Backup restored successfully');
+      setBackup(null);
+      setPreview(null);
+      setFileName('');
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error('Failed to restore backup. No data was changed.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <DatabaseBackup className="text-blue-500" size={28} />
+        <h1 className="text-2xl font-bold">Backup & Restore</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {/* Export */}
+        <div className="bg-white p-6 rounded-lg shadow border">
+          <h3 className="text-lg font-bold mb-2">Export Backup</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Download every user, category, menu item, table, order, order item and payment on this terminal as a JSON file.
+          </p>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 disabled:opacity-50 flex items-center space-x-2"
+          >
+            <Download size={20} />
+            <span>{isExporting ? 'Exporting...' : 'Download Backup'}</span>
+          </button>
+        </div>
+
+        {/* Import */}
+        <div className="bg-white p-6 rounded-lg shadow border">
+          <h3 className="text-lg font-bold mb-2">Restore Backup</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Choose a backup file to preview what will change before anything is written.
+          </p>
+          <label className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 inline-flex items-center space-x-2 cursor-pointer">
+            <Upload size={20} />
+            <span>Choose Backup File</span>
+            <input type="file" accept="application/json,.json" onChange={handleFileSelected} className="hidden" />
+          </label>
+          {fileName && <p className="text-sm text-gray-600 mt-2">{fileName}</p>}
+        </div>
+      </div>
+
+      {backup && preview && (
+        <div className="bg-white rounded-lg shadow border">
+          <div className="p-6 border-b">
+            <h3 className="text-lg font-bold">Restore Preview</h3>
+            <p className="text-sm text-gray-600">
+              Exported {format(preview.exportedAt, 'dd/MM/yyyy HH:mm')} from database v{preview.dbVersion}
+            </p>
+
+            <div className="flex space-x-2 mt-4">
+              <button
+                onClick={() => handleModeChange('merge')}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  mode === 'merge'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => handleModeChange('replace')}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  mode === 'replace'
+                    ? 'bg-red-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Replace
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Store
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    In Backup
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    On Terminal
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    New
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Overwritten
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Deleted
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {preview.rows.map(row => (
+                  <tr key={row.store} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {STORE_LABELS[row.store] ?? row.store}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.incoming}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.existing}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-green-600">{row.added}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-yellow-600">{row.overwritten}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600">{row.removed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="p-6 border-t flex items-center justify-between">
+            {mode === 'replace' ? (
+              <div className="flex items-center space-x-2 text-red-600 text-sm">
+                <AlertTriangle size={16} />
+                <span>Replace deletes records on this terminal that are not in the backup.</span>
+              </div>
+            ) : (
+              <span className="text-sm text-gray-600">Merge keeps existing records and overwrites matching IDs.</span>
+            )}
+            <div className="flex space-x-2">
+              <button
+                onClick={() => {
+                  setBackup(null);
+                  setPreview(null);
+                  setFileName('');
+                }}
+                className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRestore}
+                disabled={isRestoring}
+                className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 disabled:opacity-50"
+              >
+                {isRestoring ? 'Restoring...' : 'Restore'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Backup;
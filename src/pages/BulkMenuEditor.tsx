@@ -0,0 +1,587 @@
+import React, { useState, useEffect } from 'react';
+import { FileSpreadsheet, Save, CalendarClock, X } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  getAllMenuItems,
+  getAllCategories,
+  getAllPriceChanges,
+  applyMenuItemEdits,
+  createPriceChange,
+  cancelPriceChange,
+} from '../utils/database';
+import {
+  PriceAdjustmentType,
+  ROUNDING_LABELS,
+  RoundingRule,
+  adjustItemPrices,
+  describeEdit,
+  getMenuItemEdits,
+  setItemStock,
+  validateMenuItemEdits,
+} from '../utils/bulkEdit';
+import { isBundle } from '../utils/bundles';
+import { setBasePrice, adjustStock, getStockOf, getBasePrice, hasVariants } from '../utils/variants';
+import { getRecipe } from '../utils/recipes';
+import { useAuth } from '../contexts/AuthContext';
+import { Category, MenuItem, PriceChangeStatus, ScheduledPriceChange } from '../types';
+
+const STATUS_COLORS: Record<PriceChangeStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  applied: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const BulkMenuEditor: React.FC = () => {
+  const { user } = useAuth();
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [priceChanges, setPriceChanges] = useState<ScheduledPriceChange[]>([]);
+  // Edited copies of items, keyed by item id; saved or scheduled together
+  const [drafts, setDrafts] = useState<Record<string, MenuItem>>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [adjustmentType, setAdjustmentType] = useState<PriceAdjustmentType>('percentage');
+  const [adjustmentValue, setAdjustmentValue] = useState(0);
+  const [rounding, setRounding] = useState<RoundingRule>('nearest-5');
+  const [targetCategoryId, setTargetCategoryId] = useState('');
+  const [stockValue, setStockValue] = useState(0);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [scheduleName, setScheduleName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [menuData, categoriesData, priceChangesData] = await Promise.all([
+        getAllMenuItems(),
+        getAllCategories(),
+        getAllPriceChanges()
+      ]);
+      setMenuItems(menuData);
+      setCategories(categoriesData);
+      setPriceChanges(priceChangesData);
+    } catch (error) {
+      console.error('Error loading menu data:', error);
+      toast.error('Failed to load menu data');
+    }
+  };
+
+  const getDraft = (item: MenuItem): MenuItem => drafts[item.id] ?? item;
+
+  const updateDraft = (item: MenuItem, updated: MenuItem) => {
+    setDrafts({ ...drafts, [item.id]: updated });
+  };
+
+  const updateSelected = (transform: (item: MenuItem) => MenuItem) => {
+    const updatedDrafts = { ...drafts };
+    menuItems
+      .filter(item => selectedIds.includes(item.id))
+      .forEach(item => {
+        updatedDrafts[item.id] = transform(getDraft(item));
+      });
+    setDrafts(updatedDrafts);
+  };
+
+  const visibleItems = menuItems.filter(item =>
+    (!categoryFilter || getDraft(item).categoryId === categoryFilter) &&
+    item.name.toLowerCase().includes(search.trim().toLowerCase())
+  );
+  const allVisibleSelected = visibleItems.length > 0 && visibleItems.every(item => selectedIds.includes(item.id));
+
+  const edits = menuItems.flatMap(item => drafts[item.id] ? getMenuItemEdits(item, drafts[item.id]) : []);
+  const onlyPrices = edits.every(edit => edit.price !== undefined);
+
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds(selectedIds.includes(itemId)
+      ? selectedIds.filter(id => id !== itemId)
+      : [...selectedIds, itemId]);
+  };
+
+  const toggleAllVisible = () => {
+    const visibleIds = visibleItems.map(item => item.id);
+    setSelectedIds(allVisibleSelected
+      ? selectedIds.filter(id => !visibleIds.includes(id))
+      : [...new Set([...selectedIds, ...visibleIds])]);
+  };
+
+  const handleAdjustPrices = () => {
+    if (adjustmentValue === 0 && rounding === 'none') {
+      toast.error('Enter a price change');
+      return;
+    }
+    updateSelected(item => adjustItemPrices(item, adjustmentType, adjustmentValue, rounding));
+  };
+
+  const handleMoveCategory = () => {
+    if (!targetCategoryId) {
+      toast.error('Choose a category to move the items to');
+      return;
+    }
+    updateSelected(item => ({ ...item, categoryId: targetCategoryId }));
+  };
+
+  const handleSetStock = () => {
+    if (stockValue < 0 || !Number.isInteger(stockValue)) {
+      toast.error('Stock must be a whole number, 0 or more');
+      return;
+    }
+    updateSelected(item => setItemStock(item, stockValue));
+  };
+
+  const discardChanges = () => {
+    setDrafts({});
+    setScheduleAt('');
+    setScheduleName('');
+  };
+
+  const handleSaveNow = async () => {
+    const problem = validateMenuItemEdits(edits, menuItems);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await applyMenuItemEdits(edits);
+      toast.success(`Saved ${edits.length} changes`);
+      discardChanges();
+      loadData();
+    } catch (error) {
+      console.error('Error saving menu changes:', error);
+      toast.error('Failed to save menu changes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSchedule = async () => {
+    const problem = validateMenuItemEdits(edits, menuItems);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    if (!onlyPrices) {
+      toast.error('Only price changes can be scheduled. Save category and stock changes now, then schedule the prices.');
+      return;
+    }
+    const effectiveAt = new Date(scheduleAt);
+    if (!scheduleAt || Number.isNaN(effectiveAt.getTime()) || effectiveAt <= new Date()) {
+      toast.error('Choose a date and time in the future');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createPriceChange({
+        id: uuidv4(),
+        name: scheduleName.trim() || `Price change from ${format(effectiveAt, 'dd/MM/yyyy HH:mm')}`,
+        effectiveAt,
+        edits,
+        status: 'pending',
+        createdBy: user?.id ?? '',
+        createdAt: new Date()
+      });
+      toast.success(`Scheduled ${edits.length} price changes for ${format(effectiveAt, 'dd/MM/yyyy HH:mm')}`);
+      discardChanges();
+      loadData();
+    } catch (error) {
+      console.error('Error scheduling price change:', error);
+      toast.error('Failed to schedule price change');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelPriceChange = async (change: ScheduledPriceChange) => {
+    if (!window.confirm(`Cancel "${change.name}"? Its prices will not be applied.`)) return;
+
+    try {
+      await cancelPriceChange(change.id);
+      toast.success('Price change cancelled');
+      loadData();
+    } catch (error) {
+      console.error('Error cancelling price change:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel price change');
+    }
+  };
+
+  const changedClass = (changed: boolean) => changed ? 'border-yellow-400 bg-yellow-50' : 'border-gray-300';
+
+  // A price or stock cell for the item, or for one of its sizes
+  const renderNumberInput = (
+    item: MenuItem,
+    variantId: string | undefined,
+    field: 'price' | 'stock'
+  ) => {
+    // Stock of dishes made from a recipe comes from their ingredients
+    if (field === 'stock' && getRecipe(item, variantId).length > 0) {
+      return <span className="text-xs text-gray-500">From recipe</span>;
+    }
+    const draft = getDraft(item);
+    const value = field === 'price' ? getBasePrice(draft, variantId) : getStockOf(draft, variantId);
+    const original = field === 'price' ? getBasePrice(item, variantId) : getStockOf(item, variantId);
+    return (
+      <input
+        type="number"
+        value={value}
+        min="0"
+        onChange={(e) => {
+          const number = parseFloat(e.target.value) || 0;
+          updateDraft(item, field === 'price'
+            ? setBasePrice(draft, variantId, number)
+            : adjustStock(draft, variantId, number - getStockOf(draft, variantId)));
+        }}
+        className={`w-24 px-2 py-1 border rounded text-sm ${changedClass(value !== original)}`}
+      />
+    );
+  };
+
+  const sortedPriceChanges = [...priceChanges].sort((a, b) =>
+    new Date(b.effectiveAt).getTime() - new Date(a.effectiveAt).getTime()
+  );
+
+  return (
+    <div className="p-6">
+      <h1 className="text-2xl font-bold mb-6">Bulk Menu Editor</h1>
+
+      {/* Bulk actions */}
+      <div className="bg-white p-6 rounded-lg shadow border mb-6">
+        <p className="text-sm text-gray-600 mb-4">
+          {selectedIds.length} items selected. Changes stay in the table until you save or schedule them.
+        </p>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div>
+            <h3 className="font-medium mb-2">Change prices</h3>
+            <div className="flex space-x-2 mb-2">
+              <select
+                value={adjustmentType}
+                onChange={(e) => setAdjustmentType(e.target.value as PriceAdjustmentType)}
+                className="p-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="percentage">By %</option>
+                <option value="fixed">By Rs.</option>
+              </select>
+              <input
+                type="number"
+                value={adjustmentValue}
+                onChange={(e) => setAdjustmentValue(parseFloat(e.target.value) || 0)}
+                className="w-24 p-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <select
+                value={rounding}
+                onChange={(e) => setRounding(e.target.value as RoundingRule)}
+                className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {(Object.keys(ROUNDING_LABELS) as RoundingRule[]).map(rule => (
+                  <option key={rule} value={rule}>{ROUNDING_LABELS[rule]}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={handleAdjustPrices}
+              disabled={selectedIds.length === 0}
+              className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 text-sm disabled:opacity-50"
+            >
+              Apply to Selected
+            </button>
+          </div>
+
+          <div>
+            <h3 className="font-medium mb-2">Move to category</h3>
+            <select
+              value={targetCategoryId}
+              onChange={(e) => setTargetCategoryId(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg text-sm mb-2"
+            >
+              <option value="">Choose category</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleMoveCategory}
+              disabled={selectedIds.length === 0}
+              className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 text-sm disabled:opacity-50"
+            >
+              Move Selected
+            </button>
+          </div>
+
+          <div>
+            <h3 className="font-medium mb-2">Set stock</h3>
+            <input
+              type="number"
+              value={stockValue}
+              min="0"
+              onChange={(e) => setStockValue(parseInt(e.target.value) || 0)}
+              className="w-full p-2 border border-gray-300 rounded-lg text-sm mb-2"
+            />
+            <button
+              onClick={handleSetStock}
+              disabled={selectedIds.length === 0}
+              className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 text-sm disabled:opacity-50"
+            >
+              Set for Selected
+            </button>
+            <p className="text-xs text-gray-500 mt-1">Sized items get this stock for every size; deals and dishes made from a recipe are skipped.</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex space-x-2 mb-4">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search items..."
+          className="flex-1 p-2 border border-gray-300 rounded-lg"
+        />
+        <select
+          value={categoryFilter}
+          onChange={(e) => setCategoryFilter(e.target.value)}
+          className="p-2 border border-gray-300 rounded-lg"
+        >
+          <option value="">All categories</option>
+          {categories.map(category => (
+            <option key={category.id} value={category.id}>{category.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Spreadsheet */}
+      <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left">
+                  <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} />
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Item
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Price
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Stock
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleItems.map(item => {
+                const draft = getDraft(item);
+                const sizes = hasVariants(draft) ? draft.variants! : [];
+                return (
+                  <tr key={item.id} className={selectedIds.includes(item.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                    <td className="px-4 py-3 align-top">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(item.id)}
+                        onChange={() => toggleSelected(item.id)}
+                      />
+                    </td>
+                    <td className="px-4 py-3 align-top text-sm font-medium text-gray-900">
+                      {item.name}
+                      {isBundle(item) && (
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">Deal</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 align-top">
+                      <select
+                        value={draft.categoryId}
+                        onChange={(e) => updateDraft(item, { ...draft, categoryId: e.target.value })}
+                        className={`px-2 py-1 border rounded text-sm ${changedClass(draft.categoryId !== item.categoryId)}`}
+                      >
+                        {categories.map(category => (
+                          <option key={category.id} value={category.id}>{category.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 align-top">
+                      {sizes.length > 0 ? (
+                        <div className="space-y-1">
+                          {sizes.map(variant => (
+                            <div key={variant.id} className="flex items-center space-x-2">
+                              <span className="w-16 text-xs text-gray-600">{variant.name}</span>
+                              {renderNumberInput(item, variant.id, 'price')}
+                            </div>
+                          ))}
+                        </div>
+                      ) : renderNumberInput(item, undefined, 'price')}
+                    </td>
+                    <td className="px-4 py-3 align-top">
+                      {isBundle(item) ? (
+                        <span className="text-xs text-gray-500">From its items</span>
+                      ) : sizes.length > 0 ? (
+                        <div className="space-y-1">
+                          {sizes.map(variant => (
+                            <div key={variant.id} className="flex items-center space-x-2">
+                              <span className="w-16 text-xs text-gray-600">{variant.name}</span>
+                              {renderNumberInput(item, variant.id, 'stock')}
+                            </div>
+                          ))}
+                        </div>
+                      ) : renderNumberInput(item, undefined, 'stock')}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {visibleItems.length === 0 && (
+          <div className="text-center py-16">
+            <FileSpreadsheet size={64} className="text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-medium text-gray-900 mb-2">No items found</h3>
+            <p className="text-gray-600">No items match the current filter.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Preview */}
+      {edits.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow border mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-bold">Review {edits.length} Changes</h3>
+            <button
+              onClick={discardChanges}
+              className="text-gray-500 hover:text-gray-700 flex items-center space-x-1 text-sm"
+            >
+              <X size={16} />
+              <span>Discard</span>
+            </button>
+          </div>
+          <div className="max-h-80 overflow-y-auto border rounded-lg mb-4">
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {edits.map(edit => {
+                  const preview = describeEdit(edit, menuItems.find(item => item.id === edit.menuItemId)!, categories);
+                  return (
+                    <tr key={preview.key}>
+                      <td className="px-4 py-2 text-sm">{preview.name}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600">{preview.field}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500 line-through">{preview.before}</td>
+                      <td className="px-4 py-2 text-sm font-medium">{preview.after}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <button
+              onClick={handleSaveNow}
+              disabled={isSaving}
+              className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Save size={20} />
+              <span>Save Now</span>
+            </button>
+            <div className="flex items-end space-x-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={scheduleName}
+                  onChange={(e) => setScheduleName(e.target.value)}
+                  placeholder="e.g. Chicken price rise"
+                  className="p-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Takes effect</label>
+                <input
+                  type="datetime-local"
+                  value={scheduleAt}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                  className="p-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <button
+                onClick={handleSchedule}
+                disabled={isSaving || !onlyPrices}
+                className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 flex items-center space-x-2 disabled:opacity-50"
+              >
+                <CalendarClock size={20} />
+                <span>Schedule Prices</span>
+              </button>
+            </div>
+          </div>
+          {!onlyPrices && (
+            <p className="text-xs text-gray-500 mt-2">
+              Only price changes can be scheduled; category and stock changes are saved straight away.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Scheduled price changes */}
+      <div className="bg-white p-6 rounded-lg shadow border">
+        <h3 className="text-lg font-bold mb-4">Scheduled Price Changes</h3>
+        {sortedPriceChanges.length === 0 ? (
+          <p className="text-sm text-gray-600">No price changes have been scheduled.</p>
+        ) : (
+          <table className="min-w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Takes Effect</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prices</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortedPriceChanges.map(change => (
+                <tr key={change.id}>
+                  <td className="px-4 py-2 text-sm font-medium">{change.name}</td>
+                  <td className="px-4 py-2 text-sm">{format(new Date(change.effectiveAt), 'dd/MM/yyyy HH:mm')}</td>
+                  <td className="px-4 py-2 text-sm">{change.edits.length}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <span className={`px-2 py-1 rounded-full text-xs capitalize ${STATUS_COLORS[change.status]}`}>
+                      {change.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {change.status === 'pending' && (
+                      <button
+                        onClick={() => handleCancelPriceChange(change)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BulkMenuEditor;
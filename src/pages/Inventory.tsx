@@ -1,12 +1,47 @@
 import React, { useState, useEffect } from 'react';
-import { AlertTriangle, TrendingDown, Package, Edit } from 'lucide-react';
+import { AlertTriangle, TrendingDown, Package, Edit, ChefHat } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { getAllMenuItems, getAllCategories, updateMenuItem } from '../utils/database';
-import { MenuItem, Category } from '../types';
+import { getAllMenuItems, getAllCategories, getAllIngredients, updateMenuItem } from '../utils/database';
+import { isBundle } from '../utils/bundles';
+import { getRecipe, isLowOnIngredient, withRecipeStock } from '../utils/recipes';
+import { adjustStock, formatItemName, hasVariants } from '../utils/variants';
+import IngredientsPanel from '../components/Inventory/IngredientsPanel';
+import RecipeModal from '../components/Inventory/RecipeModal';
+import { MenuItem, Category, Ingredient } from '../types';
+
+// One row per thing that is counted: an item, or each size of a sized item
+interface StockRow {
+  key: string;
+  item: MenuItem;
+  variantId?: string;
+  name: string;
+  price: number;
+  stock: number;
+  // Made from a recipe, so `stock` is how many its ingredients can make
+  fromRecipe: boolean;
+}
+
+const getStockRows = (menuItems: MenuItem[]): StockRow[] => {
+  return menuItems.flatMap(item => hasVariants(item)
+    ? item.variants!.map(variant => ({
+        key: `${item.id}:${variant.id}`,
+        item,
+        variantId: variant.id,
+        name: formatItemName(item.name, variant.name),
+        price: variant.price,
+        stock: variant.stock,
+        fromRecipe: getRecipe(item, variant.id).length > 0,
+      }))
+    : [{ key: item.id, item, name: item.name, price: item.price, stock: item.stock, fromRecipe: getRecipe(item).length > 0 }]
+  );
+};
 
 const Inventory: React.FC = () => {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [view, setView] = useState<'dishes' | 'ingredients'>('dishes');
+  const [recipeItem, setRecipeItem] = useState<MenuItem | null>(null);
   const [filter, setFilter] = useState<'all' | 'low-stock' | 'out-of-stock'>('all');
   const [editingStock, setEditingStock] = useState<{ [key: string]: number }>({});
 
@@ -16,36 +51,35 @@ const Inventory: React.FC = () => {
 
   const loadData = async () => {
     try {
-      const [menuData, categoriesData] = await Promise.all([
+      const [menuData, categoriesData, ingredientsData] = await Promise.all([
         getAllMenuItems(),
-        getAllCategories()
+        getAllCategories(),
+        getAllIngredients()
       ]);
       
-      setMenuItems(menuData);
+      // Deals have no stock of their own; their components are counted instead
+      setMenuItems(menuData.filter(item => !isBundle(item)));
       setCategories(categoriesData);
+      setIngredients(ingredientsData);
     } catch (error) {
       console.error('Error loading inventory data:', error);
       toast.error('Failed to load inventory data');
     }
   };
 
-  const updateStock = async (itemId: string, newStock: number) => {
-    try {
-      const item = menuItems.find(item => item.id === itemId);
-      if (!item) return;
-
-      const updatedItem = {
-        ...item,
-        stock: newStock
-      };
+  const updateStock = async (row: StockRow, newStock: number) => {
+    // The row's item has recipe-made sizes' stock filled in; save the stored record
+    const item = menuItems.find(menuItem => menuItem.id === row.item.id);
+    if (!item) return;
 
-      await updateMenuItem(updatedItem);
+    try {
+      await updateMenuItem(adjustStock(item, row.variantId, newStock - row.stock));
       toast.success('Stock updated successfully');
       loadData();
       
       // Clear editing state
       const newEditingStock = { ...editingStock };
-      delete newEditingStock[itemId];
+      delete newEditingStock[row.key];
       setEditingStock(newEditingStock);
     } catch (error) {
       console.error('Error updating stock:', error);
@@ -53,7 +87,10 @@ const Inventory: React.FC = () => {
     }
   };
 
-  const filteredItems = menuItems.filter(item => {
+  const stockRows = getStockRows(withRecipeStock(menuItems, ingredients));
+  const lowIngredients = ingredients.filter(isLowOnIngredient);
+
+  const filteredItems = stockRows.filter(item => {
     switch (filter) {
       case 'low-stock':
         return item.stock > 0 && item.stock <= 10;
@@ -64,9 +101,9 @@ const Inventory: React.FC = () => {
     }
   });
 
-  const lowStockItems = menuItems.filter(item => item.stock > 0 && item.stock <= 10);
-  const outOfStockItems = menuItems.filter(item => item.stock === 0);
-  const totalValue = menuItems.reduce((total, item) => total + (item.price * item.stock), 0);
+  const lowStockItems = stockRows.filter(item => item.stock > 0 && item.stock <= 10);
+  const outOfStockItems = stockRows.filter(item => item.stock === 0);
+  const totalValue = stockRows.reduce((total, item) => total + (item.price * item.stock), 0);
 
   const getStockStatus = (stock: number) => {
     if (stock === 0) return { status: 'Out of Stock', color: 'text-red-600 bg-red-100' };
@@ -77,7 +114,27 @@ const Inventory: React.FC = () => {
 
   return (
     <div className="p-6">
-      <h1 className="text-2xl font-bold mb-6">Inventory Management</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Inventory Management</h1>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setView('dishes')}
+            className={`px-4 py-2 rounded-lg transition-colors ${
+              view === 'dishes' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            Dishes
+          </button>
+          <button
+            onClick={() => setView('ingredients')}
+            className={`px-4 py-2 rounded-lg transition-colors ${
+              view === 'ingredients' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            Ingredients ({ingredients.length})
+          </button>
+        </div>
+      </div>
 
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
@@ -85,7 +142,7 @@ const Inventory: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600">Total Items</p>
-              <p className="text-2xl font-bold">{menuItems.length}</p>
+              <p className="text-2xl font-bold">{stockRows.length}</p>
             </div>
             <Package className="text-blue-500" size={32} />
           </div>
@@ -123,7 +180,7 @@ const Inventory: React.FC = () => {
       </div>
 
       {/* Alerts */}
-      {(lowStockItems.length > 0 || outOfStockItems.length > 0) && (
+      {(lowStockItems.length > 0 || outOfStockItems.length > 0 || lowIngredients.length > 0) && (
         <div className="bg-red-50 border border-red-200 p-4 rounded-lg mb-6">
           <div className="flex items-center space-x-2 text-red-800">
             <AlertTriangle size={20} />
@@ -136,163 +193,193 @@ const Inventory: React.FC = () => {
             {lowStockItems.length > 0 && (
               <p>{lowStockItems.length} items are running low</p>
             )}
+            {lowIngredients.length > 0 && (
+              <p>Low on {lowIngredients.map(ingredient => ingredient.name).join(', ')}</p>
+            )}
           </div>
         </div>
       )}
 
-      {/* Filters */}
-      <div className="flex space-x-2 mb-6">
-        <button
-          onClick={() => setFilter('all')}
-          className={`px-4 py-2 rounded-lg transition-colors ${
-            filter === 'all'
-              ? 'bg-blue-500 text-white'
-              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-          }`}
-        >
-          All Items ({menuItems.length})
-        </button>
-        <button
-          onClick={() => setFilter('low-stock')}
-          className={`px-4 py-2 rounded-lg transition-colors ${
-            filter === 'low-stock'
-              ? 'bg-blue-500 text-white'
-              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-          }`}
-        >
-          Low Stock ({lowStockItems.length})
-        </button>
-        <button
-          onClick={() => setFilter('out-of-stock')}
-          className={`px-4 py-2 rounded-lg transition-colors ${
-            filter === 'out-of-stock'
-              ? 'bg-blue-500 text-white'
-              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-          }`}
-        >
-          Out of Stock ({outOfStockItems.length})
-        </button>
-      </div>
-
-      {/* Inventory Table */}
-      <div className="bg-white rounded-lg shadow overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="min-w-full">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Item
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Category
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Price
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Stock
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Status
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Value
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {filteredItems.map(item => {
-                const category = categories.find(c => c.id === item.categoryId);
-                const stockStatus = getStockStatus(item.stock);
-                const isEditing = editingStock.hasOwnProperty(item.id);
+      {view === 'ingredients' ? (
+        <IngredientsPanel ingredients={ingredients} menuItems={menuItems} onChanged={loadData} />
+      ) : (
+        <>
+          {/* Filters */}
+          <div className="flex space-x-2 mb-6">
+            <button
+              onClick={() => setFilter('all')}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                filter === 'all'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              All Items ({stockRows.length})
+            </button>
+            <button
+              onClick={() => setFilter('low-stock')}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                filter === 'low-stock'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              Low Stock ({lowStockItems.length})
+            </button>
+            <button
+              onClick={() => setFilter('out-of-stock')}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                filter === 'out-of-stock'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              Out of Stock ({outOfStockItems.length})
+            </button>
+          </div>
 
-                return (
-                  <tr key={item.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">{item.name}</div>
-                        <div className="text-sm text-gray-500">{item.description}</div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {category?.name}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      Rs. {item.price}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      {isEditing ? (
-                        <div className="flex items-center space-x-2">
-                          <input
-                            type="number"
-                            value={editingStock[item.id]}
-                            onChange={(e) => setEditingStock({
-                              ...editingStock,
-                              [item.id]: parseInt(e.target.value) || 0
-                            })}
-                            className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
-                            min="0"
-                          />
-                          <button
-                            onClick={() => updateStock(item.id, editingStock[item.id])}
-                            className="bg-green-500 text-white px-2 py-1 rounded text-xs hover:bg-green-600"
-                          >
-                            Save
-                          </button>
-                          <button
-                            onClick={() => {
-                              const newEditingStock = { ...editingStock };
-                              delete newEditingStock[item.id];
-                              setEditingStock(newEditingStock);
-                            }}
-                            className="bg-gray-500 text-white px-2 py-1 rounded text-xs hover:bg-gray-600"
-                          >
-                            Cancel
-                          </button>
-                        </div>
-                      ) : (
-                        <span className="text-sm font-medium">{item.stock}</span>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${stockStatus.color}`}>
-                        {stockStatus.status}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      Rs. {(item.price * item.stock).toLocaleString()}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {!isEditing && (
-                        <button
-                          onClick={() => setEditingStock({
-                            ...editingStock,
-                            [item.id]: item.stock
-                          })}
-                          className="text-blue-600 hover:text-blue-900 flex items-center space-x-1"
-                        >
-                          <Edit size={16} />
-                          <span>Edit Stock</span>
-                        </button>
-                      )}
-                    </td>
+          {/* Inventory Table */}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Item
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Category
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Price
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Stock
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Value
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
                   </tr>
-                );
-              })}
-            </tbody>
-          </table>
-        </div>
-      </div>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredItems.map(item => {
+                    const category = categories.find(c => c.id === item.item.categoryId);
+                    const stockStatus = getStockStatus(item.stock);
+                    const isEditing = editingStock.hasOwnProperty(item.key);
 
-      {filteredItems.length === 0 && (
-        <div className="text-center py-16">
-          <Package size={64} className="text-gray-400 mx-auto mb-4" />
-          <h3 className="text-xl font-medium text-gray-900 mb-2">No items found</h3>
-          <p className="text-gray-600">No items match the current filter.</p>
-        </div>
+                    return (
+                      <tr key={item.key} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                            <div className="text-sm text-gray-500">{item.item.description}</div>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {category?.name}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          Rs. {item.price}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {isEditing ? (
+                            <div className="flex items-center space-x-2">
+                              <input
+                                type="number"
+                                value={editingStock[item.key]}
+                                onChange={(e) => setEditingStock({
+                                  ...editingStock,
+                                  [item.key]: parseInt(e.target.value) || 0
+                                })}
+                                className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                                min="0"
+                              />
+                              <button
+                                onClick={() => updateStock(item, editingStock[item.key])}
+                                className="bg-green-500 text-white px-2 py-1 rounded text-xs hover:bg-green-600"
+                              >
+                                Save
+                              </button>
+                              <button
+                                onClick={() => {
+                                  const newEditingStock = { ...editingStock };
+                                  delete newEditingStock[item.key];
+                                  setEditingStock(newEditingStock);
+                                }}
+                                className="bg-gray-500 text-white px-2 py-1 rounded text-xs hover:bg-gray-600"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <span className="text-sm font-medium">{item.fromRecipe ? `Can make ${item.stock}` : item.stock}</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${stockStatus.color}`}>
+                            {stockStatus.status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          Rs. {(item.price * item.stock).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          <div className="flex items-center space-x-3">
+                            {!isEditing && !item.fromRecipe && (
+                              <button
+                                onClick={() => setEditingStock({
+                                  ...editingStock,
+                                  [item.key]: item.stock
+                                })}
+                                className="text-blue-600 hover:text-blue-900 flex items-center space-x-1"
+                              >
+                                <Edit size={16} />
+                                <span>Edit Stock</span>
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setRecipeItem(menuItems.find(menuItem => menuItem.id === item.item.id) ?? null)}
+                              className="text-blue-600 hover:text-blue-900 flex items-center space-x-1"
+                            >
+                              <ChefHat size={16} />
+                              <span>Recipe</span>
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {filteredItems.length === 0 && (
+            <div className="text-center py-16">
+              <Package size={64} className="text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-medium text-gray-900 mb-2">No items found</h3>
+              <p className="text-gray-600">No items match the current filter.</p>
+            </div>
+          )}
+        </>
+      )}
+
+      {recipeItem && (
+        <RecipeModal
+          item={recipeItem}
+          ingredients={ingredients}
+          onSaved={() => {
+            setRecipeItem(null);
+            loadData();
+          }}
+          onClose={() => setRecipeItem(null)}
+        />
       )}
     </div>
   );
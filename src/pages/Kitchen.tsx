@@ -1,13 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, CheckCircle, AlertCircle, Users } from 'lucide-react';
+import { Clock, CheckCircle, AlertCircle, AlertTriangle, Users, Printer, MessageSquare, Ban } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
-import { getAllOrders, getOrderItems, updateOrder, getAllMenuItems, getAllTables } from '../utils/database';
+import { getOrdersByStatus, getOrderItems, updateOrderStatus, getAllMenuItems, getAllTables, setMenuItemUnavailable } from '../utils/database';
+import { getStatusReachedAt } from '../utils/orderStateMachine';
+import { formatComponent, isBundle } from '../utils/bundles';
+import { formatItemName } from '../utils/variants';
+import { formatAllergens, getAllergenConflicts, getOrderItemAllergens } from '../utils/allergens';
 import { useNotifications } from '../contexts/NotificationContext';
-import { Order, OrderItem, MenuItem, Table } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { Allergen, Order, OrderItem, MenuItem, Table } from '../types';
 
 interface OrderWithDetails extends Order {
-  items: (OrderItem & { menuItem: MenuItem })[];
+  // Deal components are resolved to names for the ticket, along with any
+  // allergens in the item the guest was flagged for
+  items: (OrderItem & { menuItem: MenuItem; componentNames: string[]; allergenConflicts: Allergen[] })[];
   table: Table | undefined;
 }
 
@@ -15,8 +22,11 @@ const Kitchen: React.FC = () => {
   const [orders, setOrders] = useState<OrderWithDetails[]>([]);
   const [filter, setFilter] = useState<'all' | 'pending' | 'in-progress'>('all');
   const [isLoading, setIsLoading] = useState(true);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [showEightySix, setShowEightySix] = useState(false);
   
   const { addNotification, playNotificationSound } = useNotifications();
+  const { user } = useAuth();
 
   useEffect(() => {
     loadOrders();
@@ -26,22 +36,23 @@ const Kitchen: React.FC = () => {
 
   const loadOrders = async () => {
     try {
-      const [allOrders, menuItems, tables] = await Promise.all([
-        getAllOrders(),
+      const [pendingOrders, inProgressOrders, menuItems, tables] = await Promise.all([
+        getOrdersByStatus('pending'),
+        getOrdersByStatus('in-progress'),
         getAllMenuItems(),
         getAllTables()
       ]);
 
-      const kitchenOrders = allOrders.filter(order => 
-        order.status === 'pending' || order.status === 'in-progress'
-      );
+      const kitchenOrders = [...pendingOrders, ...inProgressOrders];
 
       const ordersWithDetails: OrderWithDetails[] = await Promise.all(
         kitchenOrders.map(async (order) => {
           const orderItems = await getOrderItems(order.id);
           const itemsWithDetails = orderItems.map(item => ({
             ...item,
-            menuItem: menuItems.find(mi => mi.id === item.menuItemId)!
+            menuItem: menuItems.find(mi => mi.id === item.menuItemId)!,
+            componentNames: (item.components ?? []).map(component => formatComponent(component, menuItems)),
+            allergenConflicts: getAllergenConflicts(getOrderItemAllergens(item, menuItems), order.guestAllergens)
           }));
 
           return {
@@ -58,6 +69,7 @@ const Kitchen: React.FC = () => {
       );
 
       setOrders(ordersWithDetails);
+      setMenuItems(menuItems);
       setIsLoading(false);
     } catch (error) {
       console.error('Error loading orders:', error);
@@ -67,37 +79,36 @@ const Kitchen: React.FC = () => {
   };
 
   const startOrder = async (orderId: string) => {
-    try {
-      const order = orders.find(o => o.id === orderId);
-      if (!order) return;
-
-      const updatedOrder = {
-        ...order,
-        status: 'in-progress' as const,
-        updatedAt: new Date()
-      };
+    if (!user) return;
 
-      await updateOrder(updatedOrder);
+    try {
+      await updateOrderStatus(orderId, 'in-progress', user);
       toast.success('Order started!');
       loadOrders();
     } catch (error) {
       console.error('Error starting order:', error);
-      toast.error('Failed to start order');
+      toast.error(error instanceof Error ? error.message : 'Failed to start order');
     }
   };
 
-  const completeOrder = async (orderId: string) => {
+  // Pulls an item from every menu at once, or puts it back; stock is left alone
+  const toggleEightySix = async (item: MenuItem) => {
     try {
-      const order = orders.find(o => o.id === orderId);
-      if (!order) return;
+      const updatedItem = await setMenuItemUnavailable(item.id, !item.unavailable);
+      setMenuItems(menuItems.map(menuItem => menuItem.id === item.id ? updatedItem : menuItem));
+      toast.success(updatedItem.unavailable ? `${item.name} 86'd` : `${item.name} is back on`);
+    } catch (error) {
+      console.error('Error updating item availability:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update item');
+    }
+  };
 
-      const updatedOrder = {
-        ...order,
-        status: 'ready' as const,
-        updatedAt: new Date()
-      };
+  const completeOrder = async (orderId: string) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order || !user) return;
 
-      await updateOrder(updatedOrder);
+    try {
+      await updateOrderStatus(orderId, 'ready', user);
 
       // Send notification to cashier
       addNotification({
@@ -112,7 +123,42 @@ const Kitchen: React.FC = () => {
       loadOrders();
     } catch (error) {
       console.error('Error completing order:', error);
-      toast.error('Failed to complete order');
+      toast.error(error instanceof Error ? error.message : 'Failed to complete order');
+    }
+  };
+
+  // Prints the latest round only; earlier rounds already went out on their own tickets.
+  // Voided items are left out, and a round with nothing left to cook is not printed.
+  const printTicket = (order: OrderWithDetails) => {
+    const liveItems = order.items.filter(item => !item.voided);
+    if (liveItems.length === 0) {
+      toast.error('Every item on this order has been voided');
+      return;
+    }
+    const ticket = Math.max(...liveItems.map(item => item.ticket));
+    const items = liveItems.filter(item => item.ticket === ticket);
+    const ticketContent = `
+      KITCHEN TICKET
+      ==============
+      Order #${order.id.slice(0, 8)}${ticket > 1 ? ` - Round ${ticket}` : ''}
+      Table: ${order.table?.number}
+      Time: ${format(new Date(), 'HH:mm')}
+      ${order.guestAllergens && order.guestAllergens.length > 0 ? `\n      !!! ALLERGY: ${formatAllergens(order.guestAllergens).toUpperCase()} !!!\n` : ''}${order.notes ? `\n      *** ORDER NOTES ***\n      ${order.notes.split('\n').join('\n      ')}\n` : ''}
+      Items:
+      ${items.map(item =>
+        `${item.quantity}x ${formatItemName(item.menuItem.name, item.variantName)}${item.seat !== undefined ? ` (Seat ${item.seat})` : ''}\n` +
+        item.componentNames.map(name => `        - ${name}\n`).join('') +
+        (item.modifiers.length > 0 ? `        ${item.modifiers.map(modifier => modifier.name).join(', ')}\n` : '') +
+        (item.allergenConflicts.length > 0 ? `        !!! CONTAINS ${formatAllergens(item.allergenConflicts).toUpperCase()} !!!\n` : '') +
+        (item.notes ? `        *** ${item.notes.toUpperCase()} ***\n` : '')
+      ).join('      ')}
+    `;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(`<pre>${ticketContent}</pre>`);
+      printWindow.print();
+      printWindow.close();
     }
   };
 
@@ -181,6 +227,15 @@ const Kitchen: React.FC = () => {
               In Progress ({orders.filter(o => o.status === 'in-progress').length})
             </button>
           </div>
+          <button
+            onClick={() => setShowEightySix(!showEightySix)}
+            className={`px-4 py-2 rounded-lg flex items-center space-x-2 ${
+              showEightySix ? 'bg-red-500 text-white hover:bg-red-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            <Ban size={16} />
+            <span>86 Items ({menuItems.filter(item => item.unavailable).length})</span>
+          </button>
           <button
             onClick={loadOrders}
             className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600"
@@ -190,6 +245,28 @@ const Kitchen: React.FC = () => {
         </div>
       </div>
 
+      {showEightySix && (
+        <div className="bg-white p-6 rounded-lg shadow border mb-6">
+          <h3 className="text-lg font-medium mb-1">86 / Unavailable</h3>
+          <p className="text-sm text-gray-600 mb-4">Tap an item to pull it from the POS, order taking and menu, and tap again to bring it back. Deals with a pulled item go off too.</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2">
+            {menuItems.filter(item => !isBundle(item)).map(item => (
+              <button
+                key={item.id}
+                onClick={() => toggleEightySix(item)}
+                className={`p-3 rounded-lg border text-sm font-medium text-left transition-colors ${
+                  item.unavailable
+                    ? 'bg-red-500 border-red-600 text-white line-through'
+                    : 'bg-gray-50 border-gray-200 text-gray-800 hover:border-red-300'
+                }`}
+              >
+                {item.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {filteredOrders.length === 0 ? (
         <div className="text-center py-16">
           <CheckCircle size={64} className="text-green-500 mx-auto mb-4" />
@@ -201,6 +278,9 @@ const Kitchen: React.FC = () => {
           {filteredOrders.map(order => {
             const priority = getOrderPriority(order.createdAt);
             const timeAgo = formatDistanceToNow(new Date(order.createdAt), { addSuffix: true });
+            const startedAt = order.status === 'in-progress' ? getStatusReachedAt(order, 'in-progress') : undefined;
+            const liveItems = order.items.filter(item => !item.voided);
+            const latestTicket = Math.max(...liveItems.map(item => item.ticket));
 
             return (
               <div
@@ -225,6 +305,11 @@ const Kitchen: React.FC = () => {
                     <div className="text-xs text-gray-500 mt-1">
                       {format(new Date(order.createdAt), 'HH:mm')}
                     </div>
+                    {startedAt && (
+                      <div className="text-xs text-blue-600 mt-1">
+                        Cooking for {formatDistanceToNow(startedAt)}
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -235,29 +320,74 @@ const Kitchen: React.FC = () => {
                   </div>
                 )}
 
+                {order.guestAllergens && order.guestAllergens.length > 0 && (
+                  <div className="flex items-center space-x-2 mb-3 p-3 rounded bg-red-600 text-white">
+                    <AlertTriangle size={16} />
+                    <span className="text-sm font-bold">Guest allergy: {formatAllergens(order.guestAllergens)}</span>
+                  </div>
+                )}
+
+                {order.notes && (
+                  <div className="flex items-start space-x-2 mb-3 p-3 rounded bg-orange-100 border border-orange-300 text-orange-900">
+                    <MessageSquare size={16} className="mt-0.5 flex-shrink-0" />
+                    <p className="text-sm font-semibold whitespace-pre-line">{order.notes}</p>
+                  </div>
+                )}
+
                 <div className="space-y-3 mb-4">
-                  {order.items.map(item => (
-                    <div key={item.id} className="bg-gray-50 p-3 rounded">
+                  {liveItems.map(item => (
+                    <div
+                      key={item.id}
+                      className={`p-3 rounded ${
+                        item.allergenConflicts.length > 0 ? 'bg-red-100 border-2 border-red-500' : 'bg-gray-50'
+                      } ${latestTicket > 1 && item.ticket < latestTicket ? 'opacity-50' : ''}`}
+                    >
                       <div className="flex justify-between items-start">
                         <div>
-                          <h4 className="font-medium">{item.menuItem.name}</h4>
+                          <h4 className="font-medium">{formatItemName(item.menuItem.name, item.variantName)}</h4>
                           <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
+                          {item.allergenConflicts.length > 0 && (
+                            <p className="mt-1 flex items-center space-x-1 text-sm font-bold text-red-700">
+                              <AlertTriangle size={14} />
+                              <span>Contains {formatAllergens(item.allergenConflicts)}</span>
+                            </p>
+                          )}
+                          {item.componentNames.length > 0 && (
+                            <ul className="mt-1 text-sm text-gray-700 list-disc list-inside">
+                              {item.componentNames.map((name, index) => (
+                                <li key={index}>{name}</li>
+                              ))}
+                            </ul>
+                          )}
                           {item.modifiers.length > 0 && (
                             <div className="mt-1">
                               <p className="text-xs text-gray-500">Modifiers:</p>
                               <div className="flex flex-wrap gap-1 mt-1">
                                 {item.modifiers.map(modifier => (
                                   <span
-                                    key={modifier}
+                                    key={`${modifier.groupId}-${modifier.optionId}`}
                                     className="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded"
                                   >
-                                    {modifier}
+                                    {modifier.name}
                                   </span>
                                 ))}
                               </div>
                             </div>
                           )}
+                          {item.notes && (
+                            <p className="mt-2 flex items-center space-x-1 text-sm font-bold text-orange-700">
+                              <MessageSquare size={14} />
+                              <span>{item.notes}</span>
+                            </p>
+                          )}
                         </div>
+                        {latestTicket > 1 && (
+                          <span className={`text-xs px-2 py-1 rounded font-medium ${
+                            item.ticket === latestTicket ? 'bg-orange-100 text-orange-800' : 'bg-gray-200 text-gray-600'
+                          }`}>
+                            {item.ticket === latestTicket ? `New · Round ${item.ticket}` : `Round ${item.ticket}`}
+                          </span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -280,6 +410,13 @@ const Kitchen: React.FC = () => {
                       Mark Ready
                     </button>
                   )}
+                  <button
+                    onClick={() => printTicket(order)}
+                    className="bg-gray-200 text-gray-700 px-3 py-2 rounded-lg hover:bg-gray-300 transition-colors"
+                    title="Print kitchen ticket"
+                  >
+                    <Printer size={16} />
+                  </button>
                 </div>
               </div>
             );
@@ -1,9 +1,34 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Save, X } from 'lucide-react';
+import { Plus, Edit, Trash2, Save, X, Package, Clock, Download, Upload, GripVertical, EyeOff } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import toast from 'react-hot-toast';
-import { getAllCategories, getAllMenuItems, createCategory, createMenuItem, updateMenuItem, deleteMenuItem, updateCategory, deleteCategory } from '../utils/database';
-import { Category, MenuItem } from '../types';
+import { getAllCategories, getAllMenuItems, createCategory, createMenuItem, updateMenuItem, deleteMenuItem, updateCategory, deleteCategory, getTaxSettings, getAllMenuImages, updateCategorySortOrders, updateMenuItemSortOrders, getAllIngredients } from '../utils/database';
+import { DEFAULT_TAX_SETTINGS } from '../utils/pricing';
+import { describeGroupRule, validateModifierGroups } from '../utils/modifiers';
+import { BUNDLE_SLOT_TYPE_LABELS, getAvailableStock, getBundlesUsing, isBundle, validateBundle } from '../utils/bundles';
+import { hasVariants, validateVariants } from '../utils/variants';
+import { formatAvailability, validateAvailability } from '../utils/availability';
+import AvailabilityEditor from '../components/Menu/AvailabilityEditor';
+import MenuImportModal from '../components/Menu/MenuImportModal';
+import ImageUpload from '../components/Menu/ImageUpload';
+import MenuItemImage from '../components/Menu/MenuItemImage';
+import CategoryIcon, { CategoryIconPicker } from '../components/Menu/CategoryIcon';
+import {
+  CATEGORY_COLORS,
+  MENU_VISIBILITIES,
+  MENU_VISIBILITY_LABELS,
+  flattenCategoryTree,
+  getCategoryIdsWithin,
+  getNextSortOrder,
+  getSubCategories,
+  getTopLevelCategories,
+  moveRecord,
+  validateCategoryParent,
+} from '../utils/menuOrder';
+import { getRecipe, usesRecipe, withRecipeStock } from '../utils/recipes';
+import { exportMenuCsv, exportMenuJson, getMenuFileName } from '../utils/menuTransfer';
+import { ALLERGENS, ALLERGEN_LABELS, DIETARY_TAGS, DIETARY_TAG_LABELS, SPICE_LEVELS, SPICE_LEVEL_LABELS } from '../utils/allergens';
+import { Allergen, BundleSlot, BundleSlotType, Category, DietaryTag, Ingredient, MenuImage, MenuItem, MenuItemVariant, MenuVisibility, ModifierGroup, ModifierOption, Schedule, SpiceLevel, TaxSettings } from '../types';
 
 interface MenuItemForm {
   id?: string;
@@ -11,26 +36,57 @@ interface MenuItemForm {
   categoryId: string;
   price: number;
   description: string;
-  modifiers: string[];
+  modifierGroups: ModifierGroup[];
   stock: number;
+  bundle?: BundleSlot[];
+  variants?: MenuItemVariant[];
+  allergens: Allergen[];
+  dietaryTags: DietaryTag[];
+  spiceLevel: SpiceLevel;
+  availability: Schedule[];
+  visibility: MenuVisibility;
+  image?: string;
+  taxClassId?: string;
 }
 
+interface CategoryForm {
+  id?: string;
+  name: string;
+  parentId?: string;
+  color?: string;
+  icon?: string;
+  visibility: MenuVisibility;
+}
+
+// What is being dragged to reorder; categories only move among their siblings
+type DragSource = { type: 'category' | 'item'; id: string };
+
 const MenuManagement: React.FC = () => {
   const [categories, setCategories] = useState<Category[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [showItemForm, setShowItemForm] = useState(false);
-  const [showCategoryForm, setShowCategoryForm] = useState(false);
   const [editingItem, setEditingItem] = useState<MenuItemForm>({
     name: '',
     categoryId: '',
     price: 0,
     description: '',
-    modifiers: [],
+    modifierGroups: [],
+    allergens: [],
+    dietaryTags: [],
+    spiceLevel: 0,
+    availability: [],
+    visibility: 'all',
     stock: 0
   });
-  const [newCategoryName, setNewCategoryName] = useState('');
-  const [modifierInput, setModifierInput] = useState('');
+  const [editingCategory, setEditingCategory] = useState<CategoryForm | null>(null);
+  const [dragging, setDragging] = useState<DragSource | null>(null);
+  const [editingHours, setEditingHours] = useState<Category | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  // A photo picked in the item form, saved together with the item
+  const [pendingImage, setPendingImage] = useState<MenuImage | null>(null);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
 
   useEffect(() => {
     loadData();
@@ -38,13 +94,17 @@ const MenuManagement: React.FC = () => {
 
   const loadData = async () => {
     try {
-      const [categoriesData, menuData] = await Promise.all([
+      const [categoriesData, menuData, taxData, ingredientsData] = await Promise.all([
         getAllCategories(),
-        getAllMenuItems()
+        getAllMenuItems(),
+        getTaxSettings(),
+        getAllIngredients()
       ]);
       
       setCategories(categoriesData);
       setMenuItems(menuData);
+      setIngredients(ingredientsData);
+      setTaxSettings(taxData);
       
       if (categoriesData.length > 0 && !selectedCategory) {
         setSelectedCategory(categoriesData[0].id);
@@ -55,37 +115,141 @@ const MenuManagement: React.FC = () => {
     }
   };
 
-  const filteredMenuItems = menuItems.filter(item => 
-    selectedCategory ? item.categoryId === selectedCategory : true
+  const handleExport = async (extension: 'csv' | 'json') => {
+    try {
+      const images = await getAllMenuImages();
+      const blob = extension === 'csv'
+        ? await exportMenuCsv(menuItems, categories, images)
+        : await exportMenuJson(menuItems, categories, images);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getMenuFileName(extension);
+      link.click();
+      URL.revokeObjectURL(url);
+      if (menuItems.some(isBundle)) {
+        toast.success('Menu exported. Deals are not included in exports.');
+      } else {
+        toast.success('Menu exported');
+      }
+    } catch (error) {
+      console.error('Error exporting menu:', error);
+      toast.error('Failed to export menu');
+    }
+  };
+
+  // Shown stock only: dishes made from a recipe count what their ingredients can make
+  const itemsForSale = withRecipeStock(menuItems, ingredients);
+
+  // A top-level category shows its sub-categories' items too
+  const filteredMenuItems = menuItems.filter(item =>
+    selectedCategory ? getCategoryIdsWithin(selectedCategory, categories).includes(item.categoryId) : true
   );
 
   const handleSaveCategory = async () => {
-    if (!newCategoryName.trim()) {
+    if (!editingCategory) return;
+    const name = editingCategory.name.trim();
+    if (!name) {
       toast.error('Category name is required');
       return;
     }
+    const problem = validateCategoryParent({ id: editingCategory.id ?? '', parentId: editingCategory.parentId }, categories);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    const { parentId, color, icon, visibility } = editingCategory;
+    try {
+      const existing = categories.find(category => category.id === editingCategory.id);
+      if (existing) {
+        await updateCategory({ ...existing, name, parentId, color, icon, visibility });
+        toast.success('Category updated successfully');
+      } else {
+        await createCategory({
+          id: uuidv4(),
+          name,
+          parentId,
+          color,
+          icon,
+          visibility,
+          sortOrder: getNextSortOrder(categories),
+          createdAt: new Date()
+        });
+        toast.success('Category created successfully');
+      }
+      setEditingCategory(null);
+      loadData();
+    } catch (error) {
+      console.error('Error saving category:', error);
+      toast.error('Failed to save category');
+    }
+  };
+
+  const handleDropCategory = async (targetId: string) => {
+    const source = dragging;
+    setDragging(null);
+    if (source?.type !== 'category') return;
+
+    const dragged = categories.find(category => category.id === source.id);
+    const target = categories.find(category => category.id === targetId);
+    if (!dragged || !target) return;
+    if ((dragged.parentId ?? '') !== (target.parentId ?? '')) {
+      toast.error('Categories can only be moved among their own level');
+      return;
+    }
+
+    const siblings = dragged.parentId ? getSubCategories(dragged.parentId, categories) : getTopLevelCategories(categories);
+    try {
+      await updateCategorySortOrders(moveRecord(siblings, dragged.id, targetId));
+      loadData();
+    } catch (error) {
+      console.error('Error reordering categories:', error);
+      toast.error('Failed to reorder categories');
+    }
+  };
+
+  const handleDropItem = async (targetId: string) => {
+    const source = dragging;
+    setDragging(null);
+    if (source?.type !== 'item') return;
+
+    try {
+      await updateMenuItemSortOrders(moveRecord(filteredMenuItems, source.id, targetId));
+      loadData();
+    } catch (error) {
+      console.error('Error reordering menu items:', error);
+      toast.error('Failed to reorder menu items');
+    }
+  };
+
+  const handleSaveCategoryHours = async () => {
+    if (!editingHours) return;
+
+    const problem = validateAvailability(editingHours.availability ?? []);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
 
     try {
-      const newCategory: Category = {
-        id: uuidv4(),
-        name: newCategoryName.trim(),
-        createdAt: new Date()
-      };
-
-      await createCategory(newCategory);
-      toast.success('Category created successfully');
-      setNewCategoryName('');
-      setShowCategoryForm(false);
+      await updateCategory(editingHours);
+      toast.success('Category hours updated');
+      setEditingHours(null);
       loadData();
     } catch (error) {
-      console.error('Error creating category:', error);
-      toast.error('Failed to create category');
+      console.error('Error updating category hours:', error);
+      toast.error('Failed to update category hours');
     }
   };
 
   const handleDeleteCategory = async (categoryId: string) => {
     const itemsInCategory = menuItems.filter(item => item.categoryId === categoryId);
-    
+
+    if (getSubCategories(categoryId, categories).length > 0) {
+      toast.error('Cannot delete category with sub-categories. Move or delete them first.');
+      return;
+    }
     if (itemsInCategory.length > 0) {
       toast.error('Cannot delete category with menu items. Move or delete items first.');
       return;
@@ -118,29 +282,69 @@ const MenuManagement: React.FC = () => {
       return;
     }
 
-    if (editingItem.price <= 0) {
+    if (editingItem.variants) {
+      if (editingItem.variants.length === 0) {
+        toast.error('Add at least one size');
+        return;
+      }
+      const problem = validateVariants(editingItem.variants);
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
+    } else if (editingItem.price <= 0) {
       toast.error('Price must be greater than 0');
       return;
     }
 
+    const modifierProblem = validateModifierGroups(editingItem.modifierGroups);
+    if (modifierProblem) {
+      toast.error(modifierProblem);
+      return;
+    }
+
+    if (editingItem.bundle) {
+      const problem = validateBundle(editingItem.id, editingItem.bundle, menuItems);
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
+    }
+
+    const availabilityProblem = validateAvailability(editingItem.availability);
+    if (availabilityProblem) {
+      toast.error(availabilityProblem);
+      return;
+    }
+
+    // A sized item is listed from its cheapest size; its stock is kept per size
+    const item: MenuItemForm = editingItem.variants
+      ? { ...editingItem, price: Math.min(...editingItem.variants.map(variant => variant.price)), stock: 0 }
+      : editingItem;
+
     try {
-      if (editingItem.id) {
-        // Update existing item
+      if (item.id) {
+        // Update existing item; whether the kitchen has 86'd it is not part of the form
+        const existing = menuItems.find(menuItem => menuItem.id === item.id);
         const updatedItem: MenuItem = {
-          ...editingItem,
-          id: editingItem.id,
-          createdAt: menuItems.find(item => item.id === editingItem.id)?.createdAt || new Date()
+          ...item,
+          id: item.id,
+          unavailable: existing?.unavailable,
+          recipe: existing?.recipe,
+          sortOrder: existing?.sortOrder ?? getNextSortOrder(menuItems),
+          createdAt: existing?.createdAt || new Date()
         };
-        await updateMenuItem(updatedItem);
+        await updateMenuItem(updatedItem, pendingImage ?? undefined);
         toast.success('Menu item updated successfully');
       } else {
         // Create new item
         const newItem: MenuItem = {
-          ...editingItem,
+          ...item,
           id: uuidv4(),
+          sortOrder: getNextSortOrder(menuItems),
           createdAt: new Date()
         };
-        await createMenuItem(newItem);
+        await createMenuItem(newItem, pendingImage ?? undefined);
         toast.success('Menu item created successfully');
       }
 
@@ -159,13 +363,29 @@ const MenuManagement: React.FC = () => {
       categoryId: item.categoryId,
       price: item.price,
       description: item.description,
-      modifiers: [...item.modifiers],
-      stock: item.stock
+      modifierGroups: item.modifierGroups.map(group => ({ ...group, options: group.options.map(option => ({ ...option })) })),
+      stock: item.stock,
+      bundle: item.bundle?.map(slot => ({ ...slot, menuItemIds: [...slot.menuItemIds] })),
+      variants: item.variants?.map(variant => ({ ...variant })),
+      allergens: [...item.allergens],
+      dietaryTags: [...item.dietaryTags],
+      spiceLevel: item.spiceLevel,
+      availability: (item.availability ?? []).map(window => ({ ...window, days: [...window.days] })),
+      visibility: item.visibility,
+      image: item.image,
+      taxClassId: item.taxClassId
     });
+    setPendingImage(null);
     setShowItemForm(true);
   };
 
   const handleDeleteItem = async (itemId: string) => {
+    const deals = getBundlesUsing(itemId, menuItems);
+    if (deals.length > 0) {
+      toast.error(`This item is part of ${deals.map(deal => deal.name).join(', ')}. Remove it from the deal first.`);
+      return;
+    }
+
     if (window.confirm('Are you sure you want to delete this menu item?')) {
       try {
         await deleteMenuItem(itemId);
@@ -178,34 +398,136 @@ const MenuManagement: React.FC = () => {
     }
   };
 
-  const addModifier = () => {
-    if (modifierInput.trim() && !editingItem.modifiers.includes(modifierInput.trim())) {
-      setEditingItem({
-        ...editingItem,
-        modifiers: [...editingItem.modifiers, modifierInput.trim()]
-      });
-      setModifierInput('');
-    }
+  const addModifierGroup = () => {
+    setEditingItem({
+      ...editingItem,
+      modifierGroups: [...editingItem.modifierGroups, { id: uuidv4(), name: '', minSelect: 0, maxSelect: 1, options: [] }]
+    });
   };
 
-  const removeModifier = (modifier: string) => {
+  const updateModifierGroup = (groupId: string, changes: Partial<ModifierGroup>) => {
     setEditingItem({
       ...editingItem,
-      modifiers: editingItem.modifiers.filter(m => m !== modifier)
+      modifierGroups: editingItem.modifierGroups.map(group => group.id === groupId ? { ...group, ...changes } : group)
     });
   };
 
+  const removeModifierGroup = (groupId: string) => {
+    setEditingItem({
+      ...editingItem,
+      modifierGroups: editingItem.modifierGroups.filter(group => group.id !== groupId)
+    });
+  };
+
+  const updateModifierOption = (group: ModifierGroup, optionId: string, changes: Partial<ModifierOption>) => {
+    updateModifierGroup(group.id, {
+      options: group.options.map(option => option.id === optionId ? { ...option, ...changes } : option)
+    });
+  };
+
+  const toggleAllergen = (allergen: Allergen) => {
+    setEditingItem({
+      ...editingItem,
+      allergens: editingItem.allergens.includes(allergen)
+        ? editingItem.allergens.filter(existing => existing !== allergen)
+        : [...editingItem.allergens, allergen]
+    });
+  };
+
+  const toggleDietaryTag = (tag: DietaryTag) => {
+    setEditingItem({
+      ...editingItem,
+      dietaryTags: editingItem.dietaryTags.includes(tag)
+        ? editingItem.dietaryTags.filter(existing => existing !== tag)
+        : [...editingItem.dietaryTags, tag]
+    });
+  };
+
+  const toggleBundle = (enabled: boolean) => {
+    setEditingItem({
+      ...editingItem,
+      bundle: enabled ? [] : undefined,
+      variants: enabled ? undefined : editingItem.variants,
+      stock: enabled ? 0 : editingItem.stock
+    });
+  };
+
+  // Switching sizes on starts from the item's current price and stock as one size
+  const toggleVariants = (enabled: boolean) => {
+    setEditingItem({
+      ...editingItem,
+      variants: enabled
+        ? [{ id: uuidv4(), name: 'Regular', price: editingItem.price, stock: editingItem.stock }]
+        : undefined
+    });
+  };
+
+  const addVariant = () => {
+    setEditingItem({
+      ...editingItem,
+      variants: [...(editingItem.variants ?? []), { id: uuidv4(), name: '', price: 0, stock: 0 }]
+    });
+  };
+
+  const updateVariant = (variantId: string, changes: Partial<MenuItemVariant>) => {
+    setEditingItem({
+      ...editingItem,
+      variants: editingItem.variants?.map(variant => variant.id === variantId ? { ...variant, ...changes } : variant)
+    });
+  };
+
+  const removeVariant = (variantId: string) => {
+    setEditingItem({
+      ...editingItem,
+      variants: editingItem.variants?.filter(variant => variant.id !== variantId)
+    });
+  };
+
+  const addBundleSlot = () => {
+    setEditingItem({
+      ...editingItem,
+      bundle: [...(editingItem.bundle ?? []), { id: uuidv4(), name: '', type: 'fixed', menuItemIds: [], quantity: 1 }]
+    });
+  };
+
+  const updateBundleSlot = (slotId: string, changes: Partial<BundleSlot>) => {
+    setEditingItem({
+      ...editingItem,
+      bundle: editingItem.bundle?.map(slot => {
+        if (slot.id !== slotId) return slot;
+        const updated = { ...slot, ...changes };
+        // A fixed slot holds exactly one item
+        return updated.type === 'fixed' ? { ...updated, menuItemIds: updated.menuItemIds.slice(-1) } : updated;
+      })
+    });
+  };
+
+  const removeBundleSlot = (slotId: string) => {
+    setEditingItem({
+      ...editingItem,
+      bundle: editingItem.bundle?.filter(slot => slot.id !== slotId)
+    });
+  };
+
+  // Items a deal can be made of: anything that is not itself a deal
+  const componentOptions = menuItems.filter(item => !isBundle(item) && item.id !== editingItem.id);
+
   const resetForm = () => {
     setEditingItem({
       name: '',
       categoryId: selectedCategory || '',
       price: 0,
       description: '',
-      modifiers: [],
+      modifierGroups: [],
+      allergens: [],
+      dietaryTags: [],
+      spiceLevel: 0,
+      availability: [],
+      visibility: 'all',
       stock: 0
     });
+    setPendingImage(null);
     setShowItemForm(false);
-    setModifierInput('');
   };
 
   return (
@@ -214,7 +536,28 @@ const MenuManagement: React.FC = () => {
         <h1 className="text-2xl font-bold">Menu Management</h1>
         <div className="flex space-x-2">
           <button
-            onClick={() => setShowCategoryForm(true)}
+            onClick={() => handleExport('csv')}
+            className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 flex items-center space-x-2"
+          >
+            <Download size={20} />
+            <span>Export CSV</span>
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 flex items-center space-x-2"
+          >
+            <Download size={20} />
+            <span>Export JSON</span>
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 flex items-center space-x-2"
+          >
+            <Upload size={20} />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={() => setEditingCategory({ name: '', visibility: 'all' })}
             className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 flex items-center space-x-2"
           >
             <Plus size={20} />
@@ -227,9 +570,15 @@ const MenuManagement: React.FC = () => {
                 categoryId: selectedCategory || '',
                 price: 0,
                 description: '',
-                modifiers: [],
+                modifierGroups: [],
+                allergens: [],
+                dietaryTags: [],
+                spiceLevel: 0,
+                availability: [],
+                visibility: 'all',
                 stock: 0
               });
+              setPendingImage(null);
               setShowItemForm(true);
             }}
             className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 flex items-center space-x-2"
@@ -254,17 +603,54 @@ const MenuManagement: React.FC = () => {
           >
             All Items
           </button>
-          {categories.map(category => (
-            <div key={category.id} className="flex items-center space-x-1">
+          {flattenCategoryTree(categories).map(category => (
+            <div
+              key={category.id}
+              draggable
+              onDragStart={() => setDragging({ type: 'category', id: category.id })}
+              onDragEnd={() => setDragging(null)}
+              onDragOver={(e) => dragging?.type === 'category' && e.preventDefault()}
+              onDrop={() => handleDropCategory(category.id)}
+              className={`flex items-center space-x-1 ${category.parentId ? 'pl-2 border-l-2 border-gray-300' : ''}`}
+            >
+              <GripVertical size={16} className="text-gray-400 cursor-move" />
               <button
                 onClick={() => setSelectedCategory(category.id)}
-                className={`px-4 py-2 rounded-lg whitespace-nowrap transition-colors ${
+                style={selectedCategory === category.id && category.color ? { backgroundColor: category.color } : undefined}
+                className={`${category.parentId ? 'px-3 py-1 text-sm' : 'px-4 py-2'} rounded-lg whitespace-nowrap transition-colors flex items-center space-x-2 ${
                   selectedCategory === category.id
                     ? 'bg-blue-500 text-white'
                     : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
                 }`}
               >
-                {category.name}
+                <CategoryIcon icon={category.icon} color={selectedCategory === category.id ? undefined : category.color} />
+                <span>{category.name}</span>
+                {category.visibility !== 'all' && (
+                  <span title={MENU_VISIBILITY_LABELS[category.visibility]}>
+                    <EyeOff size={14} />
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setEditingCategory({
+                  id: category.id,
+                  name: category.name,
+                  parentId: category.parentId,
+                  color: category.color,
+                  icon: category.icon,
+                  visibility: category.visibility
+                })}
+                className="text-blue-500 hover:text-blue-700 p-1"
+                title="Edit category"
+              >
+                <Edit size={16} />
+              </button>
+              <button
+                onClick={() => setEditingHours({ ...category, availability: category.availability ?? [] })}
+                className={`p-1 ${category.availability && category.availability.length > 0 ? 'text-blue-500' : 'text-gray-400'} hover:text-blue-700`}
+                title={category.availability && category.availability.length > 0 ? formatAvailability(category.availability) : 'Set hours'}
+              >
+                <Clock size={16} />
               </button>
               <button
                 onClick={() => handleDeleteCategory(category.id)}
@@ -281,12 +667,26 @@ const MenuManagement: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredMenuItems.map(item => {
           const category = categories.find(c => c.id === item.categoryId);
+          const forSale = itemsForSale.find(stocked => stocked.id === item.id) ?? item;
+          const available = getAvailableStock(forSale, itemsForSale);
           return (
-            <div key={item.id} className="bg-white p-6 rounded-lg shadow border">
+            <div
+              key={item.id}
+              draggable
+              onDragStart={() => setDragging({ type: 'item', id: item.id })}
+              onDragEnd={() => setDragging(null)}
+              onDragOver={(e) => dragging?.type === 'item' && e.preventDefault()}
+              onDrop={() => handleDropItem(item.id)}
+              className={`bg-white p-6 rounded-lg shadow border ${dragging?.id === item.id ? 'opacity-50' : ''}`}
+            >
+              <MenuItemImage imageId={item.image} alt={item.name} className="w-full h-32 rounded-md mb-3" />
               <div className="flex justify-between items-start mb-3">
-                <div>
-                  <h3 className="font-bold text-lg">{item.name}</h3>
-                  <p className="text-sm text-gray-600">{category?.name}</p>
+                <div className="flex items-start space-x-2">
+                  <GripVertical size={18} className="text-gray-400 cursor-move mt-1" />
+                  <div>
+                    <h3 className="font-bold text-lg">{item.name}</h3>
+                    <p className="text-sm text-gray-600">{category?.name}</p>
+                  </div>
                 </div>
                 <div className="flex space-x-1">
                   <button
@@ -305,56 +705,190 @@ const MenuManagement: React.FC = () => {
               </div>
               
               <p className="text-gray-600 text-sm mb-3">{item.description}</p>
+
+              {item.unavailable && (
+                <p className="text-sm font-medium text-red-600 mb-3">86'd by the kitchen</p>
+              )}
+
+              {item.visibility !== 'all' && (
+                <p className="text-sm text-gray-600 mb-3 flex items-center space-x-1">
+                  <EyeOff size={14} />
+                  <span>{MENU_VISIBILITY_LABELS[item.visibility]}</span>
+                </p>
+              )}
+
+              {item.availability && item.availability.length > 0 && (
+                <p className="text-sm text-gray-600 mb-3 flex items-center space-x-1">
+                  <Clock size={14} />
+                  <span>{formatAvailability(item.availability)}</span>
+                </p>
+              )}
+
+              {(item.allergens.length > 0 || item.dietaryTags.length > 0 || item.spiceLevel > 0) && (
+                <div className="flex flex-wrap gap-1 mb-3">
+                  {item.allergens.map(allergen => (
+                    <span key={allergen} className="text-xs px-2 py-1 rounded bg-red-100 text-red-800">
+                      {ALLERGEN_LABELS[allergen]}
+                    </span>
+                  ))}
+                  {item.dietaryTags.map(tag => (
+                    <span key={tag} className="text-xs px-2 py-1 rounded bg-green-100 text-green-800">
+                      {DIETARY_TAG_LABELS[tag]}
+                    </span>
+                  ))}
+                  {item.spiceLevel > 0 && (
+                    <span className="text-xs px-2 py-1 rounded bg-orange-100 text-orange-800">
+                      {SPICE_LEVEL_LABELS[item.spiceLevel]}
+                    </span>
+                  )}
+                </div>
+              )}
               
               <div className="flex justify-between items-center mb-3">
-                <span className="text-2xl font-bold text-blue-600">Rs. {item.price}</span>
+                <span className="text-2xl font-bold text-blue-600">{hasVariants(item) ? 'From ' : ''}Rs. {item.price}</span>
                 <span className={`px-3 py-1 rounded-full text-sm ${
-                  item.stock > 10 ? 'bg-green-100 text-green-800' :
-                  item.stock > 0 ? 'bg-yellow-100 text-yellow-800' :
+                  available > 10 ? 'bg-green-100 text-green-800' :
+                  available > 0 ? 'bg-yellow-100 text-yellow-800' :
                   'bg-red-100 text-red-800'
                 }`}>
-                  Stock: {item.stock}
+                  {isBundle(item) ? 'Available' : usesRecipe(item) ? 'Can make' : 'Stock'}: {available}
                 </span>
               </div>
 
-              {item.modifiers.length > 0 && (
-                <div>
-                  <p className="text-sm font-medium text-gray-700 mb-1">Modifiers:</p>
+              {hasVariants(item) && (
+                <div className="mb-3">
+                  <p className="text-sm font-medium text-gray-700 mb-1">Sizes:</p>
                   <div className="flex flex-wrap gap-1">
-                    {item.modifiers.map(modifier => (
+                    {forSale.variants!.map(variant => (
+                      <span key={variant.id} className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded">
+                        {variant.name}: Rs. {variant.price} ({variant.stock} {getRecipe(forSale, variant.id).length > 0 ? 'can make' : 'in stock'})
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {item.bundle && item.bundle.length > 0 && (
+                <div className="mb-3">
+                  <p className="text-sm font-medium text-gray-700 mb-1 flex items-center space-x-1">
+                    <Package size={14} />
+                    <span>Deal includes:</span>
+                  </p>
+                  <ul className="text-sm text-gray-600 space-y-0.5">
+                    {item.bundle.map(slot => (
+                      <li key={slot.id}>
+                        {slot.quantity > 1 ? `${slot.quantity}x ` : ''}
+                        {slot.type === 'choice' ? `${slot.name}: ` : ''}
+                        {slot.menuItemIds.map(id => menuItems.find(option => option.id === id)?.name ?? 'Unknown Item').join(' / ')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {item.modifierGroups.map(group => (
+                <div key={group.id} className="mb-2">
+                  <p className="text-sm font-medium text-gray-700 mb-1">
+                    {group.name} <span className="text-xs font-normal text-gray-500">({describeGroupRule(group)})</span>
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {group.options.map(option => (
                       <span
-                        key={modifier}
-                        className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded"
+                        key={option.id}
+                        className={`text-xs px-2 py-1 rounded ${option.isDefault ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'}`}
                       >
-                        {modifier}
+                        {option.name}{option.price > 0 ? ` +Rs. ${option.price}` : ''}
                       </span>
                     ))}
                   </div>
                 </div>
-              )}
+              ))}
             </div>
           );
         })}
       </div>
 
       {/* Category Form Modal */}
-      {showCategoryForm && (
+      {editingCategory && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
-            <h3 className="text-xl font-bold mb-4">Add New Category</h3>
-            <input
-              type="text"
-              value={newCategoryName}
-              onChange={(e) => setNewCategoryName(e.target.value)}
-              placeholder="Category Name"
-              className="w-full p-3 border border-gray-300 rounded-lg mb-4"
-            />
+          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4 max-h-screen overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4">{editingCategory.id ? 'Edit Category' : 'Add New Category'}</h3>
+            <div className="space-y-4 mb-4">
+              <input
+                type="text"
+                value={editingCategory.name}
+                onChange={(e) => setEditingCategory({ ...editingCategory, name: e.target.value })}
+                placeholder="Category Name"
+                className="w-full p-3 border border-gray-300 rounded-lg"
+              />
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Parent Category
+                </label>
+                <select
+                  value={editingCategory.parentId ?? ''}
+                  onChange={(e) => setEditingCategory({ ...editingCategory, parentId: e.target.value || undefined })}
+                  className="w-full p-3 border border-gray-300 rounded-lg"
+                >
+                  <option value="">None (top level)</option>
+                  {getTopLevelCategories(categories)
+                    .filter(category => category.id !== editingCategory.id)
+                    .map(category => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Colour
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setEditingCategory({ ...editingCategory, color: undefined })}
+                    className={`w-8 h-8 rounded-full border-2 bg-gray-200 ${!editingCategory.color ? 'border-gray-800' : 'border-transparent'}`}
+                    title="Default"
+                  />
+                  {CATEGORY_COLORS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => setEditingCategory({ ...editingCategory, color })}
+                      style={{ backgroundColor: color }}
+                      className={`w-8 h-8 rounded-full border-2 ${editingCategory.color === color ? 'border-gray-800' : 'border-transparent'}`}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Icon
+                </label>
+                <CategoryIconPicker
+                  value={editingCategory.icon}
+                  onChange={(icon) => setEditingCategory({ ...editingCategory, icon })}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Shown On
+                </label>
+                <select
+                  value={editingCategory.visibility}
+                  onChange={(e) => setEditingCategory({ ...editingCategory, visibility: e.target.value as MenuVisibility })}
+                  className="w-full p-3 border border-gray-300 rounded-lg"
+                >
+                  {MENU_VISIBILITIES.map(visibility => (
+                    <option key={visibility} value={visibility}>{MENU_VISIBILITY_LABELS[visibility]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
             <div className="flex space-x-2">
               <button
-                onClick={() => {
-                  setShowCategoryForm(false);
-                  setNewCategoryName('');
-                }}
+                onClick={() => setEditingCategory(null)}
                 className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600"
               >
                 Cancel
@@ -370,6 +904,46 @@ const MenuManagement: React.FC = () => {
         </div>
       )}
 
+      {/* Menu Import Modal */}
+      {showImport && (
+        <MenuImportModal
+          menuItems={menuItems}
+          categories={categories}
+          onImported={() => {
+            setShowImport(false);
+            loadData();
+          }}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {/* Category Hours Modal */}
+      {editingHours && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4 max-h-screen overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4">{editingHours.name} Hours</h3>
+            <AvailabilityEditor
+              availability={editingHours.availability ?? []}
+              onChange={(availability) => setEditingHours({ ...editingHours, availability })}
+            />
+            <div className="flex space-x-2 mt-4">
+              <button
+                onClick={() => setEditingHours(null)}
+                className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveCategoryHours}
+                className="flex-1 bg-green-500 text-white py-2 rounded-lg hover:bg-green-600"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Menu Item Form Modal */}
       {showItemForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -400,13 +974,28 @@ const MenuManagement: React.FC = () => {
                 ))}
               </select>
 
-              <input
-                type="number"
-                value={editingItem.price}
-                onChange={(e) => setEditingItem({...editingItem, price: parseFloat(e.target.value) || 0})}
-                placeholder="Price"
+              <select
+                value={editingItem.taxClassId ?? ''}
+                onChange={(e) => setEditingItem({...editingItem, taxClassId: e.target.value || undefined})}
                 className="w-full p-3 border border-gray-300 rounded-lg"
-              />
+              >
+                <option value="">Tax class from category</option>
+                {taxSettings.classes.map(taxClass => (
+                  <option key={taxClass.id} value={taxClass.id}>
+                    Tax: {taxClass.name}
+                  </option>
+                ))}
+              </select>
+
+              {!editingItem.variants && (
+                <input
+                  type="number"
+                  value={editingItem.price}
+                  onChange={(e) => setEditingItem({...editingItem, price: parseFloat(e.target.value) || 0})}
+                  placeholder="Price"
+                  className="w-full p-3 border border-gray-300 rounded-lg"
+                />
+              )}
 
               <textarea
                 value={editingItem.description}
@@ -416,49 +1005,353 @@ const MenuManagement: React.FC = () => {
                 className="w-full p-3 border border-gray-300 rounded-lg"
               />
 
-              <input
-                type="number"
-                value={editingItem.stock}
-                onChange={(e) => setEditingItem({...editingItem, stock: parseInt(e.target.value) || 0})}
-                placeholder="Stock Quantity"
-                className="w-full p-3 border border-gray-300 rounded-lg"
-              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Photo
+                </label>
+                <ImageUpload
+                  imageId={editingItem.image}
+                  pendingImage={pendingImage}
+                  onUpload={(image) => {
+                    setPendingImage(image);
+                    setEditingItem({...editingItem, image: image.id});
+                  }}
+                  onRemove={() => {
+                    setPendingImage(null);
+                    setEditingItem({...editingItem, image: undefined});
+                  }}
+                />
+              </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Modifiers
+                  Allergens
                 </label>
-                <div className="flex space-x-2 mb-2">
-                  <input
-                    type="text"
-                    value={modifierInput}
-                    onChange={(e) => setModifierInput(e.target.value)}
-                    placeholder="Add modifier"
-                    className="flex-1 p-2 border border-gray-300 rounded"
-                    onKeyPress={(e) => e.key === 'Enter' && addModifier()}
-                  />
+                <div className="flex flex-wrap gap-3">
+                  {ALLERGENS.map(allergen => (
+                    <label key={allergen} className="flex items-center space-x-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={editingItem.allergens.includes(allergen)}
+                        onChange={() => toggleAllergen(allergen)}
+                      />
+                      <span>{ALLERGEN_LABELS[allergen]}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Dietary
+                </label>
+                <div className="flex flex-wrap gap-3">
+                  {DIETARY_TAGS.map(tag => (
+                    <label key={tag} className="flex items-center space-x-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={editingItem.dietaryTags.includes(tag)}
+                        onChange={() => toggleDietaryTag(tag)}
+                      />
+                      <span>{DIETARY_TAG_LABELS[tag]}</span>
+                    </label>
+                  ))}
+                </div>
+                <select
+                  value={editingItem.spiceLevel}
+                  onChange={(e) => setEditingItem({...editingItem, spiceLevel: parseInt(e.target.value) as SpiceLevel})}
+                  className="w-full p-3 border border-gray-300 rounded-lg mt-2"
+                >
+                  {SPICE_LEVELS.map(level => (
+                    <option key={level} value={level}>Spice: {SPICE_LEVEL_LABELS[level]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={!!editingItem.bundle}
+                  onChange={(e) => toggleBundle(e.target.checked)}
+                />
+                <span className="text-sm font-medium text-gray-700">Deal made of other menu items</span>
+              </label>
+
+              {editingItem.bundle ? (
+                <div className="space-y-3">
+                  {editingItem.bundle.map(slot => (
+                    <div key={slot.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                      <div className="flex space-x-2">
+                        <input
+                          type="text"
+                          value={slot.name}
+                          onChange={(e) => updateBundleSlot(slot.id, { name: e.target.value })}
+                          placeholder="Slot name, e.g. Drink"
+                          className="flex-1 p-2 border border-gray-300 rounded"
+                        />
+                        <input
+                          type="number"
+                          min="1"
+                          value={slot.quantity}
+                          onChange={(e) => updateBundleSlot(slot.id, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                          title="Quantity per deal"
+                          className="w-16 p-2 border border-gray-300 rounded text-right"
+                        />
+                        <button
+                          onClick={() => removeBundleSlot(slot.id)}
+                          className="text-red-500 hover:text-red-700 p-1"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                      <div className="flex space-x-2">
+                        <select
+                          value={slot.type}
+                          onChange={(e) => updateBundleSlot(slot.id, { type: e.target.value as BundleSlotType })}
+                          className="p-2 border border-gray-300 rounded"
+                        >
+                          {Object.entries(BUNDLE_SLOT_TYPE_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                        <select
+                          value=""
+                          onChange={(e) => e.target.value && updateBundleSlot(slot.id, {
+                            menuItemIds: slot.menuItemIds.includes(e.target.value)
+                              ? slot.menuItemIds
+                              : [...slot.menuItemIds, e.target.value]
+                          })}
+                          className="flex-1 p-2 border border-gray-300 rounded"
+                        >
+                          <option value="">{slot.type === 'fixed' ? 'Select item' : 'Add option'}</option>
+                          {componentOptions.map(option => (
+                            <option key={option.id} value={option.id}>{option.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {slot.menuItemIds.map(id => (
+                          <span
+                            key={id}
+                            className="bg-gray-100 text-gray-700 text-sm px-2 py-1 rounded flex items-center space-x-1"
+                          >
+                            <span>{menuItems.find(option => option.id === id)?.name ?? 'Unknown Item'}</span>
+                            <button
+                              onClick={() => updateBundleSlot(slot.id, { menuItemIds: slot.menuItemIds.filter(other => other !== id) })}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <X size={14} />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
                   <button
-                    onClick={addModifier}
-                    className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
+                    onClick={addBundleSlot}
+                    className="w-full border-2 border-dashed border-gray-300 text-gray-600 py-2 rounded-lg hover:border-blue-500 hover:text-blue-500 flex items-center justify-center space-x-2"
                   >
-                    Add
+                    <Plus size={16} />
+                    <span>Add Slot</span>
                   </button>
+                  <p className="text-xs text-gray-500">Selling the deal takes its components out of stock.</p>
                 </div>
-                <div className="flex flex-wrap gap-1">
-                  {editingItem.modifiers.map(modifier => (
-                    <span
-                      key={modifier}
-                      className="bg-gray-100 text-gray-700 text-sm px-2 py-1 rounded flex items-center space-x-1"
-                    >
-                      <span>{modifier}</span>
+              ) : (
+                <>
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={!!editingItem.variants}
+                      onChange={(e) => toggleVariants(e.target.checked)}
+                    />
+                    <span className="text-sm font-medium text-gray-700">Sold in sizes with their own price and stock</span>
+                  </label>
+
+                  {menuItems.some(item => item.id === editingItem.id && usesRecipe(item)) && (
+                    <p className="text-xs text-gray-500">
+                      Made from a recipe: stock comes from its ingredients on the Inventory page.
+                    </p>
+                  )}
+
+                  {editingItem.variants ? (
+                    <div className="space-y-2">
+                      {editingItem.variants.map(variant => (
+                        <div key={variant.id} className="flex space-x-2">
+                          <input
+                            type="text"
+                            value={variant.name}
+                            onChange={(e) => updateVariant(variant.id, { name: e.target.value })}
+                            placeholder="Size, e.g. Half"
+                            className="flex-1 p-2 border border-gray-300 rounded"
+                          />
+                          <input
+                            type="number"
+                            min="0"
+                            value={variant.price}
+                            onChange={(e) => updateVariant(variant.id, { price: parseFloat(e.target.value) || 0 })}
+                            title="Price (Rs.)"
+                            className="w-24 p-2 border border-gray-300 rounded text-right"
+                          />
+                          <input
+                            type="number"
+                            min="0"
+                            value={variant.stock}
+                            onChange={(e) => updateVariant(variant.id, { stock: parseInt(e.target.value) || 0 })}
+                            title="Stock"
+                            className="w-20 p-2 border border-gray-300 rounded text-right"
+                          />
+                          <button
+                            onClick={() => removeVariant(variant.id)}
+                            className="text-red-500 hover:text-red-700 p-1"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      ))}
                       <button
-                        onClick={() => removeModifier(modifier)}
-                        className="text-red-500 hover:text-red-700"
+                        onClick={addVariant}
+                        className="w-full border-2 border-dashed border-gray-300 text-gray-600 py-2 rounded-lg hover:border-blue-500 hover:text-blue-500 flex items-center justify-center space-x-2"
                       >
-                        <X size={14} />
+                        <Plus size={16} />
+                        <span>Add Size</span>
                       </button>
-                    </span>
+                    </div>
+                  ) : (
+                    <input
+                      type="number"
+                      value={editingItem.stock}
+                      onChange={(e) => setEditingItem({...editingItem, stock: parseInt(e.target.value) || 0})}
+                      placeholder="Stock Quantity"
+                      className="w-full p-3 border border-gray-300 rounded-lg"
+                    />
+                  )}
+                </>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Available
+                </label>
+                <AvailabilityEditor
+                  availability={editingItem.availability}
+                  onChange={(availability) => setEditingItem({...editingItem, availability})}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Shown On
+                </label>
+                <select
+                  value={editingItem.visibility}
+                  onChange={(e) => setEditingItem({...editingItem, visibility: e.target.value as MenuVisibility})}
+                  className="w-full p-3 border border-gray-300 rounded-lg"
+                >
+                  {MENU_VISIBILITIES.map(visibility => (
+                    <option key={visibility} value={visibility}>{MENU_VISIBILITY_LABELS[visibility]}</option>
                   ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Modifier Groups
+                </label>
+                <div className="space-y-3">
+                  {editingItem.modifierGroups.map(group => (
+                    <div key={group.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                      <div className="flex space-x-2">
+                        <input
+                          type="text"
+                          value={group.name}
+                          onChange={(e) => updateModifierGroup(group.id, { name: e.target.value })}
+                          placeholder="Group name, e.g. Spice Level"
+                          className="flex-1 p-2 border border-gray-300 rounded"
+                        />
+                        <button
+                          onClick={() => removeModifierGroup(group.id)}
+                          className="text-red-500 hover:text-red-700 p-1"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                      <div className="flex items-center space-x-2 text-sm">
+                        <label className="flex items-center space-x-1">
+                          <input
+                            type="checkbox"
+                            checked={group.minSelect > 0}
+                            onChange={(e) => updateModifierGroup(group.id, { minSelect: e.target.checked ? 1 : 0 })}
+                          />
+                          <span>Required</span>
+                        </label>
+                        <span className="text-gray-500">Min</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={group.minSelect}
+                          onChange={(e) => updateModifierGroup(group.id, { minSelect: Math.max(0, parseInt(e.target.value) || 0) })}
+                          className="w-14 p-1 border border-gray-300 rounded text-right"
+                        />
+                        <span className="text-gray-500">Max</span>
+                        <input
+                          type="number"
+                          min="1"
+                          value={group.maxSelect}
+                          onChange={(e) => updateModifierGroup(group.id, { maxSelect: Math.max(1, parseInt(e.target.value) || 1) })}
+                          className="w-14 p-1 border border-gray-300 rounded text-right"
+                        />
+                      </div>
+                      {group.options.map(option => (
+                        <div key={option.id} className="flex items-center space-x-2">
+                          <input
+                            type="text"
+                            value={option.name}
+                            onChange={(e) => updateModifierOption(group, option.id, { name: e.target.value })}
+                            placeholder="Option"
+                            className="flex-1 p-1 border border-gray-300 rounded text-sm"
+                          />
+                          <input
+                            type="number"
+                            min="0"
+                            value={option.price}
+                            onChange={(e) => updateModifierOption(group, option.id, { price: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            title="Extra price (Rs.)"
+                            className="w-20 p-1 border border-gray-300 rounded text-sm text-right"
+                          />
+                          <label className="flex items-center space-x-1 text-xs text-gray-600" title="Selected by default">
+                            <input
+                              type="checkbox"
+                              checked={option.isDefault}
+                              onChange={(e) => updateModifierOption(group, option.id, { isDefault: e.target.checked })}
+                            />
+                            <span>Default</span>
+                          </label>
+                          <button
+                            onClick={() => updateModifierGroup(group.id, { options: group.options.filter(other => other.id !== option.id) })}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <X size={14} />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => updateModifierGroup(group.id, {
+                          options: [...group.options, { id: uuidv4(), name: '', price: 0, isDefault: false }]
+                        })}
+                        className="text-sm text-blue-500 hover:text-blue-700 flex items-center space-x-1"
+                      >
+                        <Plus size={14} />
+                        <span>Add Option</span>
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={addModifierGroup}
+                    className="w-full border-2 border-dashed border-gray-300 text-gray-600 py-2 rounded-lg hover:border-blue-500 hover:text-blue-500 flex items-center justify-center space-x-2"
+                  >
+                    <Plus size={16} />
+                    <span>Add Modifier Group</span>
+                  </button>
                 </div>
               </div>
             </div>
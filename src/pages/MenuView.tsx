@@ -1,8 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { BookOpen } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { getAllCategories, getAllMenuItems } from '../utils/database';
-import { Category, MenuItem } from '../types';
+import { getAllCategories, getMenuItemsForSale } from '../utils/database';
+import { getAvailableStock } from '../utils/bundles';
+import { describeGroupRule } from '../utils/modifiers';
+import { hasVariants } from '../utils/variants';
+import { AVAILABILITY_REFRESH_MS, getUnavailableReason } from '../utils/availability';
+import { ALLERGENS, ALLERGEN_LABELS, DIETARY_TAGS, DIETARY_TAG_LABELS, SPICE_LEVEL_LABELS, getMenuItemAllergens } from '../utils/allergens';
+import MenuItemImage from '../components/Menu/MenuItemImage';
+import CategoryTabs from '../components/Menu/CategoryTabs';
+import { getCategoryIdsWithin, getTopLevelCategories, isCategoryVisible, isMenuItemVisible } from '../utils/menuOrder';
+import { usesRecipe } from '../utils/recipes';
+import { Allergen, Category, DietaryTag, MenuItem } from '../types';
 import { motion } from 'framer-motion';
 
 const MenuView: React.FC = () => {
@@ -10,24 +19,41 @@ const MenuView: React.FC = () => {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [isLoading, setIsLoading] = useState(true);
+  // Hide dishes containing these, and show only dishes with all of these tags
+  const [excludedAllergens, setExcludedAllergens] = useState<Allergen[]>([]);
+  const [requiredTags, setRequiredTags] = useState<DietaryTag[]>([]);
 
   useEffect(() => {
     loadData();
+    // Picks up items the kitchen 86'd and menu hours starting or ending
+    const interval = setInterval(refreshMenu, AVAILABILITY_REFRESH_MS);
+    return () => clearInterval(interval);
   }, []);
 
+  const refreshMenu = async () => {
+    try {
+      const [categoriesData, menuData] = await Promise.all([getAllCategories(), getMenuItemsForSale()]);
+      setCategories(categoriesData);
+      setMenuItems(menuData);
+    } catch (error) {
+      console.error('Error refreshing menu:', error);
+    }
+  };
+
   const loadData = async () => {
     setIsLoading(true);
     try {
       const [categoriesData, menuData] = await Promise.all([
         getAllCategories(),
-        getAllMenuItems()
+        getMenuItemsForSale()
       ]);
       
       setCategories(categoriesData);
       setMenuItems(menuData);
       
-      if (categoriesData.length > 0) {
-        setSelectedCategory(categoriesData[0].id);
+      const [firstCategory] = getTopLevelCategories(categoriesData.filter(category => isCategoryVisible(category, categoriesData, 'waiter')));
+      if (firstCategory) {
+        setSelectedCategory(firstCategory.id);
       }
     } catch (error) {
       console.error('Error loading menu data:', error);
@@ -37,10 +63,26 @@ const MenuView: React.FC = () => {
     }
   };
 
-  const filteredMenuItems = menuItems.filter(item => 
-    selectedCategory ? item.categoryId === selectedCategory : true
+  const visibleCategories = categories.filter(category => isCategoryVisible(category, categories, 'waiter'));
+  const filteredMenuItems = menuItems.filter(item =>
+    isMenuItemVisible(item, categories, 'waiter') &&
+    (selectedCategory ? getCategoryIdsWithin(selectedCategory, categories).includes(item.categoryId) : true) &&
+    !getMenuItemAllergens(item, menuItems).some(allergen => excludedAllergens.includes(allergen)) &&
+    requiredTags.every(tag => item.dietaryTags.includes(tag))
   );
 
+  const toggleExcludedAllergen = (allergen: Allergen) => {
+    setExcludedAllergens(excludedAllergens.includes(allergen)
+      ? excludedAllergens.filter(existing => existing !== allergen)
+      : [...excludedAllergens, allergen]);
+  };
+
+  const toggleRequiredTag = (tag: DietaryTag) => {
+    setRequiredTags(requiredTags.includes(tag)
+      ? requiredTags.filter(existing => existing !== tag)
+      : [...requiredTags, tag]);
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -56,66 +98,152 @@ const MenuView: React.FC = () => {
         <h1 className="text-2xl font-bold text-text-primary">Restaurant Menu</h1>
       </div>
 
-      <div className="flex space-x-2 mb-6 overflow-x-auto pb-2">
-        {categories.map(category => (
+      <CategoryTabs
+        categories={visibleCategories}
+        selectedId={selectedCategory}
+        onSelect={setSelectedCategory}
+        variant="theme"
+      />
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <span className="text-sm text-text-secondary">Free from:</span>
+        {ALLERGENS.map(allergen => (
+          <button
+            key={allergen}
+            onClick={() => toggleExcludedAllergen(allergen)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              excludedAllergens.includes(allergen)
+                ? 'bg-red-500 text-white'
+                : 'bg-surface text-text-secondary hover:bg-background'
+            }`}
+          >
+            {ALLERGEN_LABELS[allergen]}
+          </button>
+        ))}
+        <span className="text-sm text-text-secondary ml-4">Only:</span>
+        {DIETARY_TAGS.map(tag => (
           <button
-            key={category.id}
-            onClick={() => setSelectedCategory(category.id)}
-            className={`px-4 py-2 rounded-full whitespace-nowrap transition-all duration-200 text-sm font-medium ${
-              selectedCategory === category.id
-                ? 'bg-primary text-white shadow'
+            key={tag}
+            onClick={() => toggleRequiredTag(tag)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              requiredTags.includes(tag)
+                ? 'bg-green-500 text-white'
                 : 'bg-surface text-text-secondary hover:bg-background'
             }`}
           >
-            {category.name}
+            {DIETARY_TAG_LABELS[tag]}
           </button>
         ))}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-        {filteredMenuItems.map((item, index) => (
-          <motion.div
-            key={item.id}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: index * 0.05 }}
-            className="bg-surface p-6 rounded-lg shadow-sm border border-border-color"
-          >
-            <div className="flex justify-between items-start mb-3">
-              <h3 className="font-bold text-lg text-text-primary">{item.name}</h3>
-              <span className="text-xl font-bold text-primary">Rs. {item.price}</span>
-            </div>
-            
-            <p className="text-text-secondary text-sm mb-4 h-12 line-clamp-2">{item.description}</p>
-            
-            {item.modifiers.length > 0 && (
-              <div className="mb-4">
-                <p className="text-sm font-medium text-text-primary mb-1">Options:</p>
-                <div className="flex flex-wrap gap-2">
-                  {item.modifiers.map(modifier => (
-                    <span
-                      key={modifier}
-                      className="bg-background text-text-secondary text-xs px-2 py-1 rounded-full"
-                    >
-                      {modifier}
+        {filteredMenuItems.map((item, index) => {
+          const available = getAvailableStock(item, menuItems);
+          const allergens = getMenuItemAllergens(item, menuItems);
+          const unavailableReason = getUnavailableReason(item, menuItems, categories, new Date());
+          return (
+            <motion.div
+              key={item.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className={`bg-surface p-6 rounded-lg shadow-sm border border-border-color ${unavailableReason ? 'opacity-50' : ''}`}
+            >
+              <MenuItemImage imageId={item.image} alt={item.name} size="image" className="w-full h-40 rounded-md mb-4" />
+              <div className="flex justify-between items-start mb-3">
+                <h3 className="font-bold text-lg text-text-primary">{item.name}</h3>
+                <span className="text-xl font-bold text-primary">{hasVariants(item) ? 'From ' : ''}Rs. {item.price}</span>
+              </div>
+              
+              <p className="text-text-secondary text-sm mb-4 h-12 line-clamp-2">{item.description}</p>
+
+              {unavailableReason && (
+                <p className="text-sm font-medium text-red-400 mb-4">Unavailable: {unavailableReason}</p>
+              )}
+
+              {(allergens.length > 0 || item.dietaryTags.length > 0 || item.spiceLevel > 0) && (
+                <div className="flex flex-wrap gap-1 mb-4">
+                  {allergens.map(allergen => (
+                    <span key={allergen} className="bg-red-500/10 text-red-400 text-xs px-2 py-1 rounded-full font-medium">
+                      {ALLERGEN_LABELS[allergen]}
+                    </span>
+                  ))}
+                  {item.dietaryTags.map(tag => (
+                    <span key={tag} className="bg-green-500/10 text-green-400 text-xs px-2 py-1 rounded-full font-medium">
+                      {DIETARY_TAG_LABELS[tag]}
                     </span>
                   ))}
+                  {item.spiceLevel > 0 && (
+                    <span className="bg-orange-500/10 text-orange-400 text-xs px-2 py-1 rounded-full font-medium">
+                      {SPICE_LEVEL_LABELS[item.spiceLevel]}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {hasVariants(item) && (
+                <div className="mb-4">
+                  <p className="text-sm font-medium text-text-primary mb-1">Sizes:</p>
+                  <div className="flex flex-wrap gap-2">
+                    {item.variants!.map(variant => (
+                      <span
+                        key={variant.id}
+                        className={`text-xs px-2 py-1 rounded-full ${
+                          variant.stock > 0 ? 'bg-primary/10 text-primary' : 'bg-red-500/10 text-red-400'
+                        }`}
+                      >
+                        {variant.name} Rs. {variant.price} ({variant.stock})
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {item.bundle && item.bundle.length > 0 && (
+                <div className="mb-4">
+                  <p className="text-sm font-medium text-text-primary mb-1">Deal includes:</p>
+                  <ul className="text-sm text-text-secondary">
+                    {item.bundle.map(slot => (
+                      <li key={slot.id}>
+                        {slot.quantity > 1 ? `${slot.quantity}x ` : ''}
+                        {slot.menuItemIds.map(id => menuItems.find(option => option.id === id)?.name).filter(Boolean).join(' or ')}
+                      </li>
+                    ))}
+                  </ul>
                 </div>
+              )}
+
+              {item.modifierGroups.map(group => (
+                <div key={group.id} className="mb-4">
+                  <p className="text-sm font-medium text-text-primary mb-1">
+                    {group.name} <span className="text-xs font-normal text-text-secondary">({describeGroupRule(group)})</span>
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {group.options.map(option => (
+                      <span
+                        key={option.id}
+                        className="bg-background text-text-secondary text-xs px-2 py-1 rounded-full"
+                      >
+                        {option.name}{option.price > 0 ? ` +Rs. ${option.price}` : ''}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <div className="border-t border-border-color pt-3 flex justify-between items-center">
+                  <span className="text-sm text-text-secondary">{usesRecipe(item) ? 'Can Make' : 'In Stock'}</span>
+                  <span className={`text-sm font-medium px-2 py-1 rounded-full ${
+                    available > 10 ? 'bg-green-500/10 text-green-400' :
+                    available > 0 ? 'bg-yellow-500/10 text-yellow-400' :
+                    'bg-red-500/10 text-red-400'
+                  }`}>
+                    {available}
+                  </span>
               </div>
-            )}
-
-            <div className="border-t border-border-color pt-3 flex justify-between items-center">
-                <span className="text-sm text-text-secondary">In Stock</span>
-                <span className={`text-sm font-medium px-2 py-1 rounded-full ${
-                  item.stock > 10 ? 'bg-green-500/10 text-green-400' :
-                  item.stock > 0 ? 'bg-yellow-500/10 text-yellow-400' :
-                  'bg-red-500/10 text-red-400'
-                }`}>
-                  {item.stock}
-                </span>
-            </div>
-          </motion.div>
-        ))}
+            </motion.div>
+          );
+        })}
       </div>
     </div>
   );
@@ -2,12 +2,18 @@ import React, { useState, useEffect } from 'react';
 import { Clock, Eye, Printer, CheckCircle } from 'lucide-react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
-import { getAllOrders, getOrderItems, getAllMenuItems, getAllTables, updateOrder } from '../utils/database';
+import { getAllOrders, getOrderItems, getAllMenuItems, getAllTables, updateOrderStatus } from '../utils/database';
+import { STATUS_LABELS, getAvailableTransitions } from '../utils/orderStateMachine';
+import { ORDER_TYPE_LABELS, formatTaxLine } from '../utils/pricing';
+import { formatComponent } from '../utils/bundles';
+import { formatModifiers } from '../utils/modifiers';
+import { formatItemName } from '../utils/variants';
+import { formatFiscalLine } from '../utils/fbr';
 import { useAuth } from '../contexts/AuthContext';
-import { Order, OrderItem, MenuItem, Table } from '../types';
+import { Order, OrderItem, OrderStatus, MenuItem, Table } from '../types';
 
 interface OrderWithDetails extends Order {
-  items: (OrderItem & { menuItem: MenuItem })[];
+  items: (OrderItem & { menuItem: MenuItem; componentNames: string[] })[];
   table: Table | undefined;
 }
 
@@ -38,7 +44,8 @@ const Orders: React.FC = () => {
           const orderItems = await getOrderItems(order.id);
           const itemsWithDetails = orderItems.map(item => ({
             ...item,
-            menuItem: menuItems.find(mi => mi.id === item.menuItemId)!
+            menuItem: menuItems.find(mi => mi.id === item.menuItemId)!,
+            componentNames: (item.components ?? []).map(component => formatComponent(component, menuItems))
           }));
 
           return {
@@ -63,48 +70,42 @@ const Orders: React.FC = () => {
     }
   };
 
-  const updateOrderStatus = async (orderId: string, status: Order['status']) => {
-    try {
-      const order = orders.find(o => o.id === orderId);
-      if (!order) return;
-
-      const updatedOrder = {
-        ...order,
-        status,
-        updatedAt: new Date()
-      };
+  const changeOrderStatus = async (orderId: string, status: OrderStatus) => {
+    if (!user) return;
 
-      await updateOrder(updatedOrder);
-      toast.success(`Order marked as ${status}`);
+    try {
+      await updateOrderStatus(orderId, status, user);
+      toast.success(`Order marked as ${STATUS_LABELS[status].toLowerCase()}`);
       loadOrders();
     } catch (error) {
       console.error('Error updating order status:', error);
-      toast.error('Failed to update order status');
+      toast.error(error instanceof Error ? error.message : 'Failed to update order status');
     }
   };
 
+  // Voided and refunded items are left off so the lines add up to the total
   const printOrderReceipt = (order: OrderWithDetails) => {
     const receiptContent = `
       RESTAURANT RECEIPT
       ==================
       Order #: ${order.id.slice(0, 8)}
-      Table: ${order.table?.number}
+      Table: ${order.table?.number} (${ORDER_TYPE_LABELS[order.orderType]})
       Date: ${format(new Date(order.createdAt), 'dd/MM/yyyy')}
       Time: ${format(new Date(order.createdAt), 'HH:mm:ss')}
       Status: ${order.status.toUpperCase()}
       
       ITEMS:
-      ${order.items.map(item => 
-        `${item.menuItem.name} x${item.quantity} - Rs. ${item.totalPrice.toFixed(2)}\n${item.modifiers.length > 0 ? `  Modifiers: ${item.modifiers.join(', ')}\n` : ''}`
+      ${order.items.filter(item => !item.voided).map(item => 
+        `${formatItemName(item.menuItem.name, item.variantName)} x${item.quantity} - Rs. ${item.totalPrice.toFixed(2)}\n${item.componentNames.map(name => `  - ${name}\n`).join('')}${item.modifiers.length > 0 ? `  Modifiers: ${formatModifiers(item.modifiers)}\n` : ''}`
       ).join('')}
       
       Subtotal: Rs. ${order.total.toFixed(2)}
-      Tax (16%): Rs. ${order.tax.toFixed(2)}
-      Service (5%): Rs. ${order.serviceCharge.toFixed(2)}
-      Discount: Rs. ${order.discount.toFixed(2)}
+      ${order.taxLines.map(line => `${formatTaxLine(line)}: Rs. ${line.amount.toFixed(2)}`).join('\n      ')}
+      Service Charge: Rs. ${order.serviceCharge.toFixed(2)}
+      ${order.discounts.map(applied => `${applied.name}: -Rs. ${applied.amount.toFixed(2)}`).join('\n      ')}
       
       TOTAL: Rs. ${order.finalTotal.toFixed(2)}
-      
+      ${order.fiscalInvoiceNumber ? formatFiscalLine(order.fiscalInvoiceNumber) : ''}
       Thank you for dining with us!
     `;
 
@@ -138,10 +139,8 @@ const Orders: React.FC = () => {
     }
   };
 
-  const canUpdateStatus = (order: OrderWithDetails) => {
-    if (user?.role === 'admin') return true;
-    if (user?.role === 'cashier' && order.status === 'ready') return true;
-    return false;
+  const getNextStatuses = (order: Order): OrderStatus[] => {
+    return user ? getAvailableTransitions(order, user.role) : [];
   };
 
   if (isLoading) {
@@ -212,76 +211,80 @@ const Orders: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredOrders.map(order => (
-                <tr key={order.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">
-                      #{order.id.slice(0, 8)}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">Table {order.table?.number}</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-gray-900">
-                      {order.items.slice(0, 2).map(item => (
-                        <div key={item.id}>
-                          {item.menuItem.name} x{item.quantity}
-                        </div>
-                      ))}
-                      {order.items.length > 2 && (
-                        <div className="text-gray-500">+{order.items.length - 2} more</div>
-                      )}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">
-                      Rs. {order.finalTotal.toFixed(2)}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(order.status)}`}>
-                      {order.status.replace('-', ' ')}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center space-x-1 text-sm text-gray-500">
-                      <Clock size={16} />
-                      <span>{format(new Date(order.createdAt), 'HH:mm')}</span>
-                    </div>
-                    <div className="text-xs text-gray-400">
-                      {format(new Date(order.createdAt), 'dd/MM/yyyy')}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => setSelectedOrder(order)}
-                        className="text-blue-600 hover:text-blue-900"
-                        title="View Details"
-                      >
-                        <Eye size={16} />
-                      </button>
-                      <button
-                        onClick={() => printOrderReceipt(order)}
-                        className="text-green-600 hover:text-green-900"
-                        title="Print Receipt"
-                      >
-                        <Printer size={16} />
-                      </button>
-                      {canUpdateStatus(order) && order.status === 'ready' && (
+              {filteredOrders.map(order => {
+                const liveItems = order.items.filter(item => !item.voided);
+
+                return (
+                  <tr key={order.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        #{order.id.slice(0, 8)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">Table {order.table?.number}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900">
+                        {liveItems.slice(0, 2).map(item => (
+                          <div key={item.id}>
+                            {formatItemName(item.menuItem.name, item.variantName)} x{item.quantity}
+                          </div>
+                        ))}
+                        {liveItems.length > 2 && (
+                          <div className="text-gray-500">+{liveItems.length - 2} more</div>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        Rs. {order.finalTotal.toFixed(2)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(order.status)}`}>
+                        {order.status.replace('-', ' ')}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center space-x-1 text-sm text-gray-500">
+                        <Clock size={16} />
+                        <span>{format(new Date(order.createdAt), 'HH:mm')}</span>
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {format(new Date(order.createdAt), 'dd/MM/yyyy')}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div className="flex space-x-2">
                         <button
-                          onClick={() => updateOrderStatus(order.id, 'served')}
-                          className="text-purple-600 hover:text-purple-900"
-                          title="Mark as Served"
+                          onClick={() => setSelectedOrder(order)}
+                          className="text-blue-600 hover:text-blue-900"
+                          title="View Details"
                         >
-                          <CheckCircle size={16} />
+                          <Eye size={16} />
                         </button>
-                      )}
-                    </div>
-                  </td>
-                </tr>
-              ))}
+                        <button
+                          onClick={() => printOrderReceipt(order)}
+                          className="text-green-600 hover:text-green-900"
+                          title="Print Receipt"
+                        >
+                          <Printer size={16} />
+                        </button>
+                        {getNextStatuses(order).includes('served') && (
+                          <button
+                            onClick={() => changeOrderStatus(order.id, 'served')}
+                            className="text-purple-600 hover:text-purple-900"
+                            title="Mark as Served"
+                          >
+                            <CheckCircle size={16} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -329,28 +332,65 @@ const Orders: React.FC = () => {
                   <p className="text-sm text-gray-600">Order Time</p>
                   <p className="font-medium">{format(new Date(selectedOrder.createdAt), 'dd/MM/yyyy HH:mm')}</p>
                 </div>
+                {selectedOrder.fiscalInvoiceNumber && (
+                  <div className="col-span-2">
+                    <p className="text-sm text-gray-600">FBR Invoice Number</p>
+                    <p className="font-medium font-mono">{selectedOrder.fiscalInvoiceNumber}</p>
+                  </div>
+                )}
               </div>
 
               <div>
                 <h4 className="font-medium mb-3">Order Items</h4>
                 <div className="space-y-2">
                   {selectedOrder.items.map(item => (
-                    <div key={item.id} className="bg-gray-50 p-3 rounded">
+                    <div key={item.id} className={`bg-gray-50 p-3 rounded ${item.voided ? 'opacity-50' : ''}`}>
                       <div className="flex justify-between">
-                        <span className="font-medium">{item.menuItem.name}</span>
-                        <span>Rs. {item.totalPrice.toFixed(2)}</span>
+                        <span className={`font-medium ${item.voided ? 'line-through' : ''}`}>
+                          {formatItemName(item.menuItem.name, item.variantName)}
+                        </span>
+                        {item.voided
+                          ? <span className="text-xs font-semibold text-red-600">VOID</span>
+                          : <span>Rs. {item.totalPrice.toFixed(2)}</span>}
                       </div>
                       <div className="text-sm text-gray-600">
                         Quantity: {item.quantity} × Rs. {item.price}
                       </div>
+                      {item.componentNames.length > 0 && (
+                        <div className="text-sm text-gray-600">
+                          Includes: {item.componentNames.join(', ')}
+                        </div>
+                      )}
                       {item.modifiers.length > 0 && (
                         <div className="text-sm text-gray-600">
-                          Modifiers: {item.modifiers.join(', ')}
+                          Modifiers: {formatModifiers(item.modifiers)}
+                        </div>
+                      )}
+                      {item.notes && (
+                        <div className="text-sm text-orange-600">
+                          Note: {item.notes}
                         </div>
                       )}
                     </div>
                   ))}
                 </div>
+                {selectedOrder.notes && (
+                  <p className="mt-2 text-sm text-orange-600 whitespace-pre-line">Order notes: {selectedOrder.notes}</p>
+                )}
+              </div>
+
+              <div>
+                <h4 className="font-medium mb-3">Status History</h4>
+                <ol className="space-y-1">
+                  {selectedOrder.statusHistory.map((change, index) => (
+                    <li key={index} className="flex justify-between text-sm">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(change.status)}`}>
+                        {STATUS_LABELS[change.status]}
+                      </span>
+                      <span className="text-gray-600">{format(new Date(change.at), 'dd/MM/yyyy HH:mm:ss')}</span>
+                    </li>
+                  ))}
+                </ol>
               </div>
 
               <div className="border-t pt-4">
@@ -359,20 +399,22 @@ const Orders: React.FC = () => {
                     <span>Subtotal:</span>
                     <span>Rs. {selectedOrder.total.toFixed(2)}</span>
                   </div>
+                  {selectedOrder.taxLines.map(line => (
+                    <div key={line.rateId} className="flex justify-between">
+                      <span>{formatTaxLine(line)}:</span>
+                      <span>Rs. {line.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
                   <div className="flex justify-between">
-                    <span>Tax (16%):</span>
-                    <span>Rs. {selectedOrder.tax.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Service Charge (5%):</span>
+                    <span>Service Charge:</span>
                     <span>Rs. {selectedOrder.serviceCharge.toFixed(2)}</span>
                   </div>
-                  {selectedOrder.discount > 0 && (
-                    <div className="flex justify-between">
-                      <span>Discount:</span>
-                      <span>-Rs. {selectedOrder.discount.toFixed(2)}</span>
+                  {selectedOrder.discounts.map(applied => (
+                    <div key={applied.promotionId ?? applied.name} className="flex justify-between">
+                      <span>{applied.name}:</span>
+                      <span>-Rs. {applied.amount.toFixed(2)}</span>
                     </div>
-                  )}
+                  ))}
                   <div className="flex justify-between font-bold text-lg border-t pt-2">
                     <span>Total:</span>
                     <span>Rs. {selectedOrder.finalTotal.toFixed(2)}</span>
@@ -387,17 +429,23 @@ const Orders: React.FC = () => {
                 >
                   Print Receipt
                 </button>
-                {canUpdateStatus(selectedOrder) && selectedOrder.status === 'ready' && (
+                {getNextStatuses(selectedOrder).map(status => (
                   <button
+                    key={status}
                     onClick={() => {
-                      updateOrderStatus(selectedOrder.id, 'served');
+                      if (status === 'cancelled' && !window.confirm('Are you sure you want to cancel this order?')) return;
+                      changeOrderStatus(selectedOrder.id, status);
                       setSelectedOrder(null);
                     }}
-                    className="flex-1 bg-purple-500 text-white py-2 rounded-lg hover:bg-purple-600"
+                    className={`flex-1 text-white py-2 rounded-lg ${
+                      status === 'cancelled'
+                        ? 'bg-red-500 hover:bg-red-600'
+                        : 'bg-purple-500 hover:bg-purple-600'
+                    }`}
                   >
-                    Mark as Served
+                    {status === 'cancelled' ? 'Cancel Order' : `Mark as ${STATUS_LABELS[status]}`}
                   </button>
-                )}
+                ))}
               </div>
             </div>
           </div>
@@ -1,17 +1,64 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Minus, ShoppingCart, Trash2, CreditCard, Banknote, X } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Minus, ShoppingCart, Trash2, X, Receipt, Split, Ban, Undo2, Tag } from 'lucide-react';
+import { startOfDay, endOfDay } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
 import toast from 'react-hot-toast';
-import { getAllCategories, getAllMenuItems, getAllTables, createOrder, createOrderItem, createPayment, updateMenuItem } from '../utils/database';
+import { getAllCategories, getMenuItemsForSale, getAllTables, checkoutOrder, getUnpaidOrders, getOrdersBetween, getOrder, getOrderItems, getPaymentsByOrderId, settleOrder, voidOrderItems, refundOrder, getTaxSettings, repriceOrder, getFbrSettings, getAllPromotions, getDiscountSettings, updateOrderDiscounts } from '../utils/database';
 import { useNotifications } from '../contexts/NotificationContext';
 import { useAuth } from '../contexts/AuthContext';
-import { Category, MenuItem, Table } from '../types';
+import { STATUS_LABELS, createStatusHistory } from '../utils/orderStateMachine';
+import { SplitShare, getAmountPaid, getRemainingBalance } from '../utils/splitBill';
+import { TenderBreakdown, buildPayment, createExactTender, getPaymentMethod } from '../utils/tenders';
+import { DEFAULT_TAX_SETTINGS, ORDER_TYPE_LABELS, OrderTotals, PricingContext, calculateOrderTotals, dependsOnPaymentMethod, formatTaxLine } from '../utils/pricing';
+import SplitBillModal from '../components/POS/SplitBillModal';
+import PaymentModal from '../components/POS/PaymentModal';
+import AdjustmentModal, { AdjustmentRequest } from '../components/POS/AdjustmentModal';
+import DiscountModal from '../components/POS/DiscountModal';
+import BundleModal from '../components/POS/BundleModal';
+import MenuItemImage from '../components/Menu/MenuItemImage';
+import CategoryTabs from '../components/Menu/CategoryTabs';
+import { getCategoryIdsWithin, getTopLevelCategories, isCategoryVisible, isMenuItemVisible } from '../utils/menuOrder';
+import { usesRecipe } from '../utils/recipes';
+import { ADJUSTMENT_REASONS } from '../utils/adjustments';
+import { formatFiscalLine } from '../utils/fbr';
+import { DEFAULT_DISCOUNT_SETTINGS, calculateDiscounts, exceedsManualLimit, findCouponPromotion, getDiscountTotal } from '../utils/promotions';
+import { reportOrderToFbr } from '../utils/fiscalSync';
+import { describeGroupRule, formatModifiers, getDefaultModifiers, getModifiersPrice, isSameModifiers, toggleModifier as toggleModifierOption, validateModifiers } from '../utils/modifiers';
+import { formatItemName, getBasePrice, getOrderItemName, getVariant, hasVariants } from '../utils/variants';
+import { formatComponent, getAvailableStock, getDefaultComponents, hasStockFor, isBundle, isSameSelection, needsBundleChoice } from '../utils/bundles';
+import { AVAILABILITY_REFRESH_MS, getUnavailableReason } from '../utils/availability';
+import { Category, MenuItem, Table, Order, OrderItem, OrderType, Payment, TaxSettings, TenderMethod, AppliedDiscount, DiscountSettings, ManualDiscount, Promotion, BundleComponent, ModifierGroup, SelectedModifier } from '../types';
 
 interface CartItem extends MenuItem {
+  lineId: string;
+  variantId?: string;
   quantity: number;
-  selectedModifiers: string[];
+  selectedModifiers: SelectedModifier[];
+  components?: BundleComponent[];
+  notes: string;
 }
 
+const getUnitPrice = (item: CartItem) => getBasePrice(item, item.variantId) + getModifiersPrice(item.selectedModifiers);
+
+const getStockLines = (cart: CartItem[]) => {
+  return cart.map(item => ({ menuItemId: item.id, variantId: item.variantId, quantity: item.quantity, components: item.components }));
+};
+
+interface OpenBill {
+  order: Order;
+  items: OrderItem[];
+  payments: Payment[];
+}
+
+const openPrintWindow = (content: string) => {
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(`<pre>${content}</pre>`);
+    printWindow.print();
+    printWindow.close();
+  }
+};
+
 const POSSystem: React.FC = () => {
   const [categories, setCategories] = useState<Category[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
@@ -20,116 +67,363 @@ const POSSystem: React.FC = () => {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [selectedTable, setSelectedTable] = useState<string>('');
   const [showPayment, setShowPayment] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card'>('cash');
-  const [discount, setDiscount] = useState(0);
+  const [couponCode, setCouponCode] = useState<string | undefined>();
+  const [orderNotes, setOrderNotes] = useState('');
+  const [couponInput, setCouponInput] = useState('');
+  const [manualDiscount, setManualDiscount] = useState<ManualDiscount | undefined>();
+  const [showDiscount, setShowDiscount] = useState(false);
+  const [pendingBundle, setPendingBundle] = useState<MenuItem | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [view, setView] = useState<'menu' | 'bills' | 'paid'>('menu');
+  const [unpaidOrders, setUnpaidOrders] = useState<Order[]>([]);
+  const [paidOrders, setPaidOrders] = useState<Order[]>([]);
+  const [adjustment, setAdjustment] = useState<{ mode: 'void' | 'refund'; itemIds: string[] } | null>(null);
+  const [openBill, setOpenBill] = useState<OpenBill | null>(null);
+  const [showSplit, setShowSplit] = useState(false);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
+  const [orderType, setOrderType] = useState<OrderType>('dine-in');
+  const [pricingMethod, setPricingMethod] = useState<TenderMethod>('cash');
+  const [fbrEnabled, setFbrEnabled] = useState(false);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [discountSettings, setDiscountSettings] = useState<DiscountSettings>(DEFAULT_DISCOUNT_SETTINGS);
   
   const { addNotification } = useNotifications();
   const { user } = useAuth();
 
-  useEffect(() => {
-    loadData();
+  const refreshMenu = useCallback(async () => {
+    try {
+      const [categoriesData, menuData] = await Promise.all([getAllCategories(), getMenuItemsForSale()]);
+      setCategories(categoriesData);
+      setMenuItems(menuData);
+    } catch (error) {
+      console.error('Error refreshing menu:', error);
+    }
   }, []);
 
-  const loadData = async () => {
+  const loadData = useCallback(async () => {
     try {
-      const [categoriesData, menuData, tablesData] = await Promise.all([
+      const [categoriesData, menuData, tablesData, unpaidData, todaysOrders, taxData, fbrData, promotionsData, discountData] = await Promise.all([
         getAllCategories(),
-        getAllMenuItems(),
-        getAllTables()
+        getMenuItemsForSale(),
+        getAllTables(),
+        getUnpaidOrders(),
+        getOrdersBetween(startOfDay(new Date()), endOfDay(new Date())),
+        getTaxSettings(),
+        getFbrSettings(),
+        getAllPromotions(),
+        getDiscountSettings()
       ]);
       
+      setTaxSettings(taxData);
+      setFbrEnabled(fbrData.enabled);
+      setPromotions(promotionsData);
+      setDiscountSettings(discountData);
       setCategories(categoriesData);
       setMenuItems(menuData);
-      setTables(tablesData.filter(table => table.status === 'available'));
+      setTables(tablesData);
+      setUnpaidOrders(unpaidData);
+      setPaidOrders(todaysOrders
+        .filter(order => order.paymentStatus === 'paid' || order.paymentStatus === 'refunded')
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
       
-      if (categoriesData.length > 0) {
-        setSelectedCategory(categoriesData[0].id);
+      const [firstCategory] = getTopLevelCategories(categoriesData.filter(category => isCategoryVisible(category, categoriesData, 'pos')));
+      if (firstCategory) {
+        setSelectedCategory(current => current || firstCategory.id);
       }
     } catch (error) {
       console.error('Error loading data:', error);
       toast.error('Failed to load data');
     }
-  };
+  }, []);
 
-  const filteredMenuItems = menuItems.filter(item => 
-    selectedCategory ? item.categoryId === selectedCategory : true
+  useEffect(() => {
+    loadData();
+    // Picks up items the kitchen 86'd and menu hours starting or ending
+    const interval = setInterval(refreshMenu, AVAILABILITY_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [loadData, refreshMenu]);
+
+  const visibleCategories = categories.filter(category => isCategoryVisible(category, categories, 'pos'));
+  const filteredMenuItems = menuItems.filter(item =>
+    isMenuItemVisible(item, categories, 'pos') &&
+    (selectedCategory ? getCategoryIdsWithin(selectedCategory, categories).includes(item.categoryId) : true)
   );
 
-  const addToCart = (item: MenuItem) => {
-    if (item.stock <= 0) {
-      toast.error('Item out of stock');
-      return;
+  const availableTables = tables.filter(table => table.status === 'available');
+  const listedOrders = view === 'paid' ? paidOrders : unpaidOrders;
+
+  const getTableNumber = (tableId: string) => {
+    return tables.find(table => table.id === tableId)?.number ?? '?';
+  };
+
+  const loadBill = async (order: Order) => {
+    try {
+      const [items, payments] = await Promise.all([
+        getOrderItems(order.id),
+        getPaymentsByOrderId(order.id)
+      ]);
+      setOpenBill({ order, items, payments });
+      setCart([]);
+      resetDiscounts();
+    } catch (error) {
+      console.error('Error loading bill:', error);
+      toast.error('Failed to load bill');
     }
+  };
 
-    const existingItem = cart.find(cartItem => cartItem.id === item.id);
-    
-    if (existingItem) {
-      if (existingItem.quantity >= item.stock) {
-        toast.error('Cannot add more than available stock');
-        return;
-      }
-      setCart(cart.map(cartItem =>
-        cartItem.id === item.id
-          ? { ...cartItem, quantity: cartItem.quantity + 1 }
-          : cartItem
-      ));
+  // Re-reads the open bill after a void or refund; closes it if the order is gone
+  const reloadBill = async (orderId: string) => {
+    const order = await getOrder(orderId);
+    if (order && order.status !== 'cancelled') {
+      await loadBill(order);
     } else {
-      setCart([...cart, { ...item, quantity: 1, selectedModifiers: [] }]);
+      setOpenBill(null);
     }
-    toast.success(`${item.name} added to cart`);
+    loadData();
   };
 
-  const updateQuantity = (itemId: string, change: number) => {
-    setCart(cart.map(item => {
-      if (item.id === itemId) {
-        const newQuantity = Math.max(0, item.quantity + change);
-        if (newQuantity > item.stock) {
-          toast.error('Cannot exceed available stock');
-          return item;
-        }
-        return { ...item, quantity: newQuantity };
+  const isSettledBill = openBill?.order.paymentStatus === 'paid' || openBill?.order.paymentStatus === 'refunded';
+
+  // Bills can be re-priced or discounted until the first payment is taken
+  const canReprice = !!openBill && !isSettledBill && openBill.payments.length === 0;
+
+  const handleAdjustment = async (request: AdjustmentRequest) => {
+    if (!openBill || !adjustment) return;
+
+    setIsProcessing(true);
+
+    try {
+      const { order } = openBill;
+      if (adjustment.mode === 'void') {
+        await voidOrderItems(order.id, request.orderItemIds, request.approval, request.manager);
+        toast.success(`${request.orderItemIds.length} item${request.orderItemIds.length === 1 ? '' : 's'} voided`);
+      } else {
+        const refund = await refundOrder(order.id, {
+          amount: request.amount,
+          orderItemIds: request.orderItemIds,
+          method: request.method,
+        }, request.approval, uuidv4());
+        printRefundReceipt(order, refund, request.manager.name);
+        toast.success(`Refunded Rs. ${request.amount.toFixed(2)}`);
       }
-      return item;
-    }).filter(item => item.quantity > 0));
+
+      setAdjustment(null);
+      await reloadBill(order.id);
+    } catch (error) {
+      console.error('Error adjusting order:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to adjust order');
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  const removeFromCart = (itemId: string) => {
-    setCart(cart.filter(item => item.id !== itemId));
+  // Items with sizes are added from their size buttons with `variantId`
+  const addToCart = (item: MenuItem, variantId?: string) => {
+    if (hasVariants(item) && !variantId) return;
+
+    const unavailableReason = getUnavailableReason(item, menuItems, categories, new Date());
+    if (unavailableReason) {
+      toast.error(`${item.name} is unavailable (${unavailableReason})`);
+      return;
+    }
+
+    if (getAvailableStock(item, menuItems) <= 0) {
+      toast.error('Item out of stock');
+      return;
+    }
+
+    if (needsBundleChoice(item, menuItems)) {
+      setPendingBundle(item);
+      return;
+    }
+    addLine(item, isBundle(item) ? getDefaultComponents(item, menuItems) : undefined, variantId);
   };
 
-  const toggleModifier = (itemId: string, modifier: string) => {
-    setCart(cart.map(item => {
-      if (item.id === itemId) {
-        const modifiers = item.selectedModifiers.includes(modifier)
-          ? item.selectedModifiers.filter(m => m !== modifier)
-          : [...item.selectedModifiers, modifier];
-        return { ...item, selectedModifiers: modifiers };
-      }
-      return item;
-    }));
+  // Deals with different picks, or items with different sizes or modifiers, go on separate lines
+  const addLine = (item: MenuItem, components?: BundleComponent[], variantId?: string) => {
+    const selectedModifiers = getDefaultModifiers(item);
+    const existingItem = cart.find(cartItem =>
+      cartItem.id === item.id &&
+      cartItem.variantId === variantId &&
+      isSameSelection(cartItem.components, components) &&
+      isSameModifiers(cartItem.selectedModifiers, selectedModifiers)
+    );
+    const newCart = existingItem
+      ? cart.map(cartItem =>
+          cartItem.lineId === existingItem.lineId
+            ? { ...cartItem, quantity: cartItem.quantity + 1 }
+            : cartItem
+        )
+      : [...cart, { ...item, lineId: uuidv4(), variantId, quantity: 1, selectedModifiers, components, notes: '' }];
+
+    if (!hasStockFor(getStockLines(newCart), menuItems)) {
+      toast.error('Cannot add more than available stock');
+      return;
+    }
+    setCart(newCart);
+    toast.success(`${formatItemName(item.name, getVariant(item, variantId)?.name)} added to cart`);
+  };
+
+  const updateQuantity = (lineId: string, change: number) => {
+    const newCart = cart.map(item =>
+      item.lineId === lineId ? { ...item, quantity: Math.max(0, item.quantity + change) } : item
+    );
+    if (change > 0 && !hasStockFor(getStockLines(newCart), menuItems)) {
+      toast.error('Cannot exceed available stock');
+      return;
+    }
+    setCart(newCart.filter(item => item.quantity > 0));
   };
 
-  const calculateSubtotal = () => {
-    return cart.reduce((total, item) => total + (item.price * item.quantity), 0);
+  const removeFromCart = (lineId: string) => {
+    setCart(cart.filter(item => item.lineId !== lineId));
   };
 
-  const calculateTax = () => {
-    return calculateSubtotal() * 0.16; // 16% tax
+  const toggleModifier = (lineId: string, group: ModifierGroup, optionId: string) => {
+    setCart(cart.map(item => item.lineId === lineId
+      ? { ...item, selectedModifiers: toggleModifierOption(item.selectedModifiers, group, optionId) }
+      : item
+    ));
   };
 
-  const calculateServiceCharge = () => {
-    return calculateSubtotal() * 0.05; // 5% service charge
+  const updateNotes = (lineId: string, notes: string) => {
+    setCart(cart.map(item => item.lineId === lineId ? { ...item, notes } : item));
+  };
+
+  // Tax rules keyed on payment method need to know the tender before the total is shown
+  const isPricedByPaymentMethod = dependsOnPaymentMethod(taxSettings);
+
+  const getPricingContext = (): PricingContext => ({
+    orderType,
+    paymentMethod: isPricedByPaymentMethod ? pricingMethod : undefined,
+  });
+
+  const cartLines = cart.map(item => ({ menuItemId: item.id, quantity: item.quantity, totalPrice: getUnitPrice(item) * item.quantity }));
+  const cartSubtotal = cartLines.reduce((sum, line) => sum + line.totalPrice, 0);
+  const cartDiscounts = calculateDiscounts(cartLines, promotions, menuItems, { at: new Date(), couponCode, manualDiscount });
+  const cartTotals = {
+    ...calculateOrderTotals(cartLines, getPricingContext(), { settings: taxSettings, menuItems, categories }, getDiscountTotal(cartDiscounts)),
+    discounts: cartDiscounts,
+  };
+
+  const totals: OrderTotals & { discounts: AppliedDiscount[] } = openBill ? openBill.order : cartTotals;
+
+  // A fixed discount given on a bigger cart can end up above the new subtotal or the
+  // cashier's limit; it is dropped so it can be entered again for the new total
+  useEffect(() => {
+    if (manualDiscount?.type !== 'fixed' || !user || cartSubtotal === 0) return;
+    if (manualDiscount.value > cartSubtotal ||
+      (!manualDiscount.approvedBy && exceedsManualLimit(discountSettings, user.role, manualDiscount, cartSubtotal))) {
+      setManualDiscount(undefined);
+      toast.error('The manual discount no longer fits the order and was removed');
+    }
+  }, [manualDiscount, cartSubtotal, discountSettings, user]);
+
+  const resetDiscounts = () => {
+    setCouponCode(undefined);
+    setCouponInput('');
+    setManualDiscount(undefined);
+  };
+
+  const canDiscount = !openBill || canReprice;
+
+  // Coupons and manual discounts are kept on the cart until checkout, or saved
+  // straight onto an open bill
+  const changeDiscounts = async (discounts: { couponCode?: string; manualDiscount?: ManualDiscount }) => {
+    if (!openBill) {
+      setCouponCode(discounts.couponCode);
+      setManualDiscount(discounts.manualDiscount);
+      return true;
+    }
+    if (!user) return false;
+
+    setIsProcessing(true);
+    try {
+      const order = await updateOrderDiscounts(openBill.order.id, discounts, user);
+      setOpenBill({ ...openBill, order });
+      loadData();
+      return true;
+    } catch (error) {
+      console.error('Error updating discounts:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update discounts');
+      return false;
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const currentDiscounts = openBill
+    ? { couponCode: openBill.order.couponCode, manualDiscount: openBill.order.manualDiscount }
+    : { couponCode, manualDiscount };
+
+  const applyCoupon = async () => {
+    const promotion = findCouponPromotion(promotions, couponInput);
+    if (!promotion) {
+      toast.error('Coupon not recognised');
+      return;
+    }
+    if (await changeDiscounts({ ...currentDiscounts, couponCode: couponInput.trim().toUpperCase() })) {
+      setCouponInput('');
+      toast.success(`${promotion.name} applied`);
+    }
+  };
+
+  const applyManualDiscount = async (discount: ManualDiscount | undefined) => {
+    if (await changeDiscounts({ ...currentDiscounts, manualDiscount: discount })) {
+      setShowDiscount(false);
+    }
   };
 
   const calculateTotal = () => {
-    const subtotal = calculateSubtotal();
-    const tax = calculateTax();
-    const serviceCharge = calculateServiceCharge();
-    return subtotal + tax + serviceCharge - discount;
+    if (openBill) return getRemainingBalance(openBill.order, openBill.payments);
+    return cartTotals.finalTotal;
   };
 
-  const processOrder = async () => {
+  const billPricing: PricingContext = openBill
+    ? { orderType: openBill.order.orderType, paymentMethod: openBill.order.paymentMethod }
+    : getPricingContext();
+
+  // Changes the order type or tender the bill is priced for
+  const changePricing = async (context: PricingContext) => {
+    if (!openBill) {
+      setOrderType(context.orderType);
+      if (context.paymentMethod) setPricingMethod(context.paymentMethod);
+      return;
+    }
+
+    try {
+      const order = await repriceOrder(openBill.order.id, context);
+      setOpenBill({ ...openBill, order });
+      loadData();
+    } catch (error) {
+      console.error('Error re-pricing order:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to re-price order');
+    }
+  };
+
+  // Payment-method tax rules only hold if the bill is paid the way it was priced
+  const checkPricedTender = (breakdown: TenderBreakdown): boolean => {
+    const pricedFor = billPricing.paymentMethod;
+    if (!pricedFor || getPaymentMethod(breakdown.tenders) === pricedFor) return true;
+    toast.error(`This bill is priced for ${pricedFor} payment; change "Paying by" to re-price it`);
+    return false;
+  };
+
+  // Reports a fully paid bill to FBR and returns the line to print on its receipt
+  const reportSale = async (orderId: string): Promise<string> => {
+    try {
+      const invoiceNumber = await reportOrderToFbr(orderId);
+      if (!invoiceNumber) {
+        toast.error('FBR could not be reached; the invoice will be reported automatically');
+      }
+      return formatFiscalLine(invoiceNumber);
+    } catch (error) {
+      toast.error(`FBR rejected the invoice: ${error instanceof Error ? error.message : error}. It is listed in Settings.`);
+      return formatFiscalLine();
+    }
+  };
+
+  const processOrder = async (breakdown: TenderBreakdown) => {
     if (cart.length === 0) {
       toast.error('Cart is empty');
       return;
@@ -140,62 +434,57 @@ const POSSystem: React.FC = () => {
       return;
     }
 
+    const modifierProblem = cart.map(item => validateModifiers(item, item.selectedModifiers)).find(Boolean);
+    if (modifierProblem) {
+      toast.error(modifierProblem);
+      return;
+    }
+
+    if (!checkPricedTender(breakdown)) return;
+
     setIsProcessing(true);
 
     try {
       const orderId = uuidv4();
-      const subtotal = calculateSubtotal();
-      const tax = calculateTax();
-      const serviceCharge = calculateServiceCharge();
-      const finalTotal = calculateTotal();
 
-      // Create order
-      const order = {
+      const order: Order = {
         id: orderId,
         tableId: selectedTable,
         waiterId: user?.id || '',
-        status: 'pending' as const,
-        total: subtotal,
-        discount,
-        tax,
-        serviceCharge,
-        finalTotal,
+        status: 'pending',
+        statusHistory: createStatusHistory(user?.id || ''),
+        paymentStatus: 'paid',
+        ...getPricingContext(),
+        ...cartTotals,
+        couponCode,
+        manualDiscount,
+        notes: orderNotes.trim() || undefined,
         createdAt: new Date(),
         updatedAt: new Date(),
+        closedAt: new Date(),
       };
 
-      await createOrder(order);
-
-      // Create order items and update stock
-      for (const item of cart) {
-        const orderItem = {
-          id: uuidv4(),
-          orderId,
-          menuItemId: item.id,
-          quantity: item.quantity,
-          price: item.price,
-          modifiers: item.selectedModifiers,
-          totalPrice: item.price * item.quantity,
-        };
-
-        await createOrderItem(orderItem);
-
-        // Update stock
-        const updatedItem = {
-          ...item,
-          stock: item.stock - item.quantity,
-        };
-        await updateMenuItem(updatedItem);
-      }
-
-      // Create payment
-      await createPayment({
+      const orderItems: OrderItem[] = cart.map(item => ({
         id: uuidv4(),
         orderId,
-        method: paymentMethod,
-        amount: finalTotal,
-        paidAt: new Date(),
-      });
+        menuItemId: item.id,
+        variantId: item.variantId,
+        variantName: getVariant(item, item.variantId)?.name,
+        quantity: item.quantity,
+        price: getUnitPrice(item),
+        modifiers: item.selectedModifiers,
+        components: item.components,
+        notes: item.notes.trim() || undefined,
+        totalPrice: getUnitPrice(item) * item.quantity,
+        ticket: 1,
+      }));
+
+      // Order, items, stock and payment are written together or not at all
+      const payment = buildPayment(orderId, order.waiterId, breakdown);
+      await checkoutOrder(order, orderItems, payment);
+      if (fbrEnabled) {
+        printReceipt(breakdown, await reportSale(orderId), orderId);
+      }
 
       // Send notification to kitchen
       addNotification({
@@ -207,303 +496,757 @@ const POSSystem: React.FC = () => {
 
       // Reset form
       setCart([]);
+      setOrderNotes('');
       setSelectedTable('');
-      setDiscount(0);
+      resetDiscounts();
+      setOrderType('dine-in');
       setShowPayment(false);
       
-      toast.success('Order processed successfully!');
+      toast.success(payment.changeGiven > 0
+        ? `Order processed. Change due: Rs. ${payment.changeGiven.toFixed(2)}`
+        : 'Order processed successfully!');
       loadData(); // Refresh data to update stock
       
     } catch (error) {
       console.error('Error processing order:', error);
-      toast.error('Failed to process order');
+      toast.error(error instanceof Error ? error.message : 'Failed to process order');
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const printReceipt = () => {
+  const settleBill = async (breakdown: TenderBreakdown) => {
+    if (!openBill || !user) return;
+    if (!checkPricedTender(breakdown)) return;
+
+    setIsProcessing(true);
+
+    try {
+      const { order } = openBill;
+      const payment = buildPayment(order.id, order.waiterId, breakdown);
+      const settledOrder = await settleOrder(order.id, payment, user);
+      if (fbrEnabled && settledOrder.paymentStatus === 'paid') {
+        printReceipt(breakdown, await reportSale(order.id));
+      }
+
+      setOpenBill(null);
+      setShowPayment(false);
+
+      toast.success(payment.changeGiven > 0
+        ? `Table ${getTableNumber(order.tableId)} settled. Change due: Rs. ${payment.changeGiven.toFixed(2)}`
+        : `Table ${getTableNumber(order.tableId)} settled`);
+      loadData(); // Refresh open bills and table status
+
+    } catch (error) {
+      console.error('Error settling bill:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to settle bill');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Records one guest's share of a split bill and prints their receipt
+  const paySplitShare = async (share: SplitShare, method: TenderMethod): Promise<boolean> => {
+    if (!openBill || !user) return false;
+    if (!checkPricedTender(createExactTender(method, share.amount))) return false;
+
+    setIsProcessing(true);
+
+    try {
+      const payment: Payment = {
+        ...buildPayment(openBill.order.id, openBill.order.waiterId, createExactTender(method, share.amount)),
+        label: share.label,
+        orderItemIds: share.orderItemIds,
+      };
+      const order = await settleOrder(openBill.order.id, payment, user);
+      const payments = [...openBill.payments, payment];
+
+      const fiscalLine = fbrEnabled && order.paymentStatus === 'paid' ? await reportSale(order.id) : '';
+      printSplitReceipt(order, share, payment, payments, fiscalLine);
+
+      if (order.paymentStatus === 'paid') {
+        setOpenBill(null);
+        setShowSplit(false);
+        toast.success(`Table ${getTableNumber(order.tableId)} settled`);
+        loadData();
+      } else {
+        setOpenBill({ ...openBill, order, payments });
+        toast.success(`${share.label} paid`);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error paying split share:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to take payment');
+      return false;
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const printSplitReceipt = (order: Order, share: SplitShare, payment: Payment, payments: Payment[], fiscalLine: string) => {
+    const lines = openBill?.items.filter(item => share.orderItemIds.includes(item.id)) ?? [];
+
     const receiptContent = `
       RESTAURANT RECEIPT
       ==================
-      Order #: ${Date.now().toString().slice(-6)}
-      Table: ${selectedTable}
+      Order #: ${order.id.slice(0, 8)}
+      Table: ${getTableNumber(order.tableId)}
+      Date: ${new Date().toLocaleDateString()}
+      Time: ${new Date().toLocaleTimeString()}
+
+      SPLIT BILL - ${share.label.toUpperCase()}
+      ${lines.length > 0 ? `
+      ITEMS:
+      ${lines.map(item => `${getOrderItemName(item, menuItems)} x${item.quantity} - Rs. ${item.totalPrice.toFixed(2)}\n`).join('')}` : ''}
+      Bill Total: Rs. ${order.finalTotal.toFixed(2)}
+      THIS SHARE: Rs. ${payment.amount.toFixed(2)}
+      Balance Remaining: Rs. ${getRemainingBalance(order, payments).toFixed(2)}
+
+      Payment: ${payment.method.toUpperCase()}
+      ${fiscalLine}
+
+      Thank you for dining with us!
+    `;
+
+    openPrintWindow(receiptContent);
+  };
+
+  const printRefundReceipt = (order: Order, refund: Payment, managerName: string) => {
+    const lines = openBill?.items.filter(item => refund.orderItemIds?.includes(item.id)) ?? [];
+
+    const receiptContent = `
+      RESTAURANT REFUND
+      =================
+      Order #: ${order.id.slice(0, 8)}
+      Table: ${getTableNumber(order.tableId)}
+      Date: ${new Date().toLocaleDateString()}
+      Time: ${new Date().toLocaleTimeString()}
+      ${lines.length > 0 ? `
+      ITEMS RETURNED:
+      ${lines.map(item => `${getOrderItemName(item, menuItems)} x${item.quantity}\n`).join('')}` : ''}
+      REFUND: Rs. ${Math.abs(refund.amount).toFixed(2)}
+      Method: ${refund.method.toUpperCase()}
+      Reason: ${refund.refund ? ADJUSTMENT_REASONS[refund.refund.reason] : ''}
+      Approved by: ${managerName}
+    `;
+
+    openPrintWindow(receiptContent);
+  };
+
+  // `fiscalLine` is only passed once the bill is paid and has been reported to FBR;
+  // `orderId` once a new order has been placed
+  const printReceipt = (breakdown: TenderBreakdown, fiscalLine: string = '', orderId?: string) => {
+    const receiptLines = openBill
+      ? openBill.items.filter(item => !item.voided).map(item => ({
+          name: getOrderItemName(item, menuItems),
+          quantity: item.quantity,
+          totalPrice: item.totalPrice,
+          modifiers: item.modifiers,
+          components: item.components ?? [],
+        }))
+      : cart.map(item => ({
+          name: formatItemName(item.name, getVariant(item, item.variantId)?.name),
+          quantity: item.quantity,
+          totalPrice: getUnitPrice(item) * item.quantity,
+          modifiers: item.selectedModifiers,
+          components: item.components ?? [],
+        }));
+    const orderNumber = (openBill?.order.id ?? orderId)?.slice(0, 8);
+    const tableId = openBill ? openBill.order.tableId : selectedTable;
+
+    const receiptContent = `
+      RESTAURANT RECEIPT
+      ==================
+      ${orderNumber ? `Order #: ${orderNumber}\n      ` : ''}Table: ${getTableNumber(tableId)}
       Date: ${new Date().toLocaleDateString()}
       Time: ${new Date().toLocaleTimeString()}
       
       ITEMS:
-      ${cart.map(item => 
-        `${item.name} x${item.quantity} - Rs. ${(item.price * item.quantity).toFixed(2)}\n${item.selectedModifiers.length > 0 ? `  Modifiers: ${item.selectedModifiers.join(', ')}\n` : ''}`
+      ${receiptLines.map(line => 
+        `${line.name} x${line.quantity} - Rs. ${line.totalPrice.toFixed(2)}\n${line.components.map(component => `  - ${formatComponent(component, menuItems)}\n`).join('')}${line.modifiers.length > 0 ? `  Modifiers: ${formatModifiers(line.modifiers)}\n` : ''}`
       ).join('')}
       
-      Subtotal: Rs. ${calculateSubtotal().toFixed(2)}
-      Tax (16%): Rs. ${calculateTax().toFixed(2)}
-      Service (5%): Rs. ${calculateServiceCharge().toFixed(2)}
-      Discount: Rs. ${discount.toFixed(2)}
-      
-      TOTAL: Rs. ${calculateTotal().toFixed(2)}
-      
-      Payment: ${paymentMethod.toUpperCase()}
+      Subtotal: Rs. ${totals.total.toFixed(2)}
+      ${totals.taxLines.map(line => `${formatTaxLine(line)}: Rs. ${line.amount.toFixed(2)}`).join('\n      ')}
+      Service Charge: Rs. ${totals.serviceCharge.toFixed(2)}
+      ${totals.discounts.map(applied => `${applied.name}: -Rs. ${applied.amount.toFixed(2)}`).join('\n      ')}
       
+      TOTAL: Rs. ${totals.finalTotal.toFixed(2)}
+      ${openBill && openBill.payments.length > 0 ? `Already Paid: Rs. ${getAmountPaid(openBill.payments).toFixed(2)}
+      BALANCE DUE: Rs. ${calculateTotal().toFixed(2)}
+      ` : ''}
+      ${breakdown.tip > 0 ? `Tip: Rs. ${breakdown.tip.toFixed(2)}\n      ` : ''}${breakdown.tenders.map(tender =>
+        `${tender.method.toUpperCase()}: Rs. ${tender.tendered.toFixed(2)}`
+      ).join('\n      ')}
+      Change: Rs. ${breakdown.changeDue.toFixed(2)}
+      ${fiscalLine}
       Thank you for dining with us!
     `;
 
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      printWindow.document.write(`<pre>${receiptContent}</pre>`);
-      printWindow.print();
-      printWindow.close();
-    }
+    openPrintWindow(receiptContent);
   };
 
   return (
     <div className="flex h-full">
       {/* Menu Section */}
       <div className="flex-1 p-6">
-        <h1 className="text-2xl font-bold mb-6">POS System</h1>
-        
-        {/* Categories */}
-        <div className="flex space-x-2 mb-6 overflow-x-auto">
-          {categories.map(category => (
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold">POS System</h1>
+          <div className="flex space-x-2">
             <button
-              key={category.id}
-              onClick={() => setSelectedCategory(category.id)}
-              className={`px-4 py-2 rounded-lg whitespace-nowrap transition-colors ${
-                selectedCategory === category.id
+              onClick={() => {
+                setView('menu');
+                setOpenBill(null);
+              }}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                view === 'menu'
                   ? 'bg-blue-500 text-white'
                   : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
               }`}
             >
-              {category.name}
+              New Order
             </button>
-          ))}
-        </div>
-
-        {/* Menu Items Grid */}
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-          {filteredMenuItems.map(item => (
-            <div
-              key={item.id}
-              className={`bg-white p-4 rounded-lg shadow border cursor-pointer transition-all hover:shadow-md ${
-                item.stock <= 0 ? 'opacity-50' : ''
+            <button
+              onClick={() => setView('bills')}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                view === 'bills'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
               }`}
-              onClick={() => addToCart(item)}
             >
-              <h3 className="font-medium text-gray-900 mb-1">{item.name}</h3>
-              <p className="text-sm text-gray-600 mb-2 line-clamp-2">{item.description}</p>
-              <div className="flex justify-between items-center">
-                <span className="text-lg font-bold text-blue-600">Rs. {item.price}</span>
-                <span className={`text-xs px-2 py-1 rounded ${
-                  item.stock > 10 ? 'bg-green-100 text-green-800' :
-                  item.stock > 0 ? 'bg-yellow-100 text-yellow-800' :
-                  'bg-red-100 text-red-800'
-                }`}>
-                  Stock: {item.stock}
-                </span>
-              </div>
-            </div>
-          ))}
+              Open Bills ({unpaidOrders.length})
+            </button>
+            <button
+              onClick={() => setView('paid')}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                view === 'paid'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              Paid Today
+            </button>
+          </div>
         </div>
+
+        {view !== 'menu' ? (
+          listedOrders.length === 0 ? (
+            <div className="text-center py-16">
+              <Receipt size={64} className="text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-medium text-gray-900 mb-2">
+                {view === 'bills' ? 'No open bills' : 'No paid orders today'}
+              </h3>
+              <p className="text-gray-600">
+                {view === 'bills'
+                  ? 'Orders taken by waiters appear here until they are paid.'
+                  : 'Settled orders appear here and can be refunded with manager approval.'}
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {listedOrders.map(order => (
+                <div
+                  key={order.id}
+                  className={`bg-white p-4 rounded-lg shadow border cursor-pointer transition-all hover:shadow-md ${
+                    openBill?.order.id === order.id ? 'ring-2 ring-blue-500' : ''
+                  }`}
+                  onClick={() => loadBill(order)}
+                >
+                  <div className="flex justify-between items-start mb-1">
+                    <h3 className="font-medium text-gray-900">Table {getTableNumber(order.tableId)}</h3>
+                    <span className={`text-xs px-2 py-1 rounded ${
+                      order.paymentStatus === 'refunded' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+                    }`}>
+                      {order.paymentStatus === 'refunded' ? 'Refunded' : STATUS_LABELS[order.status]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mb-2">
+                    #{order.id.slice(0, 8)} · since {new Date(order.createdAt).toLocaleTimeString()}
+                  </p>
+                  <span className="text-lg font-bold text-blue-600">Rs. {order.finalTotal.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+          )
+        ) : (
+          <>
+            {/* Categories */}
+            <CategoryTabs
+              categories={visibleCategories}
+              selectedId={selectedCategory}
+              onSelect={setSelectedCategory}
+              variant="pos"
+            />
+
+            {/* Menu Items Grid */}
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {filteredMenuItems.map(item => {
+                const available = getAvailableStock(item, menuItems);
+                const unavailableReason = getUnavailableReason(item, menuItems, categories, new Date());
+                return (
+                  <div
+                    key={item.id}
+                    className={`bg-white p-4 rounded-lg shadow border cursor-pointer transition-all hover:shadow-md ${
+                      available <= 0 || unavailableReason ? 'opacity-50' : ''
+                    }`}
+                    onClick={() => addToCart(item)}
+                  >
+                    <MenuItemImage imageId={item.image} alt={item.name} className="w-full h-24 rounded-md mb-2" />
+                    <h3 className="font-medium text-gray-900 mb-1">{item.name}</h3>
+                    <p className="text-sm text-gray-600 mb-2 line-clamp-2">{item.description}</p>
+                    {unavailableReason && (
+                      <p className="text-xs font-medium text-red-600 mb-2">Unavailable: {unavailableReason}</p>
+                    )}
+                    {hasVariants(item) ? (
+                      <div className="flex flex-wrap gap-1">
+                        {item.variants!.map(variant => (
+                          <button
+                            key={variant.id}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              addToCart(item, variant.id);
+                            }}
+                            disabled={variant.stock <= 0 || !!unavailableReason}
+                            className="flex-1 text-xs px-2 py-1 rounded border border-blue-200 text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+                          >
+                            <span className="block font-medium">{variant.name}</span>
+                            <span className="block">Rs. {variant.price} · {variant.stock}</span>
+                          </button>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="flex justify-between items-center">
+                        <span className="text-lg font-bold text-blue-600">Rs. {item.price}</span>
+                        <span className={`text-xs px-2 py-1 rounded ${
+                          available > 10 ? 'bg-green-100 text-green-800' :
+                          available > 0 ? 'bg-yellow-100 text-yellow-800' :
+                          'bg-red-100 text-red-800'
+                        }`}>
+                          {isBundle(item) ? 'Deal' : usesRecipe(item) ? 'Can make' : 'Stock'}: {available}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
       </div>
 
       {/* Cart Section */}
       <div className="w-96 bg-white border-l border-gray-200 p-6">
-        <div className="flex items-center justify-between mb-6">
-          <h2 className="text-xl font-bold">Order Cart</h2>
-          <ShoppingCart size={24} />
-        </div>
-
-        {/* Table Selection */}
-        <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Select Table
-          </label>
-          <select
-            value={selectedTable}
-            onChange={(e) => setSelectedTable(e.target.value)}
-            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-          >
-            <option value="">Choose a table...</option>
-            {tables.map(table => (
-              <option key={table.id} value={table.id}>
-                Table {table.number}
-              </option>
-            ))}
-          </select>
-        </div>
+        {openBill ? (
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-bold">Table {getTableNumber(openBill.order.tableId)} Bill</h2>
+              <p className="text-sm text-gray-600">Order #{openBill.order.id.slice(0, 8)}</p>
+            </div>
+            <button
+              onClick={() => setOpenBill(null)}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <X size={24} />
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold">Order Cart</h2>
+            <ShoppingCart size={24} />
+          </div>
+        )}
 
-        {/* Cart Items */}
-        <div className="space-y-4 mb-6 max-h-64 overflow-y-auto">
-          {cart.length === 0 ? (
-            <p className="text-gray-500 text-center py-8">Cart is empty</p>
-          ) : (
-            cart.map(item => (
-              <div key={item.id} className="border rounded-lg p-3">
-                <div className="flex justify-between items-start mb-2">
-                  <h4 className="font-medium text-sm">{item.name}</h4>
-                  <button
-                    onClick={() => removeFromCart(item.id)}
-                    className="text-red-500 hover:text-red-700"
-                  >
-                    <Trash2 size={16} />
-                  </button>
+        {/* Bill Items */}
+        {openBill && (
+          <div className="space-y-2 mb-6 max-h-96 overflow-y-auto">
+            {openBill.items.map(item => (
+              <div key={item.id} className={`border rounded-lg p-3 flex justify-between items-start ${item.voided ? 'opacity-50' : ''}`}>
+                <div>
+                  <h4 className={`font-medium text-sm ${item.voided ? 'line-through' : ''}`}>
+                    {getOrderItemName(item, menuItems)} x{item.quantity}
+                    {item.seat !== undefined && <span className="text-gray-500 font-normal"> · Seat {item.seat}</span>}
+                    {!item.voided && !isSettledBill && openBill.payments.some(payment => payment.orderItemIds?.includes(item.id)) && (
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded bg-green-100 text-green-800">Paid</span>
+                    )}
+                  </h4>
+                  {item.components && item.components.length > 0 && (
+                    <p className="text-xs text-gray-600">{item.components.map(component => formatComponent(component, menuItems)).join(', ')}</p>
+                  )}
+                  {item.modifiers.length > 0 && (
+                    <p className="text-xs text-gray-600">{formatModifiers(item.modifiers)}</p>
+                  )}
+                  {item.notes && (
+                    <p className="text-xs text-orange-600">Note: {item.notes}</p>
+                  )}
+                  {item.voided && (
+                    <p className="text-xs text-red-600">
+                      {isSettledBill ? 'Refunded' : 'Voided'}: {ADJUSTMENT_REASONS[item.voided.reason]}
+                    </p>
+                  )}
                 </div>
-                
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-2">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-sm">Rs. {item.totalPrice.toFixed(2)}</span>
+                  {!item.voided && !isSettledBill && (
                     <button
-                      onClick={() => updateQuantity(item.id, -1)}
-                      className="bg-gray-200 hover:bg-gray-300 p-1 rounded"
+                      onClick={() => setAdjustment({ mode: 'void', itemIds: [item.id] })}
+                      className="text-red-500 hover:text-red-700"
+                      title="Void item"
                     >
-                      <Minus size={16} />
+                      <Ban size={16} />
                     </button>
-                    <span className="w-8 text-center">{item.quantity}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Table Selection */}
+        {!openBill && (
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Select Table
+            </label>
+            <select
+              value={selectedTable}
+              onChange={(e) => setSelectedTable(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose a table...</option>
+              {availableTables.map(table => (
+                <option key={table.id} value={table.id}>
+                  Table {table.number}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Cart Items */}
+        {!openBill && (
+          <div className="space-y-4 mb-6 max-h-64 overflow-y-auto">
+            {cart.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">Cart is empty</p>
+            ) : (
+              cart.map(item => (
+                <div key={item.lineId} className="border rounded-lg p-3">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <h4 className="font-medium text-sm">{formatItemName(item.name, getVariant(item, item.variantId)?.name)}</h4>
+                      {item.components && (
+                        <p className="text-xs text-gray-600">{item.components.map(component => formatComponent(component, menuItems)).join(', ')}</p>
+                      )}
+                    </div>
                     <button
-                      onClick={() => updateQuantity(item.id, 1)}
-                      className="bg-gray-200 hover:bg-gray-300 p-1 rounded"
+                      onClick={() => removeFromCart(item.lineId)}
+                      className="text-red-500 hover:text-red-700"
                     >
-                      <Plus size={16} />
+                      <Trash2 size={16} />
                     </button>
                   </div>
-                  <span className="font-medium">Rs. {(item.price * item.quantity).toFixed(2)}</span>
-                </div>
+                  
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => updateQuantity(item.lineId, -1)}
+                        className="bg-gray-200 hover:bg-gray-300 p-1 rounded"
+                      >
+                        <Minus size={16} />
+                      </button>
+                      <span className="w-8 text-center">{item.quantity}</span>
+                      <button
+                        onClick={() => updateQuantity(item.lineId, 1)}
+                        className="bg-gray-200 hover:bg-gray-300 p-1 rounded"
+                      >
+                        <Plus size={16} />
+                      </button>
+                    </div>
+                    <span className="font-medium">Rs. {(getUnitPrice(item) * item.quantity).toFixed(2)}</span>
+                  </div>
 
-                {/* Modifiers */}
-                {item.modifiers.length > 0 && (
-                  <div className="mt-2">
-                    <p className="text-xs text-gray-600 mb-1">Modifiers:</p>
-                    <div className="flex flex-wrap gap-1">
-                      {item.modifiers.map(modifier => (
-                        <button
-                          key={modifier}
-                          onClick={() => toggleModifier(item.id, modifier)}
-                          className={`text-xs px-2 py-1 rounded ${
-                            item.selectedModifiers.includes(modifier)
-                              ? 'bg-blue-500 text-white'
-                              : 'bg-gray-200 text-gray-700'
-                          }`}
-                        >
-                          {modifier}
-                        </button>
-                      ))}
+                  {/* Modifiers */}
+                  {item.modifierGroups.map(group => (
+                    <div key={group.id} className="mt-2">
+                      <p className="text-xs text-gray-600 mb-1">
+                        {group.name} <span className="text-gray-400">({describeGroupRule(group)})</span>
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {group.options.map(option => (
+                          <button
+                            key={option.id}
+                            onClick={() => toggleModifier(item.lineId, group, option.id)}
+                            className={`text-xs px-2 py-1 rounded ${
+                              item.selectedModifiers.some(modifier => modifier.optionId === option.id && modifier.groupId === group.id)
+                                ? 'bg-blue-500 text-white'
+                                : 'bg-gray-200 text-gray-700'
+                            }`}
+                          >
+                            {option.name}{option.price > 0 ? ` +${option.price}` : ''}
+                          </button>
+                        ))}
+                      </div>
                     </div>
+                  ))}
+
+                  <input
+                    type="text"
+                    value={item.notes}
+                    onChange={(e) => updateNotes(item.lineId, e.target.value)}
+                    placeholder="Note for kitchen, e.g. no onions"
+                    className="mt-2 w-full border border-gray-300 rounded px-2 py-1 text-xs"
+                  />
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {!openBill && cart.length > 0 && (
+          <textarea
+            value={orderNotes}
+            onChange={(e) => setOrderNotes(e.target.value)}
+            placeholder="Order notes, e.g. serve after starters"
+            rows={2}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm mb-4"
+          />
+        )}
+
+        {openBill?.order.notes && (
+          <p className="text-sm text-orange-600 mb-4 whitespace-pre-line">Notes: {openBill.order.notes}</p>
+        )}
+
+        {/* Order Summary */}
+        {(cart.length > 0 || openBill) && (
+          <>
+            {(!openBill || canReprice) ? (
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Order Type</label>
+                  <select
+                    value={billPricing.orderType}
+                    onChange={(e) => changePricing({ ...billPricing, orderType: e.target.value as OrderType })}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map(type => (
+                      <option key={type} value={type}>{ORDER_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                {isPricedByPaymentMethod && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Paying by</label>
+                    <select
+                      value={billPricing.paymentMethod ?? ''}
+                      onChange={(e) => changePricing({ ...billPricing, paymentMethod: e.target.value as TenderMethod })}
+                      className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {openBill && !openBill.order.paymentMethod && <option value="">Not set</option>}
+                      <option value="cash">Cash</option>
+                      <option value="card">Card</option>
+                    </select>
                   </div>
                 )}
               </div>
-            ))
-          )}
-        </div>
+            ) : (
+              <p className="text-sm text-gray-600 mb-2">{ORDER_TYPE_LABELS[openBill.order.orderType]}</p>
+            )}
 
-        {/* Order Summary */}
-        {cart.length > 0 && (
-          <>
             <div className="border-t pt-4 space-y-2">
               <div className="flex justify-between text-sm">
                 <span>Subtotal:</span>
-                <span>Rs. {calculateSubtotal().toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>Tax (16%):</span>
-                <span>Rs. {calculateTax().toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>Service (5%):</span>
-                <span>Rs. {calculateServiceCharge().toFixed(2)}</span>
+                <span>Rs. {totals.total.toFixed(2)}</span>
               </div>
+              {totals.taxLines.map(line => (
+                <div key={line.rateId} className="flex justify-between text-sm">
+                  <span>{formatTaxLine(line)}:</span>
+                  <span>Rs. {line.amount.toFixed(2)}</span>
+                </div>
+              ))}
               <div className="flex justify-between text-sm">
-                <span>Discount:</span>
-                <input
-                  type="number"
-                  value={discount}
-                  onChange={(e) => setDiscount(Math.max(0, parseFloat(e.target.value) || 0))}
-                  className="w-20 text-right border border-gray-300 rounded px-2 py-1"
-                  min="0"
-                />
-              </div>
-              <div className="flex justify-between font-bold text-lg border-t pt-2">
-                <span>Total:</span>
-                <span>Rs. {calculateTotal().toFixed(2)}</span>
+                <span>Service Charge:</span>
+                <span>Rs. {totals.serviceCharge.toFixed(2)}</span>
               </div>
+              {totals.discounts.map(applied => (
+                <div key={applied.promotionId ?? applied.name} className="flex justify-between text-sm text-green-600">
+                  <span className="flex items-center space-x-1">
+                    <Tag size={14} />
+                    <span>{applied.name}:</span>
+                  </span>
+                  <span className="flex items-center space-x-1">
+                    <span>-Rs. {applied.amount.toFixed(2)}</span>
+                    {applied.couponCode && canDiscount && (
+                      <button
+                        onClick={() => changeDiscounts({ ...currentDiscounts, couponCode: undefined })}
+                        className="text-red-500 hover:text-red-700"
+                        title="Remove coupon"
+                      >
+                        <X size={14} />
+                      </button>
+                    )}
+                  </span>
+                </div>
+              ))}
+              {canDiscount && (
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={couponInput}
+                    onChange={(e) => setCouponInput(e.target.value)}
+                    placeholder="Coupon code"
+                    className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm uppercase"
+                  />
+                  <button
+                    onClick={applyCoupon}
+                    disabled={!couponInput.trim() || isProcessing}
+                    className="text-sm px-3 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                  <button
+                    onClick={() => setShowDiscount(true)}
+                    className="text-sm px-3 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  >
+                    Discount
+                  </button>
+                </div>
+              )}
+              {openBill && isSettledBill ? (
+                <>
+                  <div className="flex justify-between text-sm border-t pt-2">
+                    <span>Total:</span>
+                    <span>Rs. {openBill.order.finalTotal.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm text-red-600">
+                    <span>Refunded:</span>
+                    <span>Rs. {Math.abs(getAmountPaid(openBill.payments.filter(payment => payment.refund))).toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>Net Paid:</span>
+                    <span>Rs. {getAmountPaid(openBill.payments).toFixed(2)}</span>
+                  </div>
+                </>
+              ) : openBill && openBill.payments.length > 0 ? (
+                <>
+                  <div className="flex justify-between text-sm border-t pt-2">
+                    <span>Total:</span>
+                    <span>Rs. {openBill.order.finalTotal.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Paid ({openBill.payments.length}):</span>
+                    <span>Rs. {getAmountPaid(openBill.payments).toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>Balance Due:</span>
+                    <span>Rs. {calculateTotal().toFixed(2)}</span>
+                  </div>
+                </>
+              ) : (
+                <div className="flex justify-between font-bold text-lg border-t pt-2">
+                  <span>Total:</span>
+                  <span>Rs. {calculateTotal().toFixed(2)}</span>
+                </div>
+              )}
             </div>
 
-            <button
-              onClick={() => setShowPayment(true)}
-              disabled={!selectedTable}
-              className="w-full bg-blue-500 text-white py-3 rounded-lg font-medium hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed mt-4"
-            >
-              Process Payment
-            </button>
+            {isSettledBill ? (
+              <button
+                onClick={() => setAdjustment({ mode: 'refund', itemIds: [] })}
+                disabled={openBill?.order.paymentStatus !== 'paid'}
+                className="w-full bg-red-500 text-white py-3 rounded-lg font-medium hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed mt-4 flex items-center justify-center space-x-2"
+              >
+                <Undo2 size={20} />
+                <span>{openBill?.order.paymentStatus === 'refunded' ? 'Fully Refunded' : 'Refund'}</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => setShowPayment(true)}
+                disabled={!openBill && !selectedTable}
+                className="w-full bg-blue-500 text-white py-3 rounded-lg font-medium hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed mt-4"
+              >
+                Process Payment
+              </button>
+            )}
+            {openBill && !isSettledBill && (
+              <button
+                onClick={() => setShowSplit(true)}
+                className="w-full bg-gray-200 text-gray-700 py-3 rounded-lg font-medium hover:bg-gray-300 mt-2 flex items-center justify-center space-x-2"
+              >
+                <Split size={20} />
+                <span>Split Bill</span>
+              </button>
+            )}
           </>
         )}
       </div>
 
-      {/* Payment Modal */}
-      {showPayment && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
-            <div className="flex justify-between items-center mb-4">
-              <h3 className="text-xl font-bold">Payment</h3>
-              <button
-                onClick={() => setShowPayment(false)}
-                className="text-gray-500 hover:text-gray-700"
-              >
-                <X size={24} />
-              </button>
-            </div>
+      {/* Split Bill Modal */}
+      {showSplit && openBill && (
+        <SplitBillModal
+          order={openBill.order}
+          items={openBill.items}
+          payments={openBill.payments}
+          getItemName={(item) => getOrderItemName(item, menuItems)}
+          isProcessing={isProcessing}
+          onPay={paySplitShare}
+          onClose={() => setShowSplit(false)}
+        />
+      )}
 
-            <div className="space-y-4">
-              <div>
-                <p className="text-lg font-medium">Total: Rs. {calculateTotal().toFixed(2)}</p>
-              </div>
+      {/* Void / Refund Modal */}
+      {adjustment && openBill && (
+        <AdjustmentModal
+          mode={adjustment.mode}
+          order={openBill.order}
+          items={openBill.items}
+          payments={openBill.payments}
+          initialItemIds={adjustment.itemIds}
+          getItemName={(item) => getOrderItemName(item, menuItems)}
+          isProcessing={isProcessing}
+          onConfirm={handleAdjustment}
+          onClose={() => setAdjustment(null)}
+        />
+      )}
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Payment Method
-                </label>
-                <div className="grid grid-cols-2 gap-2">
-                  <button
-                    onClick={() => setPaymentMethod('cash')}
-                    className={`flex items-center justify-center space-x-2 p-3 border rounded-lg ${
-                      paymentMethod === 'cash'
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-300'
-                    }`}
-                  >
-                    <Banknote size={20} />
-                    <span>Cash</span>
-                  </button>
-                  <button
-                    onClick={() => setPaymentMethod('card')}
-                    className={`flex items-center justify-center space-x-2 p-3 border rounded-lg ${
-                      paymentMethod === 'card'
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-300'
-                    }`}
-                  >
-                    <CreditCard size={20} />
-                    <span>Card</span>
-                  </button>
-                </div>
-              </div>
+      {/* Manual Discount Modal */}
+      {showDiscount && user && (
+        <DiscountModal
+          subtotal={openBill
+            ? openBill.items.filter(item => !item.voided).reduce((sum, item) => sum + item.totalPrice, 0)
+            : cartSubtotal}
+          settings={discountSettings}
+          user={user}
+          current={currentDiscounts.manualDiscount}
+          isProcessing={isProcessing}
+          onApply={applyManualDiscount}
+          onClose={() => setShowDiscount(false)}
+        />
+      )}
 
-              <div className="flex space-x-2">
-                <button
-                  onClick={printReceipt}
-                  className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600"
-                >
-                  Print Receipt
-                </button>
-                <button
-                  onClick={processOrder}
-                  disabled={isProcessing}
-                  className="flex-1 bg-green-500 text-white py-2 rounded-lg hover:bg-green-600 disabled:opacity-50"
-                >
-                  {isProcessing ? 'Processing...' : 'Complete Order'}
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+      {/* Deal Choice Modal */}
+      {pendingBundle && (
+        <BundleModal
+          bundle={pendingBundle}
+          menuItems={menuItems}
+          categories={categories}
+          onConfirm={(components) => {
+            addLine(pendingBundle, components);
+            setPendingBundle(null);
+          }}
+          onClose={() => setPendingBundle(null)}
+        />
+      )}
+
+      {/* Payment Modal */}
+      {showPayment && (
+        <PaymentModal
+          amountDue={calculateTotal()}
+          amountLabel={openBill ? 'Balance Due' : 'Total'}
+          completeLabel={openBill ? 'Settle Bill' : 'Complete Order'}
+          isProcessing={isProcessing}
+          onPrint={printReceipt}
+          onComplete={openBill ? settleBill : processOrder}
+          onClose={() => setShowPayment(false)}
+        />
       )}
     </div>
   );
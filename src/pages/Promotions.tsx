@@ -0,0 +1,561 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Save, X, Tag } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import toast from 'react-hot-toast';
+import {
+  getAllPromotions,
+  createPromotion,
+  updatePromotion,
+  deletePromotion,
+  getAllCategories,
+  getAllMenuItems,
+  getDiscountSettings,
+  saveDiscountSettings,
+} from '../utils/database';
+import { DEFAULT_DISCOUNT_SETTINGS, PROMOTION_SCOPE_LABELS, PROMOTION_TYPE_LABELS } from '../utils/promotions';
+import { DAY_LABELS, formatSchedule } from '../utils/schedule';
+import { Category, DiscountSettings, MenuItem, Promotion, PromotionScope, PromotionType, User } from '../types';
+
+type PromotionForm = Omit<Promotion, 'id' | 'createdAt'> & { id?: string; hasSchedule: boolean };
+
+const ROLES: User['role'][] = ['admin', 'cashier', 'waiter', 'chef'];
+
+const EMPTY_FORM: PromotionForm = {
+  name: '',
+  type: 'percentage',
+  value: 0,
+  scope: 'order',
+  categoryIds: [],
+  menuItemIds: [],
+  buyQuantity: 1,
+  getQuantity: 1,
+  minSpend: 0,
+  couponCode: '',
+  schedule: { days: [0, 1, 2, 3, 4, 5, 6], startTime: '16:00', endTime: '19:00' },
+  hasSchedule: false,
+  active: true,
+};
+
+const describePromotion = (promotion: Promotion): string => {
+  switch (promotion.type) {
+    case 'percentage':
+      return `${promotion.value}% off`;
+    case 'fixed':
+      return `Rs. ${promotion.value} off`;
+    case 'buy-x-get-y':
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+  }
+};
+
+const Promotions: React.FC = () => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [discountSettings, setDiscountSettings] = useState<DiscountSettings>(DEFAULT_DISCOUNT_SETTINGS);
+  const [showForm, setShowForm] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<PromotionForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [promotionsData, categoriesData, menuData, settingsData] = await Promise.all([
+        getAllPromotions(),
+        getAllCategories(),
+        getAllMenuItems(),
+        getDiscountSettings()
+      ]);
+      setPromotions(promotionsData.sort((a, b) => a.name.localeCompare(b.name)));
+      setCategories(categoriesData);
+      setMenuItems(menuData);
+      setDiscountSettings(settingsData);
+    } catch (error) {
+      console.error('Error loading promotions:', error);
+      toast.error('Failed to load promotions');
+    }
+  };
+
+  const handleSavePromotion = async () => {
+    const { id, hasSchedule, ...form } = editingPromotion;
+    const couponCode = form.couponCode?.trim().toUpperCase() || undefined;
+
+    if (!form.name.trim()) {
+      toast.error('Promotion name is required');
+      return;
+    }
+    if (form.type !== 'buy-x-get-y' && form.value <= 0) {
+      toast.error('Discount must be greater than 0');
+      return;
+    }
+    if (form.type === 'percentage' && form.value > 100) {
+      toast.error('A percentage discount cannot exceed 100%');
+      return;
+    }
+    if (form.type === 'buy-x-get-y' && (form.buyQuantity < 1 || form.getQuantity < 1)) {
+      toast.error('Buy and get quantities must be at least 1');
+      return;
+    }
+    if (form.scope === 'categories' && form.categoryIds.length === 0) {
+      toast.error('Select at least one category');
+      return;
+    }
+    if (form.scope === 'items' && form.menuItemIds.length === 0) {
+      toast.error('Select at least one menu item');
+      return;
+    }
+    if (hasSchedule && (!form.schedule || form.schedule.days.length === 0)) {
+      toast.error('Select the days the happy hour runs');
+      return;
+    }
+    if (couponCode && promotions.some(promotion => promotion.id !== id && promotion.couponCode === couponCode)) {
+      toast.error('Another promotion already uses this coupon code');
+      return;
+    }
+
+    const promotion: Promotion = {
+      ...form,
+      id: id ?? uuidv4(),
+      name: form.name.trim(),
+      couponCode,
+      schedule: hasSchedule ? form.schedule : undefined,
+      createdAt: promotions.find(existing => existing.id === id)?.createdAt ?? new Date(),
+    };
+
+    try {
+      if (id) {
+        await updatePromotion(promotion);
+        toast.success('Promotion updated successfully');
+      } else {
+        await createPromotion(promotion);
+        toast.success('Promotion created successfully');
+      }
+      setShowForm(false);
+      loadData();
+    } catch (error) {
+      console.error('Error saving promotion:', error);
+      toast.error('Failed to save promotion');
+    }
+  };
+
+  const handleEditPromotion = (promotion: Promotion) => {
+    setEditingPromotion({
+      ...EMPTY_FORM,
+      ...promotion,
+      couponCode: promotion.couponCode ?? '',
+      schedule: promotion.schedule ?? EMPTY_FORM.schedule,
+      hasSchedule: !!promotion.schedule,
+    });
+    setShowForm(true);
+  };
+
+  const handleDeletePromotion = async (id: string) => {
+    if (window.confirm('Are you sure you want to delete this promotion?')) {
+      try {
+        await deletePromotion(id);
+        toast.success('Promotion deleted successfully');
+        loadData();
+      } catch (error) {
+        console.error('Error deleting promotion:', error);
+        toast.error('Failed to delete promotion');
+      }
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    try {
+      await updatePromotion({ ...promotion, active: !promotion.active });
+      loadData();
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      toast.error('Failed to update promotion');
+    }
+  };
+
+  const handleSaveLimits = async () => {
+    try {
+      await saveDiscountSettings(discountSettings);
+      toast.success('Discount limits saved');
+    } catch (error) {
+      console.error('Error saving discount limits:', error);
+      toast.error('Failed to save discount limits');
+    }
+  };
+
+  const toggleId = (ids: string[], id: string) => {
+    return ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+  };
+
+  const schedule = editingPromotion.schedule ?? EMPTY_FORM.schedule!;
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Promotions</h1>
+        <button
+          onClick={() => {
+            setEditingPromotion(EMPTY_FORM);
+            setShowForm(true);
+          }}
+          className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 flex items-center space-x-2"
+        >
+          <Plus size={20} />
+          <span>Add Promotion</span>
+        </button>
+      </div>
+
+      {/* Promotions Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Discount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Applies To
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Conditions
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {promotions.map(promotion => (
+                <tr key={promotion.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{promotion.name}</div>
+                    {promotion.couponCode && (
+                      <div className="text-xs text-gray-500 font-mono">{promotion.couponCode}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {describePromotion(promotion)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {promotion.scope === 'order'
+                      ? PROMOTION_SCOPE_LABELS.order
+                      : promotion.scope === 'categories'
+                        ? categories.filter(c => promotion.categoryIds.includes(c.id)).map(c => c.name).join(', ')
+                        : menuItems.filter(item => promotion.menuItemIds.includes(item.id)).map(item => item.name).join(', ')}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {[
+                      promotion.minSpend > 0 ? `Min. spend Rs. ${promotion.minSpend}` : '',
+                      promotion.schedule ? formatSchedule(promotion.schedule) : '',
+                    ].filter(Boolean).join(' · ') || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => handleToggleActive(promotion)}
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        promotion.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {promotion.active ? 'Active' : 'Paused'}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEditPromotion(promotion)}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Edit Promotion"
+                      >
+                        <Edit size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDeletePromotion(promotion.id)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Delete Promotion"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {promotions.length === 0 && (
+          <div className="text-center py-16">
+            <Tag size={64} className="text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-medium text-gray-900 mb-2">No promotions yet</h3>
+            <p className="text-gray-600">Add happy hours, coupons and deals for the POS to apply.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Manual Discount Limits */}
+      <div className="bg-white p-6 rounded-lg shadow border">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-bold">Manual Discount Limits</h3>
+            <p className="text-sm text-gray-600">
+              Largest discount each role can give at the POS, as a percentage of the subtotal. Anything above needs a manager PIN.
+            </p>
+          </div>
+          <button
+            onClick={handleSaveLimits}
+            className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 flex items-center space-x-2"
+          >
+            <Save size={16} />
+            <span>Save</span>
+          </button>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {ROLES.map(role => (
+            <div key={role}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {role.charAt(0).toUpperCase() + role.slice(1)} (%)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={discountSettings.manualLimits[role] ?? 0}
+                onChange={(e) => setDiscountSettings({
+                  ...discountSettings,
+                  manualLimits: {
+                    ...discountSettings.manualLimits,
+                    [role]: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)),
+                  },
+                })}
+                className="w-full p-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Promotion Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4">
+              {editingPromotion.id ? 'Edit Promotion' : 'Add New Promotion'}
+            </h3>
+
+            <div className="space-y-4">
+              <input
+                type="text"
+                value={editingPromotion.name}
+                onChange={(e) => setEditingPromotion({ ...editingPromotion, name: e.target.value })}
+                placeholder="Promotion Name"
+                className="w-full p-3 border border-gray-300 rounded-lg"
+              />
+
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={editingPromotion.type}
+                  onChange={(e) => setEditingPromotion({ ...editingPromotion, type: e.target.value as PromotionType })}
+                  className="p-3 border border-gray-300 rounded-lg"
+                >
+                  {Object.entries(PROMOTION_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                {editingPromotion.type === 'buy-x-get-y' ? (
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span>Buy</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={editingPromotion.buyQuantity}
+                      onChange={(e) => setEditingPromotion({ ...editingPromotion, buyQuantity: parseInt(e.target.value) || 0 })}
+                      className="w-16 p-2 border border-gray-300 rounded-lg"
+                    />
+                    <span>get</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={editingPromotion.getQuantity}
+                      onChange={(e) => setEditingPromotion({ ...editingPromotion, getQuantity: parseInt(e.target.value) || 0 })}
+                      className="w-16 p-2 border border-gray-300 rounded-lg"
+                    />
+                  </div>
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    value={editingPromotion.value}
+                    onChange={(e) => setEditingPromotion({ ...editingPromotion, value: parseFloat(e.target.value) || 0 })}
+                    placeholder={editingPromotion.type === 'percentage' ? 'Percent' : 'Amount (Rs.)'}
+                    className="p-3 border border-gray-300 rounded-lg"
+                  />
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Applies To
+                </label>
+                <select
+                  value={editingPromotion.scope}
+                  onChange={(e) => setEditingPromotion({ ...editingPromotion, scope: e.target.value as PromotionScope })}
+                  className="w-full p-3 border border-gray-300 rounded-lg"
+                >
+                  {Object.entries(PROMOTION_SCOPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                {editingPromotion.scope === 'categories' && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {categories.map(category => (
+                      <label key={category.id} className="flex items-center space-x-1 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={editingPromotion.categoryIds.includes(category.id)}
+                          onChange={() => setEditingPromotion({
+                            ...editingPromotion,
+                            categoryIds: toggleId(editingPromotion.categoryIds, category.id),
+                          })}
+                        />
+                        <span>{category.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                {editingPromotion.scope === 'items' && (
+                  <div className="grid grid-cols-2 gap-1 mt-2 max-h-40 overflow-y-auto">
+                    {menuItems.map(item => (
+                      <label key={item.id} className="flex items-center space-x-1 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={editingPromotion.menuItemIds.includes(item.id)}
+                          onChange={() => setEditingPromotion({
+                            ...editingPromotion,
+                            menuItemIds: toggleId(editingPromotion.menuItemIds, item.id),
+                          })}
+                        />
+                        <span>{item.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Minimum Spend (Rs.)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editingPromotion.minSpend}
+                    onChange={(e) => setEditingPromotion({ ...editingPromotion, minSpend: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-full p-3 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Coupon Code
+                  </label>
+                  <input
+                    type="text"
+                    value={editingPromotion.couponCode}
+                    onChange={(e) => setEditingPromotion({ ...editingPromotion, couponCode: e.target.value })}
+                    placeholder="Blank = automatic"
+                    className="w-full p-3 border border-gray-300 rounded-lg uppercase"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={editingPromotion.hasSchedule}
+                    onChange={(e) => setEditingPromotion({ ...editingPromotion, hasSchedule: e.target.checked })}
+                  />
+                  <span className="text-sm font-medium text-gray-700">Happy hour (only at set times)</span>
+                </label>
+                {editingPromotion.hasSchedule && (
+                  <div className="mt-2 space-y-2">
+                    <div className="flex flex-wrap gap-2">
+                      {DAY_LABELS.map((label, day) => (
+                        <label key={label} className="flex items-center space-x-1 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={schedule.days.includes(day)}
+                            onChange={() => setEditingPromotion({
+                              ...editingPromotion,
+                              schedule: {
+                                ...schedule,
+                                days: schedule.days.includes(day)
+                                  ? schedule.days.filter(d => d !== day)
+                                  : [...schedule.days, day].sort(),
+                              },
+                            })}
+                          />
+                          <span>{label}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="time"
+                        value={schedule.startTime}
+                        onChange={(e) => setEditingPromotion({ ...editingPromotion, schedule: { ...schedule, startTime: e.target.value } })}
+                        className="p-2 border border-gray-300 rounded-lg"
+                      />
+                      <span>to</span>
+                      <input
+                        type="time"
+                        value={schedule.endTime}
+                        onChange={(e) => setEditingPromotion({ ...editingPromotion, schedule: { ...schedule, endTime: e.target.value } })}
+                        className="p-2 border border-gray-300 rounded-lg"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={editingPromotion.active}
+                  onChange={(e) => setEditingPromotion({ ...editingPromotion, active: e.target.checked })}
+                />
+                <span className="text-sm font-medium text-gray-700">Active</span>
+              </label>
+            </div>
+
+            <div className="flex space-x-2 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="flex-1 bg-gray-500 text-white py-2 rounded-lg hover:bg-gray-600 flex items-center justify-center space-x-2"
+              >
+                <X size={20} />
+                <span>Cancel</span>
+              </button>
+              <button
+                onClick={handleSavePromotion}
+                className="flex-1 bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 flex items-center justify-center space-x-2"
+              >
+                <Save size={20} />
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Promotions;
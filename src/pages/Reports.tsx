@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { Calendar, TrendingUp, Package, DollarSign } from 'lucide-react';
-import { format, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
-import { getAllOrders, getAllMenuItems, getOrderItems } from '../utils/database';
-import { Order, MenuItem, OrderItem } from '../types';
+import { Calendar, TrendingUp, Package, DollarSign, Timer, HandCoins, Undo2, Tag } from 'lucide-react';
+import { format, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
+import { getOrdersBetween, getAllMenuItems, getOrderItems, getPaymentsBetween, getAllUsers } from '../utils/database';
+import { getRoundPrepMinutes } from '../utils/orderStateMachine';
+import { ADJUSTMENT_REASONS } from '../utils/adjustments';
+import { getOrderItemName } from '../utils/variants';
+import { Order, MenuItem, OrderItem, Payment, User, AdjustmentApproval } from '../types';
 
 interface SalesData {
   date: string;
@@ -17,33 +20,72 @@ interface TopItem {
   revenue: number;
 }
 
+interface AdjustmentRow {
+  id: string;
+  type: 'Void' | 'Refund';
+  orderId: string;
+  description: string;
+  amount: number;
+  approval: AdjustmentApproval;
+}
+
+interface PromotionUsage {
+  name: string;
+  orders: number;
+  discount: number;
+}
+
+interface WaiterTips {
+  name: string;
+  payments: number;
+  tips: number;
+}
+
+type DateRange = 'today' | 'week' | 'month';
+
+const getDateRange = (dateRange: DateRange) => {
+  const now = new Date();
+  switch (dateRange) {
+    case 'today':
+      return { start: startOfDay(now), end: endOfDay(now) };
+    case 'week':
+      return { start: startOfWeek(now), end: endOfWeek(now) };
+    case 'month':
+      return { start: startOfMonth(now), end: endOfMonth(now) };
+  }
+};
+
 const Reports: React.FC = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
-  const [dateRange, setDateRange] = useState<'today' | 'week' | 'month'>('today');
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [dateRange, setDateRange] = useState<DateRange>('today');
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    loadData();
-  }, []);
+    loadData(dateRange);
+  }, [dateRange]);
 
-  const loadData = async () => {
+  const loadData = async (range: DateRange) => {
     try {
-      const [ordersData, menuData] = await Promise.all([
-        getAllOrders(),
-        getAllMenuItems()
+      const { start, end } = getDateRange(range);
+      const [ordersData, menuData, paymentsData, usersData] = await Promise.all([
+        getOrdersBetween(start, end),
+        getAllMenuItems(),
+        getPaymentsBetween(start, end),
+        getAllUsers()
       ]);
 
-      const allOrderItems: OrderItem[] = [];
-      for (const order of ordersData) {
-        const items = await getOrderItems(order.id);
-        allOrderItems.push(...items);
-      }
+      const itemsPerOrder = await Promise.all(ordersData.map(order => getOrderItems(order.id)));
+      const allOrderItems: OrderItem[] = itemsPerOrder.flat();
 
       setOrders(ordersData);
       setMenuItems(menuData);
       setOrderItems(allOrderItems);
+      setPayments(paymentsData);
+      setUsers(usersData);
       setIsLoading(false);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -51,33 +93,33 @@ const Reports: React.FC = () => {
     }
   };
 
-  const getDateRange = () => {
-    const now = new Date();
-    switch (dateRange) {
-      case 'today':
-        return { start: startOfDay(now), end: endOfDay(now) };
-      case 'week':
-        return { start: startOfWeek(now), end: endOfWeek(now) };
-      case 'month':
-        return { start: startOfMonth(now), end: endOfMonth(now) };
-    }
-  };
+  const refunds = payments.filter(payment => payment.refund);
+  const refundedItemIds = new Set(refunds.flatMap(refund => refund.orderItemIds ?? []));
+  const voidedItems = orderItems.filter(item => item.voided && !refundedItemIds.has(item.id));
+  const totalRefunded = refunds.reduce((sum, refund) => sum - refund.amount, 0);
+  const totalVoided = voidedItems.reduce((sum, item) => sum + item.totalPrice, 0);
 
-  const filteredOrders = orders.filter(order => {
-    const range = getDateRange();
-    const orderDate = new Date(order.createdAt);
-    return isWithinInterval(orderDate, range);
-  });
+  // Cancelled orders keep their totals but were never sold
+  const salesOrders = orders.filter(order => order.status !== 'cancelled');
 
-  const totalRevenue = filteredOrders.reduce((sum, order) => sum + order.finalTotal, 0);
-  const totalOrders = filteredOrders.length;
+  // Revenue of the orders placed in the period; voided items were already removed from
+  // their order's total. Refunds are dated by when they were issued, often for orders
+  // from an earlier period, so they are reported on their own line instead.
+  const totalRevenue = salesOrders.reduce((sum, order) => sum + order.finalTotal, 0);
+  const totalOrders = salesOrders.length;
   const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
+  // Based on recorded pending -> ready transition times, per kitchen round
+  const prepTimes = orders.flatMap(getRoundPrepMinutes);
+  const averagePrepMinutes = prepTimes.length > 0
+    ? prepTimes.reduce((sum, minutes) => sum + minutes, 0) / prepTimes.length
+    : 0;
+
   // Sales by day data
   const getSalesData = (): SalesData[] => {
     const salesMap = new Map<string, { sales: number; orders: number }>();
 
-    filteredOrders.forEach(order => {
+    salesOrders.forEach(order => {
       const dateKey = format(new Date(order.createdAt), 'yyyy-MM-dd');
       const existing = salesMap.get(dateKey) || { sales: 0, orders: 0 };
       salesMap.set(dateKey, {
@@ -93,37 +135,107 @@ const Reports: React.FC = () => {
     }));
   };
 
-  // Top selling items
+  // Top selling items; each size of an item is ranked on its own
   const getTopItems = (): TopItem[] => {
-    const itemMap = new Map<string, { quantity: number; revenue: number }>();
+    const itemMap = new Map<string, { name: string; quantity: number; revenue: number }>();
 
-    const filteredOrderIds = new Set(filteredOrders.map(order => order.id));
+    const filteredOrderIds = new Set(salesOrders.map(order => order.id));
 
     orderItems
-      .filter(item => filteredOrderIds.has(item.orderId))
+      .filter(item => filteredOrderIds.has(item.orderId) && !item.voided)
       .forEach(item => {
-        const existing = itemMap.get(item.menuItemId) || { quantity: 0, revenue: 0 };
-        itemMap.set(item.menuItemId, {
+        const key = item.variantId ? `${item.menuItemId}:${item.variantId}` : item.menuItemId;
+        const existing = itemMap.get(key) || { name: getOrderItemName(item, menuItems), quantity: 0, revenue: 0 };
+        itemMap.set(key, {
+          ...existing,
           quantity: existing.quantity + item.quantity,
           revenue: existing.revenue + item.totalPrice
         });
       });
 
-    return Array.from(itemMap.entries())
-      .map(([menuItemId, data]) => {
-        const menuItem = menuItems.find(item => item.id === menuItemId);
-        return {
-          name: menuItem?.name || 'Unknown Item',
-          quantity: data.quantity,
-          revenue: data.revenue
-        };
-      })
+    return Array.from(itemMap.values())
       .sort((a, b) => b.quantity - a.quantity)
       .slice(0, 10);
   };
 
+  // Tips are kept out of revenue and credited to the order's serving waiter
+  const getWaiterTips = (): WaiterTips[] => {
+    const tipsMap = new Map<string, { payments: number; tips: number }>();
+
+    payments
+      .filter(payment => payment.tip > 0)
+      .forEach(payment => {
+        const existing = tipsMap.get(payment.waiterId) || { payments: 0, tips: 0 };
+        tipsMap.set(payment.waiterId, {
+          payments: existing.payments + 1,
+          tips: existing.tips + payment.tip
+        });
+      });
+
+    return Array.from(tipsMap.entries())
+      .map(([waiterId, data]) => ({
+        name: users.find(user => user.id === waiterId)?.name || 'Unknown Waiter',
+        ...data
+      }))
+      .sort((a, b) => b.tips - a.tips);
+  };
+
+  // Manual discounts are grouped together rather than by their free-typed reason
+  const getPromotionUsage = (): PromotionUsage[] => {
+    const usageMap = new Map<string, { name: string; orders: number; discount: number }>();
+
+    salesOrders.forEach(order => {
+      (order.discounts ?? []).forEach(discount => {
+        const key = discount.promotionId ?? 'manual';
+        const existing = usageMap.get(key) || {
+          name: discount.promotionId ? discount.name : 'Manual discounts',
+          orders: 0,
+          discount: 0
+        };
+        usageMap.set(key, {
+          ...existing,
+          orders: existing.orders + 1,
+          discount: existing.discount + discount.amount
+        });
+      });
+    });
+
+    return Array.from(usageMap.values()).sort((a, b) => b.discount - a.discount);
+  };
+
+  const getAdjustments = (): AdjustmentRow[] => {
+    const voidRows: AdjustmentRow[] = voidedItems.map(item => ({
+      id: item.id,
+      type: 'Void',
+      orderId: item.orderId,
+      description: `${getOrderItemName(item, menuItems)} x${item.quantity}`,
+      amount: item.totalPrice,
+      approval: item.voided!,
+    }));
+    const refundRows: AdjustmentRow[] = refunds.map(refund => {
+      const items = orderItems.filter(item => refund.orderItemIds?.includes(item.id));
+      return {
+        id: refund.id,
+        type: 'Refund',
+        orderId: refund.orderId,
+        description: items.length > 0
+          ? items.map(item => `${getOrderItemName(item, menuItems)} x${item.quantity}`).join(', ')
+          : 'Amount only',
+        amount: -refund.amount,
+        approval: refund.refund!,
+      };
+    });
+
+    return [...voidRows, ...refundRows].sort((a, b) =>
+      new Date(b.approval.approvedAt).getTime() - new Date(a.approval.approvedAt).getTime()
+    );
+  };
+
   const salesData = getSalesData();
   const topItems = getTopItems();
+  const waiterTips = getWaiterTips();
+  const adjustments = getAdjustments();
+  const promotionUsage = getPromotionUsage();
 
   const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
@@ -157,12 +269,15 @@ const Reports: React.FC = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-6">
         <div className="bg-white p-6 rounded-lg shadow border">
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600">Total Revenue</p>
               <p className="text-2xl font-bold text-green-600">Rs. {totalRevenue.toLocaleString()}</p>
+              {totalRefunded > 0 && (
+                <p className="text-xs text-red-600">Refunds issued: Rs. {totalRefunded.toFixed(2)}</p>
+              )}
             </div>
             <DollarSign className="text-green-500" size={32} />
           </div>
@@ -188,6 +303,18 @@ const Reports: React.FC = () => {
           </div>
         </div>
 
+        <div className="bg-white p-6 rounded-lg shadow border">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Avg. Prep Time</p>
+              <p className="text-2xl font-bold text-red-600">
+                {prepTimes.length > 0 ? `${averagePrepMinutes.toFixed(1)} min` : '—'}
+              </p>
+            </div>
+            <Timer className="text-red-500" size={32} />
+          </div>
+        </div>
+
         <div className="bg-white p-6 rounded-lg shadow border">
           <div className="flex items-center justify-between">
             <div>
@@ -288,6 +415,161 @@ const Reports: React.FC = () => {
         </div>
       </div>
 
+      {/* Tips by Waiter */}
+      {waiterTips.length > 0 && (
+        <div className="bg-white rounded-lg shadow border mt-6">
+          <div className="p-6 border-b flex items-center space-x-2">
+            <HandCoins className="text-green-500" size={20} />
+            <h3 className="text-lg font-bold">Tips by Waiter</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Waiter
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tipped Payments
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tips
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {waiterTips.map(waiter => (
+                  <tr key={waiter.name} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{waiter.name}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{waiter.payments}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">Rs. {waiter.tips.toFixed(2)}</div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Promotions */}
+      {promotionUsage.length > 0 && (
+        <div className="bg-white rounded-lg shadow border mt-6">
+          <div className="p-6 border-b flex items-center space-x-2">
+            <Tag className="text-purple-500" size={20} />
+            <h3 className="text-lg font-bold">Promotions & Discounts</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Promotion
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Orders
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Discount Given
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {promotionUsage.map(promotion => (
+                  <tr key={promotion.name} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{promotion.name}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{promotion.orders}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">Rs. {promotion.discount.toFixed(2)}</div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Voids & Refunds */}
+      {adjustments.length > 0 && (
+        <div className="bg-white rounded-lg shadow border mt-6">
+          <div className="p-6 border-b flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Undo2 className="text-red-500" size={20} />
+              <h3 className="text-lg font-bold">Voids & Refunds</h3>
+            </div>
+            <div className="flex space-x-6 text-sm">
+              <span className="text-gray-600">Voided: <span className="font-bold text-gray-900">Rs. {totalVoided.toFixed(2)}</span></span>
+              <span className="text-gray-600">Refunded: <span className="font-bold text-red-600">Rs. {totalRefunded.toFixed(2)}</span></span>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Time
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Order
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Items
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Approved By
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {adjustments.map(row => (
+                  <tr key={row.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(new Date(row.approval.approvedAt), 'dd/MM HH:mm')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        row.type === 'Refund' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {row.type}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">#{row.orderId.slice(0, 8)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{row.description}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {ADJUSTMENT_REASONS[row.approval.reason]}
+                      {row.approval.note && <span className="text-gray-500"> — {row.approval.note}</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {users.find(user => user.id === row.approval.approvedBy)?.name || 'Unknown'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">Rs. {row.amount.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {topItems.length === 0 && (
         <div className="text-center py-16">
           <TrendingUp size={64} className="text-gray-400 mx-auto mb-4" />
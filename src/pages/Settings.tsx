@@ -0,0 +1,87 @@
+import React from 'react';
+import { Database, CheckCircle, Clock } from 'lucide-react';
+import { DB_NAME, getDatabaseVersion } from '../utils/database';
+import { DB_VERSION, migrations } from '../utils/migrations';
+import TaxSettingsPanel from '../components/Settings/TaxSettingsPanel';
+import FbrSettingsPanel from '../components/Settings/FbrSettingsPanel';
+
+const Settings: React.FC = () => {
+  const databaseVersion = getDatabaseVersion();
+
+  return (
+    <div className="p-6">
+      <h1 className="text-2xl font-bold mb-6">Settings</h1>
+
+      <TaxSettingsPanel />
+      <FbrSettingsPanel />
+
+      {/* Database */}
+      <div className="bg-white rounded-lg shadow border">
+        <div className="p-6 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Database className="text-blue-500" size={24} />
+            <h3 className="text-lg font-bold">Database</h3>
+          </div>
+          <span className="text-sm text-gray-600">{DB_NAME}</span>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6">
+          <div>
+            <p className="text-sm text-gray-600">Database Version</p>
+            <p className="text-2xl font-bold text-blue-600">v{databaseVersion}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Latest Schema Version</p>
+            <p className="text-2xl font-bold text-green-600">v{DB_VERSION}</p>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Version
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Migration
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {migrations.map(migration => {
+                const isApplied = migration.version <= databaseVersion;
+                return (
+                  <tr key={migration.version} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      v{migration.version}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{migration.description}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {isApplied ? (
+                        <span className="inline-flex items-center space-x-1 px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                          <CheckCircle size={14} />
+                          <span>Applied</span>
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center space-x-1 px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                          <Clock size={14} />
+                          <span>Pending reload</span>
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
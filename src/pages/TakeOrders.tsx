@@ -1,18 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Minus, ShoppingCart, Send, UtensilsCrossed } from 'lucide-react';
+import { Plus, Minus, ShoppingCart, Send, UtensilsCrossed, Receipt, AlertTriangle } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import toast from 'react-hot-toast';
-import { getAllCategories, getAllMenuItems, getAllTables, createOrder, createOrderItem, updateTable } from '../utils/database';
+import { getAllCategories, getMenuItemsForSale, getAllTables, checkoutOrder, getActiveOrderForTable, getOrderItems, appendOrderItems, getTaxSettings, getAllPromotions } from '../utils/database';
 import { useNotifications } from '../contexts/NotificationContext';
 import { useAuth } from '../contexts/AuthContext';
-import { Category, MenuItem, Table } from '../types';
+import { createStatusHistory } from '../utils/orderStateMachine';
+import { DEFAULT_TAX_SETTINGS, calculateOrderTotals } from '../utils/pricing';
+import { calculateDiscounts, getDiscountTotal } from '../utils/promotions';
+import { describeGroupRule, getDefaultModifiers, getModifiersPrice, isSameModifiers, toggleModifier as toggleModifierOption, validateModifiers } from '../utils/modifiers';
+import { formatItemName, getBasePrice, getOrderItemName, getVariant, hasVariants } from '../utils/variants';
+import { formatComponent, getAvailableStock, getDefaultComponents, hasStockFor, isBundle, isSameSelection, needsBundleChoice } from '../utils/bundles';
+import { ALLERGENS, ALLERGEN_LABELS, formatAllergens, getAllergenConflicts, getOrderItemAllergens } from '../utils/allergens';
+import { AVAILABILITY_REFRESH_MS, getUnavailableReason } from '../utils/availability';
+import BundleModal from '../components/POS/BundleModal';
+import MenuItemImage from '../components/Menu/MenuItemImage';
+import CategoryTabs from '../components/Menu/CategoryTabs';
+import { getCategoryIdsWithin, getTopLevelCategories, isCategoryVisible, isMenuItemVisible } from '../utils/menuOrder';
+import { usesRecipe } from '../utils/recipes';
+import { Allergen, Category, MenuItem, Table, Order, OrderItem, Promotion, TaxSettings, BundleComponent, ModifierGroup, SelectedModifier } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface CartItem extends MenuItem {
+  lineId: string;
+  variantId?: string;
   quantity: number;
-  selectedModifiers: string[];
+  selectedModifiers: SelectedModifier[];
+  components?: BundleComponent[];
+  seat?: number;
+  notes: string;
 }
 
+const getUnitPrice = (item: CartItem) => getBasePrice(item, item.variantId) + getModifiersPrice(item.selectedModifiers);
+
+const getStockLines = (cart: CartItem[]) => {
+  return cart.map(item => ({ menuItemId: item.id, variantId: item.variantId, quantity: item.quantity, components: item.components }));
+};
+
 const TakeOrders: React.FC = () => {
   const [categories, setCategories] = useState<Category[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
@@ -20,29 +44,54 @@ const TakeOrders: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [cart, setCart] = useState<CartItem[]>([]);
   const [selectedTable, setSelectedTable] = useState<string>('');
+  const [activeOrder, setActiveOrder] = useState<Order | null>(null);
+  const [activeOrderItems, setActiveOrderItems] = useState<OrderItem[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [pendingBundle, setPendingBundle] = useState<MenuItem | null>(null);
+  const [orderNotes, setOrderNotes] = useState('');
+  const [guestAllergens, setGuestAllergens] = useState<Allergen[]>([]);
   
   const { addNotification } = useNotifications();
   const { user } = useAuth();
 
   useEffect(() => {
     loadData();
+    // Picks up items the kitchen 86'd and menu hours starting or ending
+    const interval = setInterval(refreshMenu, AVAILABILITY_REFRESH_MS);
+    return () => clearInterval(interval);
   }, []);
 
+  const refreshMenu = async () => {
+    try {
+      const [categoriesData, menuData] = await Promise.all([getAllCategories(), getMenuItemsForSale()]);
+      setCategories(categoriesData);
+      setMenuItems(menuData);
+    } catch (error) {
+      console.error('Error refreshing menu:', error);
+    }
+  };
+
   const loadData = async () => {
     try {
-      const [categoriesData, menuData, tablesData] = await Promise.all([
+      const [categoriesData, menuData, tablesData, taxData, promotionsData] = await Promise.all([
         getAllCategories(),
-        getAllMenuItems(),
-        getAllTables()
+        getMenuItemsForSale(),
+        getAllTables(),
+        getTaxSettings(),
+        getAllPromotions()
       ]);
       
       setCategories(categoriesData);
       setMenuItems(menuData);
       setTables(tablesData);
+      setTaxSettings(taxData);
+      setPromotions(promotionsData);
       
-      if (categoriesData.length > 0) {
-        setSelectedCategory(categoriesData[0].id);
+      const [firstCategory] = getTopLevelCategories(categoriesData.filter(category => isCategoryVisible(category, categoriesData, 'waiter')));
+      if (firstCategory) {
+        setSelectedCategory(firstCategory.id);
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -50,62 +99,128 @@ const TakeOrders: React.FC = () => {
     }
   };
 
-  const filteredMenuItems = menuItems.filter(item => 
-    selectedCategory ? item.categoryId === selectedCategory : true
+  const visibleCategories = categories.filter(category => isCategoryVisible(category, categories, 'waiter'));
+  const filteredMenuItems = menuItems.filter(item =>
+    isMenuItemVisible(item, categories, 'waiter') &&
+    (selectedCategory ? getCategoryIdsWithin(selectedCategory, categories).includes(item.categoryId) : true)
   );
 
-  const addToCart = (item: MenuItem) => {
-    if (item.stock <= 0) {
+  const selectTable = async (table: Table) => {
+    if (table.status === 'reserved') return;
+
+    setSelectedTable(table.id);
+    setActiveOrder(null);
+    setActiveOrderItems([]);
+    setGuestAllergens([]);
+
+    if (table.status === 'occupied') {
+      try {
+        const order = await getActiveOrderForTable(table.id);
+        if (order) {
+          setActiveOrder(order);
+          setActiveOrderItems(await getOrderItems(order.id));
+          setGuestAllergens(order.guestAllergens ?? []);
+        }
+      } catch (error) {
+        console.error('Error loading table order:', error);
+        toast.error('Failed to load the open order for this table');
+      }
+    }
+  };
+
+  const clearTableSelection = () => {
+    setSelectedTable('');
+    setActiveOrder(null);
+    setActiveOrderItems([]);
+    setGuestAllergens([]);
+  };
+
+  // Allergens in a cart line the guest was flagged for
+  const getGuestConflicts = (item: CartItem): Allergen[] => {
+    return getAllergenConflicts(getOrderItemAllergens({ menuItemId: item.id, components: item.components }, menuItems), guestAllergens);
+  };
+
+  const toggleGuestAllergen = (allergen: Allergen) => {
+    setGuestAllergens(guestAllergens.includes(allergen)
+      ? guestAllergens.filter(existing => existing !== allergen)
+      : [...guestAllergens, allergen]);
+  };
+
+  // Items with sizes are added from their size buttons with `variantId`
+  const addToCart = (item: MenuItem, variantId?: string) => {
+    if (hasVariants(item) && !variantId) return;
+
+    const unavailableReason = getUnavailableReason(item, menuItems, categories, new Date());
+    if (unavailableReason) {
+      toast.error(`${item.name} is unavailable (${unavailableReason})`);
+      return;
+    }
+
+    if (getAvailableStock(item, menuItems) <= 0) {
       toast.error('Item out of stock');
       return;
     }
 
-    const existingItem = cart.find(cartItem => cartItem.id === item.id);
-    
-    if (existingItem) {
-      if (existingItem.quantity >= item.stock) {
-        toast.error('Cannot add more than available stock');
-        return;
-      }
-      setCart(cart.map(cartItem =>
-        cartItem.id === item.id
-          ? { ...cartItem, quantity: cartItem.quantity + 1 }
-          : cartItem
-      ));
-    } else {
-      setCart([...cart, { ...item, quantity: 1, selectedModifiers: [] }]);
+    if (needsBundleChoice(item, menuItems)) {
+      setPendingBundle(item);
+      return;
     }
-    toast.success(`${item.name} added to order`);
+    addLine(item, isBundle(item) ? getDefaultComponents(item, menuItems) : undefined, variantId);
   };
 
-  const updateQuantity = (itemId: string, change: number) => {
-    setCart(cart.map(item => {
-      if (item.id === itemId) {
-        const newQuantity = Math.max(0, item.quantity + change);
-        if (newQuantity > item.stock) {
-          toast.error('Cannot exceed available stock');
-          return item;
-        }
-        return { ...item, quantity: newQuantity };
-      }
-      return item;
-    }).filter(item => item.quantity > 0));
+  // Deals with different picks, or items with different sizes or modifiers, go on separate lines
+  const addLine = (item: MenuItem, components?: BundleComponent[], variantId?: string) => {
+    const selectedModifiers = getDefaultModifiers(item);
+    const existingItem = cart.find(cartItem =>
+      cartItem.id === item.id &&
+      cartItem.variantId === variantId &&
+      isSameSelection(cartItem.components, components) &&
+      isSameModifiers(cartItem.selectedModifiers, selectedModifiers)
+    );
+    const newCart = existingItem
+      ? cart.map(cartItem =>
+          cartItem.lineId === existingItem.lineId
+            ? { ...cartItem, quantity: cartItem.quantity + 1 }
+            : cartItem
+        )
+      : [...cart, { ...item, lineId: uuidv4(), variantId, quantity: 1, selectedModifiers, components, notes: '' }];
+
+    if (!hasStockFor(getStockLines(newCart), menuItems)) {
+      toast.error('Cannot add more than available stock');
+      return;
+    }
+    setCart(newCart);
+    toast.success(`${formatItemName(item.name, getVariant(item, variantId)?.name)} added to order`);
   };
 
-  const toggleModifier = (itemId: string, modifier: string) => {
-    setCart(cart.map(item => {
-      if (item.id === itemId) {
-        const modifiers = item.selectedModifiers.includes(modifier)
-          ? item.selectedModifiers.filter(m => m !== modifier)
-          : [...item.selectedModifiers, modifier];
-        return { ...item, selectedModifiers: modifiers };
-      }
-      return item;
-    }));
+  const updateQuantity = (lineId: string, change: number) => {
+    const newCart = cart.map(item =>
+      item.lineId === lineId ? { ...item, quantity: Math.max(0, item.quantity + change) } : item
+    );
+    if (change > 0 && !hasStockFor(getStockLines(newCart), menuItems)) {
+      toast.error('Cannot exceed available stock');
+      return;
+    }
+    setCart(newCart.filter(item => item.quantity > 0));
+  };
+
+  const toggleModifier = (lineId: string, group: ModifierGroup, optionId: string) => {
+    setCart(cart.map(item => item.lineId === lineId
+      ? { ...item, selectedModifiers: toggleModifierOption(item.selectedModifiers, group, optionId) }
+      : item
+    ));
+  };
+
+  const updateSeat = (lineId: string, seat: number | undefined) => {
+    setCart(cart.map(item => item.lineId === lineId ? { ...item, seat } : item));
+  };
+
+  const updateNotes = (lineId: string, notes: string) => {
+    setCart(cart.map(item => item.lineId === lineId ? { ...item, notes } : item));
   };
 
   const calculateTotal = () => {
-    return cart.reduce((total, item) => total + (item.price * item.quantity), 0);
+    return cart.reduce((total, item) => total + (getUnitPrice(item) * item.quantity), 0);
   };
 
   const sendOrderToKitchen = async () => {
@@ -119,66 +234,110 @@ const TakeOrders: React.FC = () => {
       return;
     }
 
+    const modifierProblem = cart.map(item => validateModifiers(item, item.selectedModifiers)).find(Boolean);
+    if (modifierProblem) {
+      toast.error(modifierProblem);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      const orderId = uuidv4();
-      const total = calculateTotal();
-      const tax = total * 0.16;
-      const serviceCharge = total * 0.05;
-      const finalTotal = total + tax + serviceCharge;
-
-      const order = {
-        id: orderId,
-        tableId: selectedTable,
-        waiterId: user?.id || '',
-        status: 'pending' as const,
-        total,
-        discount: 0,
-        tax,
-        serviceCharge,
-        finalTotal,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      await createOrder(order);
-
-      for (const item of cart) {
-        const orderItem = {
+      const table = tables.find(t => t.id === selectedTable);
+
+      if (activeOrder && user) {
+        // Running tab: append this round to the table's open bill
+        const { ticket } = await appendOrderItems(activeOrder.id, cart.map(item => ({
           id: uuidv4(),
-          orderId,
           menuItemId: item.id,
+          variantId: item.variantId,
+          variantName: getVariant(item, item.variantId)?.name,
           quantity: item.quantity,
-          price: item.price,
+          price: getUnitPrice(item),
           modifiers: item.selectedModifiers,
-          totalPrice: item.price * item.quantity,
+          components: item.components,
+          notes: item.notes.trim() || undefined,
+          totalPrice: getUnitPrice(item) * item.quantity,
+          seat: item.seat,
+        })), user, { notes: orderNotes.trim() || undefined, guestAllergens });
+
+        addNotification({
+          type: 'order_created',
+          orderId: activeOrder.id,
+          message: `Round ${ticket} for Table ${table?.number} by ${user.name}`,
+          targetRole: 'chef',
+        });
+
+        toast.success(`Round ${ticket} sent to kitchen!`);
+      } else {
+        const orderId = uuidv4();
+        const createdAt = new Date();
+        const lines = cart.map(item => ({ menuItemId: item.id, quantity: item.quantity, totalPrice: getUnitPrice(item) * item.quantity }));
+        // Automatic promotions only; coupons and manual discounts are given at the POS
+        const discounts = calculateDiscounts(lines, promotions, menuItems, { at: createdAt });
+
+        const order: Order = {
+          id: orderId,
+          tableId: selectedTable,
+          waiterId: user?.id || '',
+          status: 'pending',
+          statusHistory: createStatusHistory(user?.id || ''),
+          paymentStatus: 'unpaid',
+          orderType: 'dine-in',
+          ...calculateOrderTotals(
+            lines,
+            { orderType: 'dine-in' },
+            { settings: taxSettings, menuItems, categories },
+            getDiscountTotal(discounts)
+          ),
+          discounts,
+          notes: orderNotes.trim() || undefined,
+          guestAllergens,
+          createdAt,
+          updatedAt: new Date(),
         };
-        await createOrderItem(orderItem);
-      }
 
-      const table = tables.find(t => t.id === selectedTable);
-      if (table) {
-        await updateTable({ ...table, status: 'occupied' });
-        // Optimistic UI update
-        setTables(prevTables => prevTables.map(t => t.id === selectedTable ? { ...t, status: 'occupied' } : t));
-      }
+        const orderItems: OrderItem[] = cart.map(item => ({
+          id: uuidv4(),
+          orderId,
+          menuItemId: item.id,
+          variantId: item.variantId,
+          variantName: getVariant(item, item.variantId)?.name,
+          quantity: item.quantity,
+          price: getUnitPrice(item),
+          modifiers: item.selectedModifiers,
+          components: item.components,
+          notes: item.notes.trim() || undefined,
+          totalPrice: getUnitPrice(item) * item.quantity,
+          seat: item.seat,
+          ticket: 1,
+        }));
+
+        // Also marks the table occupied
+        await checkoutOrder(order, orderItems);
 
-      addNotification({
-        type: 'order_created',
-        orderId,
-        message: `New order for Table ${table?.number} by ${user?.name}`,
-        targetRole: 'chef',
-      });
+        if (table) {
+          setTables(prevTables => prevTables.map(t => t.id === selectedTable ? { ...t, status: 'occupied' } : t));
+        }
+
+        addNotification({
+          type: 'order_created',
+          orderId,
+          message: `New order for Table ${table?.number} by ${user?.name}`,
+          targetRole: 'chef',
+        });
+
+        toast.success('Order sent to kitchen!');
+      }
 
       setCart([]);
-      setSelectedTable('');
-      
-      toast.success('Order sent to kitchen!');
+      setOrderNotes('');
+      clearTableSelection();
+      loadData(); // Refresh data to update stock
       
     } catch (error) {
       console.error('Error sending order:', error);
-      toast.error('Failed to send order to kitchen');
+      toast.error(error instanceof Error ? error.message : 'Failed to send order to kitchen');
     } finally {
       setIsSubmitting(false);
     }
@@ -211,15 +370,15 @@ const TakeOrders: React.FC = () => {
             {tables.map(table => (
               <motion.button
                 key={table.id}
-                onClick={() => table.status === 'available' && setSelectedTable(table.id)}
-                disabled={table.status !== 'available'}
+                onClick={() => selectTable(table)}
+                disabled={table.status === 'reserved'}
                 className={`p-3 border-2 rounded-lg text-center font-medium transition-all duration-200 ${
                   selectedTable === table.id
                     ? 'border-primary bg-primary/10 scale-105 shadow-lg'
                     : getTableStatusColor(table.status)
-                } ${table.status !== 'available' ? 'cursor-not-allowed opacity-60' : 'hover:border-primary/50'}`}
-                whileHover={{ scale: table.status === 'available' ? 1.05 : 1 }}
-                whileTap={{ scale: table.status === 'available' ? 0.95 : 1 }}
+                } ${table.status === 'reserved' ? 'cursor-not-allowed opacity-60' : 'hover:border-primary/50'}`}
+                whileHover={{ scale: table.status !== 'reserved' ? 1.05 : 1 }}
+                whileTap={{ scale: table.status !== 'reserved' ? 0.95 : 1 }}
               >
                 <div className="text-sm">Table</div>
                 <div className="text-lg font-bold">{table.number}</div>
@@ -229,49 +388,67 @@ const TakeOrders: React.FC = () => {
           </div>
         </div>
         
-        <div className="flex space-x-2 mb-6 overflow-x-auto pb-2">
-          {categories.map(category => (
-            <button
-              key={category.id}
-              onClick={() => setSelectedCategory(category.id)}
-              className={`px-4 py-2 rounded-full whitespace-nowrap transition-all duration-200 text-sm font-medium ${
-                selectedCategory === category.id
-                  ? 'bg-primary text-white shadow'
-                  : 'bg-surface text-text-secondary hover:bg-background'
-              }`}
-            >
-              {category.name}
-            </button>
-          ))}
-        </div>
+        <CategoryTabs
+          categories={visibleCategories}
+          selectedId={selectedCategory}
+          onSelect={setSelectedCategory}
+          variant="theme"
+        />
 
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-          {filteredMenuItems.map(item => (
-            <motion.div
-              key={item.id}
-              layout
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ duration: 0.2 }}
-              className={`bg-surface p-4 rounded-lg shadow-sm border border-border-color cursor-pointer transition-all duration-200 hover:shadow-md hover:border-primary/50 ${
-                item.stock <= 0 ? 'opacity-50' : ''
-              }`}
-              onClick={() => addToCart(item)}
-            >
-              <h3 className="font-medium text-text-primary mb-1">{item.name}</h3>
-              <p className="text-sm text-text-secondary mb-2 line-clamp-2 h-10">{item.description}</p>
-              <div className="flex justify-between items-center">
-                <span className="text-lg font-bold text-primary">Rs. {item.price}</span>
-                <span className={`text-xs px-2 py-1 rounded-full font-medium ${
-                  item.stock > 10 ? 'bg-green-500/10 text-green-400' :
-                  item.stock > 0 ? 'bg-yellow-500/10 text-yellow-400' :
-                  'bg-red-500/10 text-red-400'
-                }`}>
-                  Stock: {item.stock}
-                </span>
-              </div>
-            </motion.div>
-          ))}
+          {filteredMenuItems.map(item => {
+            const available = getAvailableStock(item, menuItems);
+            const unavailableReason = getUnavailableReason(item, menuItems, categories, new Date());
+            return (
+              <motion.div
+                key={item.id}
+                layout
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.2 }}
+                className={`bg-surface p-4 rounded-lg shadow-sm border border-border-color cursor-pointer transition-all duration-200 hover:shadow-md hover:border-primary/50 ${
+                  available <= 0 || unavailableReason ? 'opacity-50' : ''
+                }`}
+                onClick={() => addToCart(item)}
+              >
+                <MenuItemImage imageId={item.image} alt={item.name} className="w-full h-24 rounded-md mb-2" />
+                <h3 className="font-medium text-text-primary mb-1">{item.name}</h3>
+                <p className="text-sm text-text-secondary mb-2 line-clamp-2 h-10">{item.description}</p>
+                {unavailableReason && (
+                  <p className="text-xs font-medium text-red-400 mb-2">Unavailable: {unavailableReason}</p>
+                )}
+                {hasVariants(item) ? (
+                  <div className="flex flex-wrap gap-1">
+                    {item.variants!.map(variant => (
+                      <button
+                        key={variant.id}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          addToCart(item, variant.id);
+                        }}
+                        disabled={variant.stock <= 0 || !!unavailableReason}
+                        className="flex-1 text-xs px-2 py-1 rounded-lg border border-primary/30 text-primary hover:bg-primary/10 disabled:opacity-50"
+                      >
+                        <span className="block font-medium">{variant.name}</span>
+                        <span className="block">Rs. {variant.price} · {variant.stock}</span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="flex justify-between items-center">
+                    <span className="text-lg font-bold text-primary">Rs. {item.price}</span>
+                    <span className={`text-xs px-2 py-1 rounded-full font-medium ${
+                      available > 10 ? 'bg-green-500/10 text-green-400' :
+                      available > 0 ? 'bg-yellow-500/10 text-yellow-400' :
+                      'bg-red-500/10 text-red-400'
+                    }`}>
+                      {isBundle(item) ? 'Deal' : usesRecipe(item) ? 'Can make' : 'Stock'}: {available}
+                    </span>
+                  </div>
+                )}
+              </motion.div>
+            );
+          })}
         </div>
       </div>
 
@@ -289,6 +466,33 @@ const TakeOrders: React.FC = () => {
           </div>
         )}
 
+        {activeOrder && (
+          <div className="mb-4 p-3 border border-border-color rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center space-x-2">
+                <Receipt className="text-primary" size={16} />
+                <span className="text-sm font-medium text-text-primary">Open Bill #{activeOrder.id.slice(0, 8)}</span>
+              </div>
+              <span className="text-sm font-bold text-text-primary">Rs. {activeOrder.finalTotal.toFixed(2)}</span>
+            </div>
+            <div className="space-y-1 max-h-32 overflow-y-auto">
+              {activeOrderItems.map(item => (
+                <div key={item.id} className="flex justify-between text-xs text-text-secondary">
+                  <span>
+                    {getOrderItemName(item, menuItems)} x{item.quantity}
+                    {item.notes && <span className="block text-orange-500">Note: {item.notes}</span>}
+                  </span>
+                  <span>Round {item.ticket}</span>
+                </div>
+              ))}
+            </div>
+            {activeOrder.notes && (
+              <p className="text-xs text-orange-500 mt-2 whitespace-pre-line">{activeOrder.notes}</p>
+            )}
+            <p className="text-xs text-text-secondary mt-2">New items will be sent to the kitchen as a new round on this bill.</p>
+          </div>
+        )}
+
         <div className="flex-1 space-y-4 mb-6 max-h-[50vh] overflow-y-auto pr-2">
           <AnimatePresence>
             {cart.length === 0 ? (
@@ -302,7 +506,7 @@ const TakeOrders: React.FC = () => {
             ) : (
               cart.map(item => (
                 <motion.div 
-                  key={item.id} 
+                  key={item.lineId} 
                   layout
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -310,38 +514,70 @@ const TakeOrders: React.FC = () => {
                   className="border border-border-color rounded-lg p-3"
                 >
                   <div className="flex justify-between items-start mb-2">
-                    <h4 className="font-medium text-sm text-text-primary">{item.name}</h4>
-                    <span className="text-sm font-medium text-text-primary">Rs. {(item.price * item.quantity).toFixed(2)}</span>
+                    <div>
+                      <h4 className="font-medium text-sm text-text-primary">{formatItemName(item.name, getVariant(item, item.variantId)?.name)}</h4>
+                      {item.components && (
+                        <p className="text-xs text-text-secondary">{item.components.map(component => formatComponent(component, menuItems)).join(', ')}</p>
+                      )}
+                      {getGuestConflicts(item).length > 0 && (
+                        <p className="text-xs font-medium text-red-500 flex items-center space-x-1">
+                          <AlertTriangle size={12} />
+                          <span>Contains {formatAllergens(getGuestConflicts(item))}</span>
+                        </p>
+                      )}
+                    </div>
+                    <span className="text-sm font-medium text-text-primary">Rs. {(getUnitPrice(item) * item.quantity).toFixed(2)}</span>
                   </div>
                   
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
-                      <button onClick={() => updateQuantity(item.id, -1)} className="bg-surface-darker hover:bg-border-color p-1 rounded"><Minus size={16} /></button>
+                      <button onClick={() => updateQuantity(item.lineId, -1)} className="bg-surface-darker hover:bg-border-color p-1 rounded"><Minus size={16} /></button>
                       <span className="w-8 text-center font-medium">{item.quantity}</span>
-                      <button onClick={() => updateQuantity(item.id, 1)} className="bg-surface-darker hover:bg-border-color p-1 rounded"><Plus size={16} /></button>
+                      <button onClick={() => updateQuantity(item.lineId, 1)} className="bg-surface-darker hover:bg-border-color p-1 rounded"><Plus size={16} /></button>
                     </div>
+                    <label className="flex items-center space-x-1 text-xs text-text-secondary">
+                      <span>Seat</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={item.seat ?? ''}
+                        placeholder="All"
+                        onChange={(e) => updateSeat(item.lineId, parseInt(e.target.value) || undefined)}
+                        className="w-14 text-right border border-border-color rounded px-1 py-0.5"
+                      />
+                    </label>
                   </div>
 
-                  {item.modifiers.length > 0 && (
-                    <div className="mt-2">
-                      <p className="text-xs text-text-secondary mb-1">Modifiers:</p>
+                  {item.modifierGroups.map(group => (
+                    <div key={group.id} className="mt-2">
+                      <p className="text-xs text-text-secondary mb-1">
+                        {group.name} ({describeGroupRule(group)})
+                      </p>
                       <div className="flex flex-wrap gap-1">
-                        {item.modifiers.map(modifier => (
+                        {group.options.map(option => (
                           <button
-                            key={modifier}
-                            onClick={() => toggleModifier(item.id, modifier)}
+                            key={option.id}
+                            onClick={() => toggleModifier(item.lineId, group, option.id)}
                             className={`text-xs px-2 py-1 rounded-full transition-colors ${
-                              item.selectedModifiers.includes(modifier)
+                              item.selectedModifiers.some(modifier => modifier.optionId === option.id && modifier.groupId === group.id)
                                 ? 'bg-primary text-white'
                                 : 'bg-surface text-text-secondary'
                             }`}
                           >
-                            {modifier}
+                            {option.name}{option.price > 0 ? ` +${option.price}` : ''}
                           </button>
                         ))}
                       </div>
                     </div>
-                  )}
+                  ))}
+
+                  <input
+                    type="text"
+                    value={item.notes}
+                    onChange={(e) => updateNotes(item.lineId, e.target.value)}
+                    placeholder="Note for kitchen, e.g. no onions"
+                    className="mt-2 w-full text-xs border border-border-color rounded px-2 py-1"
+                  />
                 </motion.div>
               ))
             )}
@@ -358,6 +594,31 @@ const TakeOrders: React.FC = () => {
               <p className="text-xs text-text-secondary">*Tax and service charges will be added at checkout</p>
             </div>
 
+            <div className="mt-4">
+              <p className="text-xs text-text-secondary mb-1">Guest allergies</p>
+              <div className="flex flex-wrap gap-1">
+                {ALLERGENS.map(allergen => (
+                  <button
+                    key={allergen}
+                    onClick={() => toggleGuestAllergen(allergen)}
+                    className={`text-xs px-2 py-1 rounded-full transition-colors ${
+                      guestAllergens.includes(allergen) ? 'bg-red-500 text-white' : 'bg-surface text-text-secondary'
+                    }`}
+                  >
+                    {ALLERGEN_LABELS[allergen]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <textarea
+              value={orderNotes}
+              onChange={(e) => setOrderNotes(e.target.value)}
+              placeholder={activeOrder ? 'Notes for this round, e.g. serve after starters' : 'Order notes, e.g. serve after starters'}
+              rows={2}
+              className="w-full mt-4 text-sm border border-border-color rounded-lg px-3 py-2"
+            />
+
             <motion.button
               onClick={sendOrderToKitchen}
               disabled={!selectedTable || isSubmitting}
@@ -366,11 +627,24 @@ const TakeOrders: React.FC = () => {
               whileTap={{ scale: 0.98 }}
             >
               <Send size={20} />
-              <span>{isSubmitting ? 'Sending...' : 'Send to Kitchen'}</span>
+              <span>{isSubmitting ? 'Sending...' : activeOrder ? 'Add to Order' : 'Send to Kitchen'}</span>
             </motion.button>
           </div>
         )}
       </div>
+
+      {pendingBundle && (
+        <BundleModal
+          bundle={pendingBundle}
+          menuItems={menuItems}
+          categories={categories}
+          onConfirm={(components) => {
+            addLine(pendingBundle, components);
+            setPendingBundle(null);
+          }}
+          onClose={() => setPendingBundle(null)}
+        />
+      )}
     </div>
   );
 };
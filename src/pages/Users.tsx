@@ -12,6 +12,7 @@ interface UserForm {
   email: string;
   password: string;
   role: 'admin' | 'cashier' | 'waiter' | 'chef';
+  pin: string;
 }
 
 const Users: React.FC = () => {
@@ -21,7 +22,8 @@ const Users: React.FC = () => {
     name: '',
     email: '',
     password: '',
-    role: 'waiter'
+    role: 'waiter',
+    pin: ''
   });
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -58,6 +60,11 @@ const Users: React.FC = () => {
       return;
     }
 
+    if (editingUser.pin && !/^\d{4,6}$/.test(editingUser.pin)) {
+      toast.error('Manager PIN must be 4 to 6 digits');
+      return;
+    }
+
     // Check for duplicate email
     const existingUser = users.find(user => 
       user.email === editingUser.email && user.id !== editingUser.id
@@ -69,13 +76,21 @@ const Users: React.FC = () => {
     }
 
     try {
+      const { pin, ...userFields } = editingUser;
+      const existingPin = users.find(user => user.id === editingUser.id)?.pin;
+      // Only managers approve voids and refunds; a blank PIN keeps the current one
+      const hashedPin = editingUser.role !== 'admin'
+        ? undefined
+        : pin ? await bcrypt.hash(pin, 10) : existingPin;
+
       if (editingUser.id) {
         // Update existing user
         const hashedPassword = await bcrypt.hash(editingUser.password, 10);
         const updatedUser: User = {
-          ...editingUser,
+          ...userFields,
           id: editingUser.id,
           password: hashedPassword,
+          pin: hashedPin,
           createdAt: users.find(user => user.id === editingUser.id)?.createdAt || new Date()
         };
         await updateUser(updatedUser);
@@ -84,9 +99,10 @@ const Users: React.FC = () => {
         // Create new user
         const hashedPassword = await bcrypt.hash(editingUser.password, 10);
         const newUser: User = {
-          ...editingUser,
+          ...userFields,
           id: uuidv4(),
           password: hashedPassword,
+          pin: hashedPin,
           createdAt: new Date()
         };
         await createUser(newUser);
@@ -107,7 +123,8 @@ const Users: React.FC = () => {
       name: user.name,
       email: user.email,
       password: '', // Don't pre-fill password for security
-      role: user.role
+      role: user.role,
+      pin: ''
     });
     setShowForm(true);
   };
@@ -130,7 +147,8 @@ const Users: React.FC = () => {
       name: '',
       email: '',
       password: '',
-      role: 'waiter'
+      role: 'waiter',
+      pin: ''
     });
     setShowForm(false);
     setShowPassword(false);
@@ -169,7 +187,8 @@ const Users: React.FC = () => {
               name: '',
               email: '',
               password: '',
-              role: 'waiter'
+              role: 'waiter',
+              pin: ''
             });
             setShowForm(true);
           }}
@@ -307,6 +326,17 @@ const Users: React.FC = () => {
                 <option value="chef">Chef</option>
                 <option value="admin">Admin</option>
               </select>
+
+              {editingUser.role === 'admin' && (
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={editingUser.pin}
+                  onChange={(e) => setEditingUser({...editingUser, pin: e.target.value})}
+                  placeholder={editingUser.id ? 'Manager PIN (leave blank to keep current)' : 'Manager PIN (4-6 digits)'}
+                  className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              )}
             </div>
 
             <div className="flex space-x-2 mt-6">
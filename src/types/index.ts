@@ -4,24 +4,162 @@ export interface User {
   email: string;
   password: string;
   role: 'admin' | 'cashier' | 'waiter' | 'chef';
+  // Hashed manager PIN used to approve voids and refunds
+  pin?: string;
   createdAt: Date;
 }
 
+// Where a category or item is offered: the cashier's POS, waiters' order taking
+// and menu, both, or neither
+export type MenuVisibility = 'all' | 'pos' | 'waiter' | 'hidden';
+
+export type MenuChannel = 'pos' | 'waiter';
+
 export interface Category {
   id: string;
   name: string;
+  // Sub-categories sit one level under a top-level category
+  parentId?: string;
+  // Position among its siblings, lowest first
+  sortOrder: number;
+  // Hex colour and icon name for the order screens' category tabs
+  color?: string;
+  icon?: string;
+  visibility: MenuVisibility;
+  // Tax class for the category's items unless an item sets its own
+  taxClassId?: string;
+  // When the category's items can be ordered; always when empty
+  availability?: Schedule[];
   createdAt: Date;
 }
 
+export type IngredientUnit = 'kg' | 'g' | 'l' | 'ml' | 'pcs';
+
+// Something the kitchen buys and counts, e.g. chicken by the kg
+export interface Ingredient {
+  id: string;
+  name: string;
+  // Stock is kept in this unit; recipes may use a smaller one of the same kind
+  unit: IngredientUnit;
+  stock: number;
+  // Flagged on the inventory screen at or below this amount
+  lowStockLevel: number;
+  createdAt: Date;
+}
+
+// How much of one ingredient a single dish, size or modifier option uses
+export interface RecipeLine {
+  ingredientId: string;
+  quantity: number;
+  unit: IngredientUnit;
+}
+
+export type BundleSlotType = 'fixed' | 'choice';
+
+// One part of a deal: a fixed item, or one item picked from several options
+export interface BundleSlot {
+  id: string;
+  name: string;
+  type: BundleSlotType;
+  menuItemIds: string[];
+  quantity: number;
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  // Added to the item's price for each unit ordered
+  price: number;
+  isDefault: boolean;
+  // Ingredients used on top of the item's own recipe, per unit ordered
+  recipe?: RecipeLine[];
+}
+
+// A choice made when ordering, e.g. "Spice level: choose exactly 1"; optional when minSelect is 0
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  minSelect: number;
+  maxSelect: number;
+  options: ModifierOption[];
+}
+
+// A size or portion sold at its own price from its own stock, e.g. half and full
+export interface MenuItemVariant {
+  id: string;
+  name: string;
+  price: number;
+  stock: number;
+  // Replaces the item's recipe for this size
+  recipe?: RecipeLine[];
+}
+
+export type Allergen = 'nuts' | 'dairy' | 'gluten' | 'egg' | 'shellfish';
+
+export type DietaryTag = 'vegetarian' | 'halal-certified';
+
+// 0 is not spicy, 3 is the hottest
+export type SpiceLevel = 0 | 1 | 2 | 3;
+
 export interface MenuItem {
   id: string;
   name: string;
   categoryId: string;
   price: number;
   description: string;
-  modifiers: string[];
+  modifierGroups: ModifierGroup[];
+  // Deals are sold from their components' stock and sized items from their
+  // variants' stock, not their own; items with a recipe are sold from their
+  // ingredients' stock instead
   stock: number;
+  recipe?: RecipeLine[];
+  bundle?: BundleSlot[];
+  variants?: MenuItemVariant[];
+  allergens: Allergen[];
+  dietaryTags: DietaryTag[];
+  spiceLevel: SpiceLevel;
+  // When the item can be ordered, on top of its category's hours; always when empty
+  availability?: Schedule[];
+  // Position within its category, lowest first
+  sortOrder: number;
+  visibility: MenuVisibility;
+  // Pulled ("86'd") by the kitchen until switched back on, whatever the stock
+  unavailable?: boolean;
+  // Id of the item's photo in the menu images store
   image?: string;
+  taxClassId?: string;
+  createdAt: Date;
+}
+
+// One change from the bulk editor to an item, or to one of its sizes; fields
+// left unset are not touched
+export interface MenuItemEdit {
+  menuItemId: string;
+  variantId?: string;
+  price?: number;
+  stock?: number;
+  categoryId?: string;
+}
+
+export type PriceChangeStatus = 'pending' | 'applied' | 'cancelled';
+
+// New prices set up ahead of time and applied together once `effectiveAt` passes
+export interface ScheduledPriceChange {
+  id: string;
+  name: string;
+  effectiveAt: Date;
+  edits: MenuItemEdit[];
+  status: PriceChangeStatus;
+  createdBy: string;
+  createdAt: Date;
+  appliedAt?: Date;
+}
+
+// A menu photo, resized for menus and with a small thumbnail for order tiles
+export interface MenuImage {
+  id: string;
+  image: Blob;
+  thumbnail: Blob;
   createdAt: Date;
 }
 
@@ -32,36 +170,254 @@ export interface Table {
   createdAt: Date;
 }
 
+export type OrderStatus = 'pending' | 'in-progress' | 'ready' | 'served' | 'cancelled';
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  at: Date;
+  by: string;
+}
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'refunded';
+
+export type AdjustmentReason =
+  | 'customer-complaint'
+  | 'wrong-item'
+  | 'quality-issue'
+  | 'duplicate-charge'
+  | 'entered-in-error'
+  | 'other';
+
+// Manager sign-off recorded on voided items and refunds
+export interface AdjustmentApproval {
+  reason: AdjustmentReason;
+  note?: string;
+  approvedBy: string;
+  approvedAt: Date;
+}
+
+export type OrderType = 'dine-in' | 'takeaway' | 'delivery';
+
 export interface Order {
   id: string;
   tableId: string;
   waiterId: string;
-  status: 'pending' | 'in-progress' | 'ready' | 'served' | 'cancelled';
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  paymentStatus: PaymentStatus;
+  orderType: OrderType;
+  // Tender the bill was priced for, when a tax rule depends on it
+  paymentMethod?: TenderMethod;
+  // Net of any tax included in menu prices
   total: number;
+  // Sum of `discounts`
   discount: number;
+  discounts: AppliedDiscount[];
+  couponCode?: string;
+  manualDiscount?: ManualDiscount;
   tax: number;
+  taxLines: TaxLine[];
   serviceCharge: number;
   finalTotal: number;
+  // Instructions for the whole order, e.g. "serve after starters"
+  notes?: string;
+  // Allergies the waiter flagged for the guest
+  guestAllergens?: Allergen[];
   createdAt: Date;
   updatedAt: Date;
+  closedAt?: Date;
+  // Returned by the FBR POS service once the sale has been reported
+  fiscalInvoiceNumber?: string;
+}
+
+// The item picked for a deal's slot; `quantity` is per deal sold
+export interface BundleComponent {
+  slotId: string;
+  menuItemId: string;
+  variantId?: string;
+  variantName?: string;
+  quantity: number;
+}
+
+// A modifier as it was priced when ordered, so later menu edits do not change old bills
+export interface SelectedModifier {
+  groupId: string;
+  optionId: string;
+  name: string;
+  price: number;
 }
 
 export interface OrderItem {
   id: string;
   orderId: string;
   menuItemId: string;
+  variantId?: string;
+  variantName?: string;
   quantity: number;
+  // Unit price including modifiers
   price: number;
-  modifiers: string[];
+  modifiers: SelectedModifier[];
+  components?: BundleComponent[];
+  // Special instructions for this line, e.g. "no onions, allergy"
+  notes?: string;
   totalPrice: number;
+  ticket: number;
+  seat?: number;
+  voided?: AdjustmentApproval;
+}
+
+export type TenderMethod = 'cash' | 'card';
+
+export interface PaymentTender {
+  method: TenderMethod;
+  // What the guest handed over, and how much of it went to the bill and tip
+  tendered: number;
+  applied: number;
 }
 
 export interface Payment {
   id: string;
   orderId: string;
-  method: 'cash' | 'card';
+  method: TenderMethod | 'mixed';
+  // Applied to the bill; excludes the tip and any change given
   amount: number;
+  tenders: PaymentTender[];
+  changeGiven: number;
+  tip: number;
+  // Serving waiter the tip is attributed to
+  waiterId: string;
   paidAt: Date;
+  // Set when the payment settles one share of a split bill or refunds items
+  label?: string;
+  orderItemIds?: string[];
+  // Present on refunds, which are recorded as negative payments
+  refund?: AdjustmentApproval;
+  // Issued by FBR for a refund's credit note
+  fiscalInvoiceNumber?: string;
+}
+
+// Tax configuration. Rates are percentages.
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+// Group of rates charged together on the items assigned to the class
+export interface TaxClass {
+  id: string;
+  name: string;
+  rateIds: string[];
+}
+
+// Replaces a rate's percentage when the order matches every condition given
+export interface TaxRule {
+  id: string;
+  rateId: string;
+  rate: number;
+  paymentMethod?: TenderMethod;
+  orderType?: OrderType;
+}
+
+export interface TaxSettings {
+  id: 'tax';
+  rates: TaxRate[];
+  classes: TaxClass[];
+  defaultClassId: string;
+  rules: TaxRule[];
+  // Menu prices already include tax, which is then extracted rather than added
+  pricesIncludeTax: boolean;
+  serviceChargeRate: number;
+  serviceChargeOrderTypes: OrderType[];
+}
+
+// Connection to the FBR POS invoice integration service
+export interface FbrSettings {
+  id: 'fbr';
+  enabled: boolean;
+  endpoint: string;
+  posId: string;
+  accessToken: string;
+  // Pakistan Customs Tariff code reported for menu items
+  pctCode: string;
+}
+
+export type PromotionType = 'percentage' | 'fixed' | 'buy-x-get-y';
+
+export type PromotionScope = 'order' | 'categories' | 'items';
+
+// Weekly time window. Days are 0 (Sunday) to 6; times are HH:mm and may wrap past midnight.
+export interface Schedule {
+  days: number[];
+  startTime: string;
+  endTime: string;
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  // Percentage or rupee amount; unused for buy-X-get-Y
+  value: number;
+  scope: PromotionScope;
+  categoryIds: string[];
+  menuItemIds: string[];
+  buyQuantity: number;
+  getQuantity: number;
+  minSpend: number;
+  // Coupon promotions only apply once their code is entered
+  couponCode?: string;
+  // Happy hour
+  schedule?: Schedule;
+  active: boolean;
+  createdAt: Date;
+}
+
+// Discount typed in at the till rather than coming from a promotion
+export interface ManualDiscount {
+  type: 'percentage' | 'fixed';
+  value: number;
+  reason: string;
+  appliedBy: string;
+  // Manager who approved a discount above the cashier's limit
+  approvedBy?: string;
+}
+
+export interface AppliedDiscount {
+  promotionId?: string;
+  name: string;
+  amount: number;
+  couponCode?: string;
+}
+
+// Largest manual discount each role may give without approval, as a percentage of the subtotal
+export interface DiscountSettings {
+  id: 'discounts';
+  manualLimits: Record<User['role'], number>;
+}
+
+export type AppSettings = TaxSettings | FbrSettings | DiscountSettings;
+
+// Paid order waiting to be reported to FBR; removed once an invoice number is returned
+export interface FiscalQueueEntry {
+  id: string;
+  orderId: string;
+  // Set on a refund's credit note; the order's sale invoice has none
+  paymentId?: string;
+  attempts: number;
+  lastError?: string;
+  // FBR refused it; only retried by hand, e.g. after fixing the settings
+  rejected?: boolean;
+  nextAttemptAt: Date;
+  createdAt: Date;
+}
+
+// Tax charged at one rate on an order
+export interface TaxLine {
+  rateId: string;
+  name: string;
+  rate: number;
+  amount: number;
 }
 
 export interface AuthContextType {
@@ -78,3 +434,33 @@ export interface NotificationEvent {
   timestamp: Date;
   targetRole: string;
 }
+
+export type AuditEntityType =
+  | 'users'
+  | 'categories'
+  | 'menuItems'
+  | 'menuImages'
+  | 'tables'
+  | 'orders'
+  | 'orderItems'
+  | 'payments'
+  | 'settings'
+  | 'promotions'
+  | 'priceChanges'
+  | 'ingredients';
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: Date;
+  actorId: string;
+  actorName: string;
+  action: 'create' | 'update' | 'delete' | 'restore';
+  entityType: AuditEntityType;
+  entityId: string;
+  changes: Record<string, AuditChange>;
+}
@@ -0,0 +1,45 @@
+import bcrypt from 'bcryptjs';
+import { AdjustmentApproval, AdjustmentReason, User } from '../types';
+import { getAllUsers } from './database';
+
+export const ADJUSTMENT_REASONS: Record<AdjustmentReason, string> = {
+  'customer-complaint': 'Customer complaint',
+  'wrong-item': 'Wrong item',
+  'quality-issue': 'Quality issue',
+  'duplicate-charge': 'Duplicate charge',
+  'entered-in-error': 'Entered in error',
+  other: 'Other',
+};
+
+export const MANAGER_ROLES: User['role'][] = ['admin'];
+
+// Returns the manager whose PIN matches, if any
+export const verifyManagerPin = async (pin: string): Promise<User | undefined> => {
+  if (!pin) return undefined;
+
+  const managers = (await getAllUsers()).filter(user => MANAGER_ROLES.includes(user.role) && user.pin);
+  for (const manager of managers) {
+    if (await bcrypt.compare(pin, manager.pin!)) {
+      return manager;
+    }
+  }
+  return undefined;
+};
+
+// Adjustments cannot be approved until at least one manager has set a PIN
+export const hasManagerPin = async (): Promise<boolean> => {
+  return (await getAllUsers()).some(user => MANAGER_ROLES.includes(user.role) && !!user.pin);
+};
+
+export const createApproval = (
+  manager: User,
+  reason: AdjustmentReason,
+  note: string
+): AdjustmentApproval => {
+  return {
+    reason,
+    note: note.trim() || undefined,
+    approvedBy: manager.id,
+    approvedAt: new Date(),
+  };
+};
@@ -0,0 +1,52 @@
+import { Allergen, DietaryTag, MenuItem, OrderItem, SpiceLevel } from '../types';
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  nuts: 'Nuts',
+  dairy: 'Dairy',
+  gluten: 'Gluten',
+  egg: 'Egg',
+  shellfish: 'Shellfish',
+};
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegetarian: 'Vegetarian',
+  'halal-certified': 'Halal-certified supplier',
+};
+
+export const SPICE_LEVEL_LABELS: Record<SpiceLevel, string> = {
+  0: 'Not spicy',
+  1: 'Mild',
+  2: 'Medium',
+  3: 'Hot',
+};
+
+export const ALLERGENS = Object.keys(ALLERGEN_LABELS) as Allergen[];
+export const DIETARY_TAGS = Object.keys(DIETARY_TAG_LABELS) as DietaryTag[];
+export const SPICE_LEVELS = [0, 1, 2, 3] as SpiceLevel[];
+
+export const formatAllergens = (allergens: Allergen[]): string => {
+  return allergens.map(allergen => ALLERGEN_LABELS[allergen]).join(', ');
+};
+
+// For a deal, anything any of its slot options contains
+export const getMenuItemAllergens = (item: MenuItem, menuItems: MenuItem[]): Allergen[] => {
+  const options = (item.bundle ?? []).flatMap(slot => slot.menuItemIds)
+    .map(id => menuItems.find(menuItem => menuItem.id === id));
+  const allergens = [item, ...options].flatMap(menuItem => menuItem?.allergens ?? []);
+  return ALLERGENS.filter(allergen => allergens.includes(allergen));
+};
+
+// A deal also contains whatever its picked components contain
+export const getOrderItemAllergens = (
+  item: Pick<OrderItem, 'menuItemId' | 'components'>,
+  menuItems: MenuItem[]
+): Allergen[] => {
+  const ids = [item.menuItemId, ...(item.components ?? []).map(component => component.menuItemId)];
+  const allergens = ids.flatMap(id => menuItems.find(menuItem => menuItem.id === id)?.allergens ?? []);
+  return ALLERGENS.filter(allergen => allergens.includes(allergen));
+};
+
+// The allergens in `allergens` the guest was flagged for
+export const getAllergenConflicts = (allergens: Allergen[], guestAllergens: Allergen[] = []): Allergen[] => {
+  return allergens.filter(allergen => guestAllergens.includes(allergen));
+};
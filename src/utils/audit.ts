@@ -0,0 +1,71 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AuditChange, AuditEntityType, AuditLogEntry, User } from '../types';
+
+export type AuditActor = Pick<User, 'id' | 'name'>;
+
+export const SYSTEM_ACTOR: AuditActor = { id: 'system', name: 'System' };
+
+// Fields whose values must never be copied into the log
+const REDACTED_FIELDS = new Set(['password', 'pin', 'accessToken']);
+const REDACTED_VALUE = '[redacted]';
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+// Field-level diff of two versions of a record. `before` is undefined for
+// creates and `after` is undefined for deletes.
+export const diffRecords = (before?: object, after?: object): Record<string, AuditChange> => {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+  const changes: Record<string, AuditChange> = {};
+
+  fields.forEach(field => {
+    if (isEqual(beforeRecord[field], afterRecord[field])) return;
+
+    if (REDACTED_FIELDS.has(field)) {
+      changes[field] = {
+        before: field in beforeRecord ? REDACTED_VALUE : undefined,
+        after: field in afterRecord ? REDACTED_VALUE : undefined,
+      };
+    } else {
+      changes[field] = { before: beforeRecord[field], after: afterRecord[field] };
+    }
+  });
+
+  return changes;
+};
+
+export const createAuditEntry = (
+  actor: AuditActor,
+  action: AuditLogEntry['action'],
+  entityType: AuditEntityType,
+  entityId: string,
+  before?: object,
+  after?: object
+): AuditLogEntry => ({
+  id: uuidv4(),
+  timestamp: new Date(),
+  actorId: actor.id,
+  actorName: actor.name,
+  action,
+  entityType,
+  entityId,
+  changes: diffRecords(before, after),
+});
+
+export const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  users: 'User',
+  categories: 'Category',
+  menuItems: 'Menu Item',
+  menuImages: 'Menu Image',
+  tables: 'Table',
+  orders: 'Order',
+  orderItems: 'Order Item',
+  payments: 'Payment',
+  settings: 'Settings',
+  promotions: 'Promotion',
+  priceChanges: 'Price Change',
+  ingredients: 'Ingredient',
+};
@@ -0,0 +1,56 @@
+import { Category, MenuItem, Schedule } from '../types';
+import { formatSchedule, isWithinSchedule } from './schedule';
+
+// How often open menus re-check hours and items the kitchen has pulled
+export const AVAILABILITY_REFRESH_MS = 15000;
+
+export const DEFAULT_AVAILABILITY_WINDOW: Schedule = {
+  days: [0, 1, 2, 3, 4, 5, 6],
+  startTime: '07:00',
+  endTime: '11:00',
+};
+
+const isOpen = (availability: Schedule[] | undefined, at: Date): boolean => {
+  return !availability || availability.length === 0 || availability.some(window => isWithinSchedule(window, at));
+};
+
+export const formatAvailability = (availability: Schedule[]): string => {
+  return availability.map(formatSchedule).join(' · ');
+};
+
+// Why `item` cannot be ordered at `at`, or null when it can. A deal is off when
+// one of its slots has no option left that can be ordered.
+export const getUnavailableReason = (
+  item: MenuItem,
+  menuItems: MenuItem[],
+  categories: Category[],
+  at: Date
+): string | null => {
+  if (item.unavailable) return '86\'d by the kitchen';
+
+  const category = categories.find(candidate => candidate.id === item.categoryId);
+  if (!isOpen(category?.availability, at)) {
+    return `${category!.name}: ${formatAvailability(category!.availability!)}`;
+  }
+  if (!isOpen(item.availability, at)) return formatAvailability(item.availability!);
+
+  const emptySlot = item.bundle?.find(slot => !slot.menuItemIds.some(id => {
+    const option = menuItems.find(menuItem => menuItem.id === id);
+    return option && getUnavailableReason(option, menuItems, categories, at) === null;
+  }));
+  if (emptySlot) return `${emptySlot.name} unavailable`;
+
+  return null;
+};
+
+export const isAvailableNow = (item: MenuItem, menuItems: MenuItem[], categories: Category[], at: Date): boolean => {
+  return getUnavailableReason(item, menuItems, categories, at) === null;
+};
+
+export const validateAvailability = (availability: Schedule[]): string | null => {
+  for (const window of availability) {
+    if (window.days.length === 0) return 'Every time window needs at least one day';
+    if (window.startTime === window.endTime) return 'A time window cannot start and end at the same time';
+  }
+  return null;
+};
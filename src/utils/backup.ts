@@ -0,0 +1,166 @@
+import { format } from 'date-fns';
+import {
+  BACKUP_STORES,
+  BackupData,
+  BackupStoreName,
+  RestoreMode,
+  exportStores,
+  getDatabaseVersion,
+  getStoreKeys,
+  importStores,
+} from './database';
+import { backfillBackupData } from './migrations';
+import { EncodedMenuImage, decodeMenuImage, encodeMenuImage } from './images';
+
+export const BACKUP_FORMAT = 'restaurant-pos-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  dbVersion: number;
+  exportedAt: string;
+  checksum: string;
+  data: BackupData;
+}
+
+export interface RestorePreviewRow {
+  store: BackupStoreName;
+  incoming: number;
+  existing: number;
+  added: number;
+  overwritten: number;
+  removed: number;
+}
+
+export interface RestorePreview {
+  exportedAt: Date;
+  dbVersion: number;
+  rows: RestorePreviewRow[];
+}
+
+// Matches the output of Date.prototype.toJSON
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+const reviveDates = (_key: string, value: unknown) => {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value;
+};
+
+const computeChecksum = async (serializedData: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(serializedData));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const createBackup = async (): Promise<Blob> => {
+  const data = await exportStores();
+  const serializedData = JSON.stringify({
+    ...data,
+    menuImages: await Promise.all(data.menuImages.map(encodeMenuImage)),
+  });
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    dbVersion: getDatabaseVersion(),
+    exportedAt: new Date().toISOString(),
+    checksum: await computeChecksum(serializedData),
+    data: JSON.parse(serializedData),
+  };
+
+  return new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+};
+
+export const getBackupFileName = (date: Date = new Date()): string => {
+  return `restaurant-pos-backup-${format(date, 'yyyyMMdd-HHmm')}.json`;
+};
+
+// Parses and validates a backup file. Throws with a user-facing message when
+// the file is not a backup, is from a newer version or has been modified.
+export const readBackup = async (contents: string): Promise<BackupFile> => {
+  let parsed: Partial<BackupFile>;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a Restaurant POS backup');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+  if (typeof parsed.dbVersion !== 'number' || parsed.dbVersion > getDatabaseVersion()) {
+    throw new Error(`This backup uses database v${parsed.dbVersion}, newer than this terminal`);
+  }
+  if (!parsed.data || typeof parsed.data !== 'object') {
+    throw new Error('Backup file has no data');
+  }
+
+  // Stores added since an older backup was made start out empty
+  const isOlderBackup = parsed.dbVersion < getDatabaseVersion();
+
+  for (const store of BACKUP_STORES) {
+    const records: unknown = parsed.data[store] ?? (isOlderBackup ? [] : undefined);
+    if (!Array.isArray(records)) {
+      throw new Error(`Backup is missing the ${store} store`);
+    }
+    const isValid = records.every(record =>
+      record && typeof record === 'object' && typeof (record as { id?: unknown }).id === 'string'
+    );
+    if (!isValid) {
+      throw new Error(`Backup contains invalid ${store} records`);
+    }
+  }
+
+  const checksum = await computeChecksum(JSON.stringify(parsed.data));
+  if (checksum !== parsed.checksum) {
+    throw new Error('Backup checksum does not match; the file is corrupted or was edited');
+  }
+
+  const revived: BackupData = JSON.parse(JSON.stringify(parsed.data), reviveDates);
+  for (const store of BACKUP_STORES) {
+    revived[store] ??= [];
+  }
+  try {
+    revived.menuImages = (revived.menuImages as unknown as EncodedMenuImage[]).map(decodeMenuImage);
+  } catch {
+    throw new Error('Backup contains invalid menu images');
+  }
+  const data = backfillBackupData(revived, parsed.dbVersion);
+
+  return { ...(parsed as BackupFile), data };
+};
+
+// Dry run: reports what restoring the backup would do without writing anything
+export const previewRestore = async (backup: BackupFile, mode: RestoreMode): Promise<RestorePreview> => {
+  const existingKeys = await getStoreKeys();
+
+  const rows = BACKUP_STORES.map(store => {
+    const existing = new Set(existingKeys[store]);
+    const incomingIds = backup.data[store].map(record => record.id);
+    const overwritten = incomingIds.filter(id => existing.has(id)).length;
+    const incomingSet = new Set(incomingIds);
+
+    return {
+      store,
+      incoming: incomingIds.length,
+      existing: existing.size,
+      added: incomingIds.length - overwritten,
+      overwritten,
+      removed: mode === 'replace' ? [...existing].filter(id => !incomingSet.has(id)).length : 0,
+    };
+  });
+
+  return {
+    exportedAt: new Date(backup.exportedAt),
+    dbVersion: backup.dbVersion,
+    rows,
+  };
+};
+
+export const restoreBackup = async (backup: BackupFile, mode: RestoreMode): Promise<void> => {
+  await importStores(backup.data, mode);
+};
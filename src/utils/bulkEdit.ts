@@ -0,0 +1,128 @@
+import { Category, MenuItem, MenuItemEdit } from '../types';
+import { isBundle } from './bundles';
+import { usesRecipe } from './recipes';
+import { adjustStock, formatItemName, getBasePrice, getStockOf, getVariant, hasVariants, setBasePrice } from './variants';
+
+export type PriceAdjustmentType = 'percentage' | 'fixed';
+
+export type RoundingRule = 'none' | 'nearest-1' | 'nearest-5' | 'nearest-10' | 'ends-in-9';
+
+export const ROUNDING_LABELS: Record<RoundingRule, string> = {
+  none: 'No rounding',
+  'nearest-1': 'Nearest rupee',
+  'nearest-5': 'Nearest 5',
+  'nearest-10': 'Nearest 10',
+  'ends-in-9': 'Up to end in 9 (e.g. 449)',
+};
+
+export const roundPrice = (price: number, rule: RoundingRule): number => {
+  switch (rule) {
+    case 'nearest-1':
+      return Math.round(price);
+    case 'nearest-5':
+      return Math.round(price / 5) * 5;
+    case 'nearest-10':
+      return Math.round(price / 10) * 10;
+    case 'ends-in-9':
+      return Math.ceil((price + 1) / 10) * 10 - 1;
+    default:
+      return Math.round(price * 100) / 100;
+  }
+};
+
+// `value` is a percentage or a rupee amount; negative values lower the price
+export const adjustPrice = (price: number, type: PriceAdjustmentType, value: number, rounding: RoundingRule): number => {
+  const adjusted = type === 'percentage' ? price * (1 + value / 100) : price + value;
+  return roundPrice(adjusted, rounding);
+};
+
+// The item with the adjustment applied to its price, or to every size's price
+export const adjustItemPrices = (
+  item: MenuItem,
+  type: PriceAdjustmentType,
+  value: number,
+  rounding: RoundingRule
+): MenuItem => {
+  if (!hasVariants(item)) return setBasePrice(item, undefined, adjustPrice(item.price, type, value, rounding));
+  return item.variants!.reduce<MenuItem>(
+    (updated, variant) => setBasePrice(updated, variant.id, adjustPrice(variant.price, type, value, rounding)),
+    item
+  );
+};
+
+// Deals are sold from their components' stock, and dishes made from a recipe
+// from their ingredients', so both are left alone
+export const setItemStock = (item: MenuItem, stock: number): MenuItem => {
+  if (isBundle(item) || usesRecipe(item)) return item;
+  if (!hasVariants(item)) return { ...item, stock };
+  return { ...item, variants: item.variants!.map(variant => ({ ...variant, stock })) };
+};
+
+export const applyMenuItemEdit = (item: MenuItem, edit: MenuItemEdit): MenuItem => {
+  let updated = item;
+  if (edit.categoryId !== undefined) {
+    updated = { ...updated, categoryId: edit.categoryId };
+  }
+  if (edit.price !== undefined) {
+    updated = setBasePrice(updated, edit.variantId, edit.price);
+  }
+  if (edit.stock !== undefined) {
+    updated = adjustStock(updated, edit.variantId, edit.stock - getStockOf(updated, edit.variantId));
+  }
+  return updated;
+};
+
+// What changed between an item and its edited copy, one edit per field and size
+export const getMenuItemEdits = (original: MenuItem, draft: MenuItem): MenuItemEdit[] => {
+  const edits: MenuItemEdit[] = [];
+  if (draft.categoryId !== original.categoryId) {
+    edits.push({ menuItemId: original.id, categoryId: draft.categoryId });
+  }
+
+  const sizes = hasVariants(draft) ? draft.variants!.map(variant => variant.id) : [undefined];
+  sizes.forEach(variantId => {
+    const price = getBasePrice(draft, variantId);
+    if (price !== getBasePrice(original, variantId)) {
+      edits.push({ menuItemId: original.id, variantId, price });
+    }
+    const stock = getStockOf(draft, variantId);
+    if (!isBundle(draft) && stock !== getStockOf(original, variantId)) {
+      edits.push({ menuItemId: original.id, variantId, stock });
+    }
+  });
+  return edits;
+};
+
+export interface EditPreview {
+  key: string;
+  name: string;
+  field: 'Price' | 'Stock' | 'Category';
+  before: string;
+  after: string;
+}
+
+export const describeEdit = (edit: MenuItemEdit, item: MenuItem, categories: Category[]): EditPreview => {
+  const name = formatItemName(item.name, getVariant(item, edit.variantId)?.name);
+  const key = `${edit.menuItemId}:${edit.variantId ?? ''}`;
+  if (edit.categoryId !== undefined) {
+    const categoryName = (id: string) => categories.find(category => category.id === id)?.name ?? 'Unknown';
+    return { key: `${key}:category`, name, field: 'Category', before: categoryName(item.categoryId), after: categoryName(edit.categoryId) };
+  }
+  if (edit.price !== undefined) {
+    return { key: `${key}:price`, name, field: 'Price', before: `Rs. ${getBasePrice(item, edit.variantId)}`, after: `Rs. ${edit.price}` };
+  }
+  return { key: `${key}:stock`, name, field: 'Stock', before: String(getStockOf(item, edit.variantId)), after: String(edit.stock) };
+};
+
+// The first edit that cannot be saved, or null
+export const validateMenuItemEdits = (edits: MenuItemEdit[], menuItems: MenuItem[]): string | null => {
+  for (const edit of edits) {
+    const item = menuItems.find(menuItem => menuItem.id === edit.menuItemId);
+    const name = item ? formatItemName(item.name, getVariant(item, edit.variantId)?.name) : 'An item';
+    if (edit.price !== undefined && edit.price <= 0) return `${name}: price must be greater than 0`;
+    if (edit.stock !== undefined && (edit.stock < 0 || !Number.isInteger(edit.stock))) {
+      return `${name}: stock must be a whole number, 0 or more`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,145 @@
+import { BundleComponent, BundleSlot, BundleSlotType, MenuItem, SelectedModifier } from '../types';
+import { formatItemName, getDefaultVariantId, getStockOf, getVariant, hasVariants } from './variants';
+
+export const BUNDLE_SLOT_TYPE_LABELS: Record<BundleSlotType, string> = {
+  fixed: 'Fixed item',
+  choice: 'Choose one',
+};
+
+export interface StockLine {
+  menuItemId: string;
+  variantId?: string;
+  quantity: number;
+  modifiers?: SelectedModifier[];
+  components?: BundleComponent[];
+}
+
+export interface StockUsage {
+  menuItemId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+export const isBundle = (item: MenuItem): boolean => !!item.bundle && item.bundle.length > 0;
+
+// Whether the guest has to pick anything before the deal can go on a bill
+export const needsBundleChoice = (item: MenuItem, menuItems: MenuItem[]): boolean => {
+  return !!item.bundle?.some(slot =>
+    (slot.type === 'choice' && slot.menuItemIds.length > 1) ||
+    slot.menuItemIds.some(id => (menuItems.find(option => option.id === id)?.variants?.length ?? 0) > 1)
+  );
+};
+
+// The most of one option a deal slot could use, whichever size is picked
+const getOptionStock = (option: MenuItem): number => {
+  return hasVariants(option) ? Math.max(...option.variants!.map(variant => variant.stock)) : option.stock;
+};
+
+// A deal component for `option`; sized items default to their first size in stock
+export const createComponent = (slot: BundleSlot, option: MenuItem, variantId?: string): BundleComponent => {
+  const chosenVariantId = variantId ?? getDefaultVariantId(option, slot.quantity);
+  return {
+    slotId: slot.id,
+    menuItemId: option.id,
+    variantId: chosenVariantId,
+    variantName: getVariant(option, chosenVariantId)?.name,
+    quantity: slot.quantity,
+  };
+};
+
+// `canOrder` rules out options that cannot be ordered right now
+export const getDefaultComponents = (
+  item: MenuItem,
+  menuItems: MenuItem[],
+  canOrder: (option: MenuItem) => boolean = () => true
+): BundleComponent[] => {
+  return (item.bundle ?? []).flatMap(slot => {
+    const options = slot.menuItemIds
+      .map(id => menuItems.find(option => option.id === id))
+      .filter((option): option is MenuItem => !!option && canOrder(option));
+    const option = options.find(candidate => getOptionStock(candidate) >= slot.quantity) ?? options[0];
+    return option ? [createComponent(slot, option)] : [];
+  });
+};
+
+// Stock each line takes, per menu item and size; deals take their components instead of themselves
+export const getStockUsage = (lines: StockLine[]): StockUsage[] => {
+  const usage: StockUsage[] = [];
+  const take = (menuItemId: string, variantId: string | undefined, quantity: number) => {
+    const existing = usage.find(entry => entry.menuItemId === menuItemId && entry.variantId === variantId);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      usage.push({ menuItemId, variantId, quantity });
+    }
+  };
+
+  lines.forEach(line => {
+    if (line.components && line.components.length > 0) {
+      line.components.forEach(component => take(component.menuItemId, component.variantId, component.quantity * line.quantity));
+    } else {
+      take(line.menuItemId, line.variantId, line.quantity);
+    }
+  });
+  return usage;
+};
+
+export const hasStockFor = (lines: StockLine[], menuItems: MenuItem[]): boolean => {
+  return getStockUsage(lines).every(({ menuItemId, variantId, quantity }) => {
+    const item = menuItems.find(menuItem => menuItem.id === menuItemId);
+    return !!item && getStockOf(item, variantId) >= quantity;
+  });
+};
+
+// How many can be sold right now: for a deal, limited by its scarcest slot; for
+// a sized item, across all its sizes
+export const getAvailableStock = (item: MenuItem, menuItems: MenuItem[]): number => {
+  if (hasVariants(item)) return item.variants!.reduce((sum, variant) => sum + variant.stock, 0);
+  if (!isBundle(item)) return item.stock;
+
+  return Math.min(...item.bundle!.map((slot: BundleSlot) => Math.max(0, ...slot.menuItemIds.map(id => {
+    const option = menuItems.find(menuItem => menuItem.id === id);
+    return option ? Math.floor(getOptionStock(option) / slot.quantity) : 0;
+  }))));
+};
+
+export const isSameSelection = (a: BundleComponent[] = [], b: BundleComponent[] = []): boolean => {
+  return a.length === b.length && a.every(component =>
+    b.some(other =>
+      other.slotId === component.slotId &&
+      other.menuItemId === component.menuItemId &&
+      other.variantId === component.variantId
+    )
+  );
+};
+
+export const formatComponent = (component: BundleComponent, menuItems: MenuItem[]): string => {
+  const name = formatItemName(
+    menuItems.find(item => item.id === component.menuItemId)?.name ?? 'Unknown Item',
+    component.variantName
+  );
+  return component.quantity > 1 ? `${component.quantity}x ${name}` : name;
+};
+
+export const validateBundle = (itemId: string | undefined, slots: BundleSlot[], menuItems: MenuItem[]): string | null => {
+  if (slots.length === 0) return 'A deal needs at least one slot';
+
+  for (const slot of slots) {
+    if (!slot.name.trim()) return 'Every deal slot needs a name';
+    if (slot.quantity < 1) return `${slot.name}: quantity must be at least 1`;
+    if (slot.type === 'fixed' && slot.menuItemIds.length !== 1) return `${slot.name}: pick the item for this slot`;
+    if (slot.type === 'choice' && slot.menuItemIds.length < 2) return `${slot.name}: pick at least two options`;
+
+    const options = slot.menuItemIds.map(id => menuItems.find(item => item.id === id));
+    if (options.some(option => !option)) return `${slot.name}: an option no longer exists`;
+    if (options.some(option => option!.id === itemId || isBundle(option!))) {
+      return `${slot.name}: a deal cannot contain another deal`;
+    }
+  }
+  return null;
+};
+
+// Deals that would lose a slot option if `itemId` were deleted
+export const getBundlesUsing = (itemId: string, menuItems: MenuItem[]): MenuItem[] => {
+  return menuItems.filter(item => item.bundle?.some(slot => slot.menuItemIds.includes(itemId)));
+};
@@ -1,111 +1,312 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { User, Category, MenuItem, Table, Order, OrderItem, Payment } from '../types';
-
-interface RestaurantDB extends DBSchema {
-  users: {
-    key: string;
-    value: User;
-  };
-  categories: {
-    key: string;
-    value: Category;
-  };
-  menuItems: {
-    key: string;
-    value: MenuItem;
-  };
-  tables: {
-    key: string;
-    value: Table;
-  };
-  orders: {
-    key: string;
-    value: Order;
-  };
-  orderItems: {
-    key: string;
-    value: OrderItem;
-  };
-  payments: {
-    key: string;
-    value: Payment;
-  };
-}
+import { openDB, IDBPDatabase, IDBPTransaction, StoreNames, StoreValue } from 'idb';
+import { User, Category, MenuItem, MenuImage, Table, Order, OrderItem, OrderStatus, Payment, AdjustmentApproval, TenderMethod, TaxSettings, FbrSettings, FiscalQueueEntry, Promotion, DiscountSettings, ManualDiscount, AuditEntityType, AuditLogEntry, MenuItemEdit, ScheduledPriceChange, Ingredient } from '../types';
+import { DB_NAME, RestaurantDB, BACKUP_STORES, BackupStoreName, BackupData } from './schema';
+import { DB_VERSION, runMigrations } from './migrations';
+import { AuditActor, SYSTEM_ACTOR, createAuditEntry } from './audit';
+import { reopenOrder, transitionOrder } from './orderStateMachine';
+import { DEFAULT_TAX_SETTINGS, PricingContext, TaxCatalog, calculateOrderTotals } from './pricing';
+import { DEFAULT_FBR_SETTINGS } from './fbr';
+import { DEFAULT_DISCOUNT_SETTINGS, calculateDiscounts, exceedsManualLimit, getDiscountTotal } from './promotions';
+import { MANAGER_ROLES } from './adjustments';
+import { StockLine, getStockUsage } from './bundles';
+import { adjustStock, formatItemName, getStockOf, getVariant } from './variants';
+import { applyMenuItemEdit } from './bulkEdit';
+import { SortUpdate, compareBySortOrder } from './menuOrder';
+import { copyRecipes, getIngredientUsage, getRecipe, roundQuantity, withRecipeStock } from './recipes';
 
 let db: IDBPDatabase<RestaurantDB>;
 
 export const initDatabase = async () => {
-  db = await openDB<RestaurantDB>('restaurant-pos', 1, {
-    upgrade(db) {
-      db.createObjectStore('users', { keyPath: 'id' });
-      db.createObjectStore('categories', { keyPath: 'id' });
-      db.createObjectStore('menuItems', { keyPath: 'id' });
-      db.createObjectStore('tables', { keyPath: 'id' });
-      db.createObjectStore('orders', { keyPath: 'id' });
-      db.createObjectStore('orderItems', { keyPath: 'id' });
-      db.createObjectStore('payments', { keyPath: 'id' });
+  db = await openDB<RestaurantDB>(DB_NAME, DB_VERSION, {
+    upgrade(database, oldVersion, newVersion, transaction) {
+      runMigrations(database, oldVersion, newVersion ?? DB_VERSION, transaction).catch(error => {
+        console.error('Database migration failed:', error);
+        transaction.abort();
+      });
+    },
+    blocking() {
+      // Another tab is upgrading the schema; release it and pick up the new version.
+      db.close();
+      window.location.reload();
     },
   });
 };
 
+// Runs `work` inside a single readwrite transaction. If it throws, the transaction
+// is aborted so none of its writes are persisted, and the error is rethrown.
+const runInTransaction = async <Stores extends StoreNames<RestaurantDB>[], T>(
+  stores: Stores,
+  work: (tx: IDBPTransaction<RestaurantDB, Stores, 'readwrite'>) => Promise<T>
+): Promise<T> => {
+  const tx = db.transaction(stores, 'readwrite');
+  try {
+    const result = await work(tx);
+    await tx.done;
+    return result;
+  } catch (error) {
+    tx.done.catch(() => undefined);
+    try {
+      tx.abort();
+    } catch {
+      // The transaction already aborted on its own
+    }
+    throw error;
+  }
+};
+
+export const getDatabaseVersion = (): number => {
+  return db.version;
+};
+
+// Audit helpers: every mutation goes through these so the change and its
+// audit entry are committed together.
+let auditActor: AuditActor = SYSTEM_ACTOR;
+
+export const setAuditActor = (actor: AuditActor | null) => {
+  auditActor = actor ? { id: actor.id, name: actor.name } : SYSTEM_ACTOR;
+};
+
+type AuditedTransaction = IDBPTransaction<RestaurantDB, StoreNames<RestaurantDB>[], 'readwrite'>;
+
+const auditedAdd = async <Name extends AuditEntityType>(
+  tx: AuditedTransaction,
+  name: Name,
+  record: StoreValue<RestaurantDB, Name>
+): Promise<void> => {
+  await tx.objectStore(name).add(record);
+  await tx.objectStore('auditLog').add(createAuditEntry(auditActor, 'create', name, record.id, undefined, record));
+};
+
+const auditedPut = async <Name extends AuditEntityType>(
+  tx: AuditedTransaction,
+  name: Name,
+  record: StoreValue<RestaurantDB, Name>
+): Promise<void> => {
+  const store = tx.objectStore(name);
+  const before = await store.get(record.id);
+  await store.put(record);
+  const action = before ? 'update' : 'create';
+  await tx.objectStore('auditLog').add(createAuditEntry(auditActor, action, name, record.id, before, record));
+};
+
+const auditedDelete = async <Name extends AuditEntityType>(
+  tx: AuditedTransaction,
+  name: Name,
+  id: string
+): Promise<void> => {
+  const store = tx.objectStore(name);
+  const before = await store.get(id);
+  if (!before) return;
+  await store.delete(id);
+  await tx.objectStore('auditLog').add(createAuditEntry(auditActor, 'delete', name, id, before, undefined));
+};
+
 // User operations
 export const getUser = async (id: string): Promise<User | undefined> => {
   return await db.get('users', id);
 };
 
 export const getUserByEmail = async (email: string): Promise<User | undefined> => {
-  const users = await db.getAll('users');
-  return users.find(user => user.email === email);
+  return await db.getFromIndex('users', 'by-email', email);
 };
 
 export const createUser = async (user: User): Promise<void> => {
-  await db.add('users', user);
+  await runInTransaction(['users', 'auditLog'], tx => auditedAdd(tx, 'users', user));
 };
 
 export const updateUser = async (user: User): Promise<void> => {
-  await db.put('users', user);
+  await runInTransaction(['users', 'auditLog'], tx => auditedPut(tx, 'users', user));
 };
 
 export const deleteUser = async (id: string): Promise<void> => {
-  await db.delete('users', id);
+  await runInTransaction(['users', 'auditLog'], tx => auditedDelete(tx, 'users', id));
 };
 
 export const getAllUsers = async (): Promise<User[]> => {
   return await db.getAll('users');
 };
 
+// Writes new positions from a drag-and-drop reorder; records deleted meanwhile are skipped
+const updateSortOrders = async (
+  tx: AuditedTransaction,
+  storeName: 'categories' | 'menuItems',
+  updates: SortUpdate[]
+): Promise<void> => {
+  for (const { id, sortOrder } of updates) {
+    const record = await tx.objectStore(storeName).get(id);
+    if (!record) continue;
+    await auditedPut(tx, storeName, { ...record, sortOrder });
+  }
+};
+
 // Category operations
 export const getAllCategories = async (): Promise<Category[]> => {
-  return await db.getAll('categories');
+  return (await db.getAll('categories')).sort(compareBySortOrder);
 };
 
 export const createCategory = async (category: Category): Promise<void> => {
-  await db.add('categories', category);
+  await runInTransaction(['categories', 'auditLog'], tx => auditedAdd(tx, 'categories', category));
 };
 
 export const updateCategory = async (category: Category): Promise<void> => {
-  await db.put('categories', category);
+  await runInTransaction(['categories', 'auditLog'], tx => auditedPut(tx, 'categories', category));
 };
 
 export const deleteCategory = async (id: string): Promise<void> => {
-  await db.delete('categories', id);
+  await runInTransaction(['categories', 'auditLog'], tx => auditedDelete(tx, 'categories', id));
+};
+
+export const updateCategorySortOrders = async (updates: SortUpdate[]): Promise<void> => {
+  await runInTransaction(['categories', 'auditLog'], tx => updateSortOrders(tx, 'categories', updates));
 };
 
 // MenuItem operations
 export const getAllMenuItems = async (): Promise<MenuItem[]> => {
-  return await db.getAll('menuItems');
+  return (await db.getAll('menuItems')).sort(compareBySortOrder);
+};
+
+// Menu items for the order screens, with what their ingredients can make filled
+// in as the stock of dishes made from a recipe
+export const getMenuItemsForSale = async (): Promise<MenuItem[]> => {
+  const tx = db.transaction(['menuItems', 'ingredients']);
+  const [menuItems, ingredients] = await Promise.all([
+    tx.objectStore('menuItems').getAll(),
+    tx.objectStore('ingredients').getAll(),
+  ]);
+  return withRecipeStock(menuItems.sort(compareBySortOrder), ingredients);
+};
+
+// Saves a new photo for the item and drops the one it replaces. Image blobs are
+// not audited; the change to the item's image id is.
+const replaceMenuImage = async (
+  tx: AuditedTransaction,
+  previousImageId: string | undefined,
+  item: MenuItem,
+  image?: MenuImage
+): Promise<void> => {
+  if (image) {
+    await tx.objectStore('menuImages').put(image);
+  }
+  if (previousImageId && previousImageId !== item.image) {
+    await tx.objectStore('menuImages').delete(previousImageId);
+  }
+};
+
+// `image` is a newly uploaded photo the item's image id refers to
+export const createMenuItem = async (item: MenuItem, image?: MenuImage): Promise<void> => {
+  await runInTransaction(['menuItems', 'menuImages', 'auditLog'], async (tx) => {
+    await replaceMenuImage(tx, undefined, item, image);
+    await auditedAdd(tx, 'menuItems', item);
+  });
 };
 
-export const createMenuItem = async (item: MenuItem): Promise<void> => {
-  await db.add('menuItems', item);
+export const updateMenuItem = async (item: MenuItem, image?: MenuImage): Promise<void> => {
+  await runInTransaction(['menuItems', 'menuImages', 'auditLog'], async (tx) => {
+    const before = await tx.objectStore('menuItems').get(item.id);
+    await replaceMenuImage(tx, before?.image, item, image);
+    await auditedPut(tx, 'menuItems', item);
+  });
 };
 
-export const updateMenuItem = async (item: MenuItem): Promise<void> => {
-  await db.put('menuItems', item);
+// Writes an imported menu in one go: new categories, then new and updated items
+// with any photos that came with them
+export const importMenu = async (categories: Category[], menuItems: MenuItem[], images: MenuImage[] = []): Promise<void> => {
+  await runInTransaction(['categories', 'menuItems', 'menuImages', 'auditLog'], async (tx) => {
+    for (const category of categories) {
+      await auditedAdd(tx, 'categories', category);
+    }
+    for (const item of menuItems) {
+      const before = await tx.objectStore('menuItems').get(item.id);
+      await replaceMenuImage(tx, before?.image, item, images.find(image => image.id === item.image));
+      await auditedPut(tx, 'menuItems', item);
+    }
+  });
+};
+
+export const updateMenuItemSortOrders = async (updates: SortUpdate[]): Promise<void> => {
+  await runInTransaction(['menuItems', 'auditLog'], tx => updateSortOrders(tx, 'menuItems', updates));
+};
+
+// 86 an item, or put it back on; reads the item inside the transaction so a
+// stock change made meanwhile is not overwritten
+export const setMenuItemUnavailable = async (id: string, unavailable: boolean): Promise<MenuItem> => {
+  return await runInTransaction(['menuItems', 'auditLog'], async (tx) => {
+    const item = await tx.objectStore('menuItems').get(id);
+    if (!item) {
+      throw new Error('Menu item not found');
+    }
+    const updatedItem: MenuItem = { ...item, unavailable };
+    await auditedPut(tx, 'menuItems', updatedItem);
+    return updatedItem;
+  });
 };
 
 export const deleteMenuItem = async (id: string): Promise<void> => {
-  await db.delete('menuItems', id);
+  await runInTransaction(['menuItems', 'menuImages', 'auditLog'], async (tx) => {
+    const item = await tx.objectStore('menuItems').get(id);
+    if (item?.image) {
+      await tx.objectStore('menuImages').delete(item.image);
+    }
+    await auditedDelete(tx, 'menuItems', id);
+  });
+};
+
+// Saves the recipes of an item, its sizes and its modifier options; the rest of
+// the item is read inside the transaction so stock sold meanwhile is kept
+export const updateMenuItemRecipes = async (edited: MenuItem): Promise<void> => {
+  await runInTransaction(['menuItems', 'auditLog'], async (tx) => {
+    const item = await tx.objectStore('menuItems').get(edited.id);
+    if (!item) {
+      throw new Error('Menu item not found');
+    }
+    await auditedPut(tx, 'menuItems', copyRecipes(edited, item));
+  });
+};
+
+// Menu image operations
+export const getMenuImage = async (id: string): Promise<MenuImage | undefined> => {
+  return await db.get('menuImages', id);
+};
+
+export const getAllMenuImages = async (): Promise<MenuImage[]> => {
+  return await db.getAll('menuImages');
+};
+
+// Ingredient operations
+export const getAllIngredients = async (): Promise<Ingredient[]> => {
+  return (await db.getAll('ingredients')).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createIngredient = async (ingredient: Ingredient): Promise<void> => {
+  await runInTransaction(['ingredients', 'auditLog'], tx => auditedAdd(tx, 'ingredients', ingredient));
+};
+
+// Saves the name and low stock level; stock is kept as it is in the store, since
+// orders may have used some since `ingredient` was read
+export const updateIngredientDetails = async (ingredient: Ingredient): Promise<void> => {
+  await runInTransaction(['ingredients', 'auditLog'], async (tx) => {
+    const before = await tx.objectStore('ingredients').get(ingredient.id);
+    if (!before) {
+      throw new Error('Ingredient not found');
+    }
+    await auditedPut(tx, 'ingredients', { ...ingredient, stock: before.stock });
+  });
+};
+
+// Sets the counted stock; reads the ingredient inside the transaction so the
+// rest of the record is not overwritten with a stale copy
+export const setIngredientStock = async (id: string, stock: number): Promise<void> => {
+  await runInTransaction(['ingredients', 'auditLog'], async (tx) => {
+    const ingredient = await tx.objectStore('ingredients').get(id);
+    if (!ingredient) {
+      throw new Error('Ingredient not found');
+    }
+    await auditedPut(tx, 'ingredients', { ...ingredient, stock });
+  });
+};
+
+export const deleteIngredient = async (id: string): Promise<void> => {
+  await runInTransaction(['ingredients', 'auditLog'], tx => auditedDelete(tx, 'ingredients', id));
 };
 
 // Table operations
@@ -114,11 +315,11 @@ export const getAllTables = async (): Promise<Table[]> => {
 };
 
 export const createTable = async (table: Table): Promise<void> => {
-  await db.add('tables', table);
+  await runInTransaction(['tables', 'auditLog'], tx => auditedAdd(tx, 'tables', table));
 };
 
 export const updateTable = async (table: Table): Promise<void> => {
-  await db.put('tables', table);
+  await runInTransaction(['tables', 'auditLog'], tx => auditedPut(tx, 'tables', table));
 };
 
 // Order operations
@@ -130,32 +331,717 @@ export const getOrder = async (id: string): Promise<Order | undefined> => {
   return await db.get('orders', id);
 };
 
+export const getOrdersByStatus = async (status: OrderStatus): Promise<Order[]> => {
+  return await db.getAllFromIndex('orders', 'by-status', status);
+};
+
+export const getOrdersBetween = async (start: Date, end: Date): Promise<Order[]> => {
+  return await db.getAllFromIndex('orders', 'by-createdAt', IDBKeyRange.bound(start, end));
+};
+
+export const getRecentOrders = async (limit: number): Promise<Order[]> => {
+  const orders: Order[] = [];
+  let cursor = await db.transaction('orders').store.index('by-createdAt').openCursor(null, 'prev');
+  while (cursor && orders.length < limit) {
+    orders.push(cursor.value);
+    cursor = await cursor.continue();
+  }
+  return orders;
+};
+
+// An order that is still taking items and payments
+const isOpenBill = (order: Order): boolean => {
+  return order.status !== 'cancelled' && (order.paymentStatus === 'unpaid' || order.paymentStatus === 'partial');
+};
+
+// The table's running tab: its latest order that is neither cancelled nor paid
+export const getActiveOrderForTable = async (tableId: string): Promise<Order | undefined> => {
+  const orders = await db.getAllFromIndex('orders', 'by-tableId', tableId);
+  return orders
+    .filter(isOpenBill)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+};
+
+// Open bills waiting to be settled at the POS, oldest first
+export const getUnpaidOrders = async (): Promise<Order[]> => {
+  const [unpaidOrders, partiallyPaidOrders] = await Promise.all([
+    db.getAllFromIndex('orders', 'by-paymentStatus', 'unpaid'),
+    db.getAllFromIndex('orders', 'by-paymentStatus', 'partial'),
+  ]);
+  return [...unpaidOrders, ...partiallyPaidOrders]
+    .filter(order => order.status !== 'cancelled')
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
 export const createOrder = async (order: Order): Promise<void> => {
-  await db.add('orders', order);
+  await runInTransaction(['orders', 'auditLog'], tx => auditedAdd(tx, 'orders', order));
 };
 
 export const updateOrder = async (order: Order): Promise<void> => {
-  await db.put('orders', order);
+  await runInTransaction(['orders', 'auditLog'], tx => auditedPut(tx, 'orders', order));
+};
+
+// Moves an order through the state machine, rejecting illegal transitions
+export const updateOrderStatus = async (
+  orderId: string,
+  status: OrderStatus,
+  actor: Pick<User, 'id' | 'role'>
+): Promise<Order> => {
+  return await runInTransaction(['orders', 'orderItems', 'menuItems', 'ingredients', 'tables', 'auditLog'], async (tx) => {
+    const order = await tx.objectStore('orders').get(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (status === 'cancelled' && (order.paymentStatus === 'paid' || order.paymentStatus === 'partial')) {
+      throw new Error('This order has payments; refund it instead of cancelling');
+    }
+    const updatedOrder = transitionOrder(order, status, actor);
+    await auditedPut(tx, 'orders', updatedOrder);
+    if (status === 'cancelled') {
+      const items = await tx.objectStore('orderItems').index('by-orderId').getAll(orderId);
+      await restoreStock(tx, items.filter(item => !item.voided));
+      await releaseTableIfFree(tx, order.tableId);
+    }
+    return updatedOrder;
+  });
+};
+
+// Marks a table available once none of its orders are still open
+const releaseTableIfFree = async (tx: AuditedTransaction, tableId: string): Promise<void> => {
+  const table = await tx.objectStore('tables').get(tableId);
+  if (!table || table.status !== 'occupied') return;
+
+  const orders = await tx.objectStore('orders').index('by-tableId').getAll(tableId);
+  const hasOpenOrder = orders.some(isOpenBill);
+  if (!hasOpenOrder) {
+    await auditedPut(tx, 'tables', { ...table, status: 'available' });
+  }
+};
+
+// Takes new items out of stock, or fails if any is short or 86'd; deals take their
+// components, and dishes made from a recipe take their ingredients instead
+const takeStock = async (tx: AuditedTransaction, items: StockLine[]): Promise<void> => {
+  for (const { menuItemId, variantId, quantity } of getStockUsage(items)) {
+    const menuItem = await tx.objectStore('menuItems').get(menuItemId);
+    if (!menuItem) {
+      throw new Error('A menu item in this order no longer exists');
+    }
+    if (menuItem.unavailable) {
+      throw new Error(`${menuItem.name} has been 86'd by the kitchen`);
+    }
+    if (getRecipe(menuItem, variantId).length > 0) continue;
+    if (getStockOf(menuItem, variantId) < quantity) {
+      throw new Error(`Not enough stock for ${formatItemName(menuItem.name, getVariant(menuItem, variantId)?.name)}`);
+    }
+    await auditedPut(tx, 'menuItems', adjustStock(menuItem, variantId, -quantity));
+  }
+  await adjustIngredients(tx, items, -1);
+};
+
+// Puts the quantities of cancelled, voided or refunded items back into stock
+const restoreStock = async (tx: AuditedTransaction, items: OrderItem[]): Promise<void> => {
+  for (const { menuItemId, variantId, quantity } of getStockUsage(items)) {
+    const menuItem = await tx.objectStore('menuItems').get(menuItemId);
+    if (menuItem && getRecipe(menuItem, variantId).length === 0) {
+      await auditedPut(tx, 'menuItems', adjustStock(menuItem, variantId, quantity));
+    }
+  }
+  await adjustIngredients(tx, items, 1);
+};
+
+// Takes (`direction` -1) or puts back (1) the ingredients of the items' recipes
+// and modifiers, as the recipes are now; taking fails if any ingredient is short
+const adjustIngredients = async (tx: AuditedTransaction, items: StockLine[], direction: 1 | -1): Promise<void> => {
+  const [menuItems, ingredients] = await Promise.all([
+    tx.objectStore('menuItems').getAll(),
+    tx.objectStore('ingredients').getAll(),
+  ]);
+  for (const { ingredientId, quantity } of getIngredientUsage(items, menuItems, ingredients)) {
+    const ingredient = ingredients.find(candidate => candidate.id === ingredientId)!;
+    if (direction === -1 && ingredient.stock < quantity) {
+      throw new Error(`Not enough ${ingredient.name} for this order`);
+    }
+    await auditedPut(tx, 'ingredients', { ...ingredient, stock: roundQuantity(ingredient.stock + direction * quantity) });
+  }
+};
+
+// Prices an order's remaining items with the tax settings, promotions and menu as they are in `tx`
+const priceOrder = async (
+  tx: AuditedTransaction,
+  order: Order,
+  items: OrderItem[],
+  context: PricingContext = { orderType: order.orderType, paymentMethod: order.paymentMethod }
+) => {
+  const [settings, menuItems, categories, promotions] = await Promise.all([
+    tx.objectStore('settings').get('tax'),
+    tx.objectStore('menuItems').getAll(),
+    tx.objectStore('categories').getAll(),
+    tx.objectStore('promotions').getAll(),
+  ]);
+  const catalog: TaxCatalog = { settings: settings?.id === 'tax' ? settings : DEFAULT_TAX_SETTINGS, menuItems, categories };
+  const activeItems = items.filter(item => !item.voided);
+  const discounts = calculateDiscounts(activeItems, promotions, menuItems, {
+    at: new Date(order.createdAt),
+    couponCode: order.couponCode,
+    manualDiscount: order.manualDiscount,
+  });
+  return { ...calculateOrderTotals(activeItems, context, catalog, getDiscountTotal(discounts)), discounts };
+};
+
+// Re-prices an open bill for a different order type or payment method. Only
+// allowed before any payment is taken, since earlier payments were priced differently.
+export const repriceOrder = async (orderId: string, context: PricingContext): Promise<Order> => {
+  return await runInTransaction(['orders', 'orderItems', 'menuItems', 'categories', 'payments', 'settings', 'promotions', 'auditLog'], async (tx) => {
+    const order = await tx.objectStore('orders').get(orderId);
+    if (!order || !isOpenBill(order)) {
+      throw new Error('This order is no longer open');
+    }
+    const payments = await tx.objectStore('payments').index('by-orderId').getAll(orderId);
+    if (payments.length > 0) {
+      throw new Error('This bill already has payments and cannot be re-priced');
+    }
+
+    const items = await tx.objectStore('orderItems').index('by-orderId').getAll(orderId);
+    const updatedOrder: Order = {
+      ...order,
+      ...context,
+      ...(await priceOrder(tx, order, items, context)),
+      updatedAt: new Date(),
+    };
+    await auditedPut(tx, 'orders', updatedOrder);
+    return updatedOrder;
+  });
+};
+
+// Applies a coupon or manual discount to an open bill before it is paid. Manual
+// discounts above the actor's limit must carry a manager's approval.
+export const updateOrderDiscounts = async (
+  orderId: string,
+  discounts: { couponCode?: string; manualDiscount?: ManualDiscount },
+  actor: Pick<User, 'id' | 'role'>
+): Promise<Order> => {
+  return await runInTransaction(['orders', 'orderItems', 'menuItems', 'categories', 'payments', 'users', 'settings', 'promotions', 'auditLog'], async (tx) => {
+    const order = await tx.objectStore('orders').get(orderId);
+    if (!order || !isOpenBill(order)) {
+      throw new Error('This order is no longer open');
+    }
+    const payments = await tx.objectStore('payments').index('by-orderId').getAll(orderId);
+    if (payments.length > 0) {
+      throw new Error('This bill already has payments; discounts can no longer be changed');
+    }
+
+    const items = await tx.objectStore('orderItems').index('by-orderId').getAll(orderId);
+    if (discounts.manualDiscount) {
+      await checkManualDiscount(tx, discounts.manualDiscount, items, actor.role);
+    }
+
+    const discountedOrder: Order = { ...order, ...discounts };
+    const updatedOrder: Order = {
+      ...discountedOrder,
+      ...(await priceOrder(tx, discountedOrder, items)),
+      updatedAt: new Date(),
+    };
+    await auditedPut(tx, 'orders', updatedOrder);
+    return updatedOrder;
+  });
+};
+
+// A manual discount may not exceed the bill, and above `role`'s limit needs the
+// approval of a user stored with a manager role
+const checkManualDiscount = async (
+  tx: AuditedTransaction,
+  manualDiscount: ManualDiscount,
+  items: OrderItem[],
+  role: User['role']
+): Promise<void> => {
+  const subtotal = items.filter(item => !item.voided).reduce((sum, item) => sum + item.totalPrice, 0);
+  if (manualDiscount.value <= 0 || manualDiscount.value > (manualDiscount.type === 'percentage' ? 100 : subtotal + 0.005)) {
+    throw new Error('A discount cannot be more than the bill');
+  }
+  if (manualDiscount.approvedBy) {
+    const approver = await tx.objectStore('users').get(manualDiscount.approvedBy);
+    if (!approver || !MANAGER_ROLES.includes(approver.role)) {
+      throw new Error('This discount was not approved by a manager');
+    }
+    return;
+  }
+  const settings = await tx.objectStore('settings').get('discounts');
+  if (exceedsManualLimit(settings?.id === 'discounts' ? settings : DEFAULT_DISCOUNT_SETTINGS, role, manualDiscount, subtotal)) {
+    throw new Error('This discount is above your limit and needs manager approval');
+  }
 };
 
 // OrderItem operations
 export const getOrderItems = async (orderId: string): Promise<OrderItem[]> => {
-  const items = await db.getAll('orderItems');
-  return items.filter(item => item.orderId === orderId);
+  return await db.getAllFromIndex('orderItems', 'by-orderId', orderId);
 };
 
 export const createOrderItem = async (item: OrderItem): Promise<void> => {
-  await db.add('orderItems', item);
+  await runInTransaction(['orderItems', 'auditLog'], tx => auditedAdd(tx, 'orderItems', item));
+};
+
+// Checkout operations
+// An order left open on a table marks the table occupied in the same transaction.
+// A manual discount is checked against the limit of the user who applied it, and its
+// approver, if any, is read back from the users store.
+export const checkoutOrder = async (order: Order, items: OrderItem[], payment?: Payment): Promise<void> => {
+  await runInTransaction(['orders', 'orderItems', 'menuItems', 'ingredients', 'payments', 'tables', 'users', 'settings', 'fiscalQueue', 'auditLog'], async (tx) => {
+    if (order.manualDiscount) {
+      const appliedBy = await tx.objectStore('users').get(order.manualDiscount.appliedBy);
+      if (!appliedBy) {
+        throw new Error('The user who applied this discount no longer exists');
+      }
+      await checkManualDiscount(tx, order.manualDiscount, items, appliedBy.role);
+    }
+    await takeStock(tx, items);
+
+    await auditedAdd(tx, 'orders', order);
+    for (const item of items) {
+      await auditedAdd(tx, 'orderItems', item);
+    }
+    if (payment) {
+      await auditedAdd(tx, 'payments', payment);
+    }
+    await occupyTableIfOpen(tx, order);
+    await queueFiscalInvoice(tx, order);
+  });
+};
+
+const occupyTableIfOpen = async (tx: AuditedTransaction, order: Order): Promise<void> => {
+  if (!order.tableId || !isOpenBill(order)) return;
+  const table = await tx.objectStore('tables').get(order.tableId);
+  if (table && table.status !== 'occupied') {
+    await auditedPut(tx, 'tables', { ...table, status: 'occupied' });
+  }
+};
+
+// Adds a new round to an open order as its own kitchen ticket and recomputes the bill;
+// the round's notes and allergy flags are added to the order's
+export const appendOrderItems = async (
+  orderId: string,
+  items: Omit<OrderItem, 'orderId' | 'ticket'>[],
+  actor: Pick<User, 'id' | 'role'>,
+  round: Pick<Order, 'notes' | 'guestAllergens'> = {}
+): Promise<{ order: Order; ticket: number }> => {
+  return await runInTransaction(['orders', 'orderItems', 'menuItems', 'ingredients', 'categories', 'settings', 'promotions', 'auditLog'], async (tx) => {
+    const order = await tx.objectStore('orders').get(orderId);
+    if (!order || order.status === 'cancelled') {
+      throw new Error('This order is no longer open');
+    }
+    if (!isOpenBill(order)) {
+      throw new Error('This order has already been paid');
+    }
+
+    const existingItems = await tx.objectStore('orderItems').index('by-orderId').getAll(orderId);
+    const ticket = Math.max(0, ...existingItems.map(item => item.ticket)) + 1;
+
+    await takeStock(tx, items);
+
+    const newItems: OrderItem[] = items.map(item => ({ ...item, orderId, ticket }));
+    for (const item of newItems) {
+      await auditedAdd(tx, 'orderItems', item);
+    }
+
+    const updatedOrder: Order = {
+      ...reopenOrder(order, actor),
+      ...(await priceOrder(tx, order, [...existingItems, ...newItems])),
+      notes: round.notes ? [order.notes, `Round ${ticket}: ${round.notes}`].filter(Boolean).join('\n') : order.notes,
+      guestAllergens: [...new Set([...(order.guestAllergens ?? []), ...(round.guestAllergens ?? [])])],
+      updatedAt: new Date(),
+    };
+    await auditedPut(tx, 'orders', updatedOrder);
+
+    return { order: updatedOrder, ticket };
+  });
+};
+
+// Queues a paid order for reporting to FBR when the integration is switched on
+const queueFiscalInvoice = async (tx: AuditedTransaction, order: Order): Promise<void> => {
+  const settings = await tx.objectStore('settings').get('fbr');
+  if (settings?.id !== 'fbr' || !settings.enabled || order.paymentStatus !== 'paid') return;
+
+  const now = new Date();
+  await tx.objectStore('fiscalQueue').put({ id: order.id, orderId: order.id, attempts: 0, nextAttemptAt: now, createdAt: now });
+};
+
+// Queues a refund's credit note when the sale was, or is waiting to be, reported to FBR
+const queueFiscalCreditNote = async (tx: AuditedTransaction, order: Order, refund: Payment): Promise<void> => {
+  const settings = await tx.objectStore('settings').get('fbr');
+  if (settings?.id !== 'fbr' || !settings.enabled) return;
+  if (!order.fiscalInvoiceNumber && !(await tx.objectStore('fiscalQueue').get(order.id))) return;
+
+  const now = new Date();
+  await tx.objectStore('fiscalQueue').put({ id: refund.id, orderId: order.id, paymentId: refund.id, attempts: 0, nextAttemptAt: now, createdAt: now });
 };
 
 // Payment operations
 export const createPayment = async (payment: Payment): Promise<void> => {
-  await db.add('payments', payment);
+  await runInTransaction(['payments', 'auditLog'], tx => auditedAdd(tx, 'payments', payment));
+};
+
+export const getPaymentsByOrderId = async (orderId: string): Promise<Payment[]> => {
+  return await db.getAllFromIndex('payments', 'by-orderId', orderId);
+};
+
+export const getPaymentsBetween = async (start: Date, end: Date): Promise<Payment[]> => {
+  return await db.getAllFromIndex('payments', 'by-paidAt', IDBKeyRange.bound(start, end));
+};
+
+// Takes a payment towards an open bill. Once the payments cover the total the
+// order is closed and its table freed; until then the bill stays partially paid.
+export const settleOrder = async (
+  orderId: string,
+  payment: Payment,
+  actor: Pick<User, 'id' | 'role'>
+): Promise<Order> => {
+  return await runInTransaction(['orders', 'payments', 'tables', 'settings', 'fiscalQueue', 'auditLog'], async (tx) => {
+    const order = await tx.objectStore('orders').get(orderId);
+    if (!order || order.status === 'cancelled') {
+      throw new Error('This order is no longer open');
+    }
+    if (!isOpenBill(order)) {
+      throw new Error('This order has already been paid');
+    }
+
+    const payments = await tx.objectStore('payments').index('by-orderId').getAll(orderId);
+    const amountPaid = payments.reduce((sum, existing) => sum + existing.amount, 0);
+    const balance = order.finalTotal - amountPaid;
+    if (payment.amount <= 0 || payment.amount > balance + 0.005) {
+      throw new Error(`Payment must be between Rs. 0.01 and Rs. ${balance.toFixed(2)}`);
+    }
+
+    await auditedAdd(tx, 'payments', payment);
+
+    if (balance - payment.amount > 0.005) {
+      const partialOrder: Order = { ...order, paymentStatus: 'partial', updatedAt: new Date() };
+      await auditedPut(tx, 'orders', partialOrder);
+      return partialOrder;
+    }
+
+    // Food that is ready is handed over as the bill is settled
+    const servedOrder = order.status === 'ready' ? transitionOrder(order, 'served', actor) : order;
+    const settledOrder: Order = {
+      ...servedOrder,
+      paymentStatus: 'paid',
+      closedAt: payment.paidAt,
+      updatedAt: new Date(),
+    };
+    await auditedPut(tx, 'orders', settledOrder);
+    await releaseTableIfFree(tx, order.tableId);
+    await queueFiscalInvoice(tx, settledOrder);
+
+    return settledOrder;
+  });
+};
+
+// Void and refund operations
+
+// Removes items from an open bill with manager approval, returns them to stock
+// and recomputes the bill. Voiding every item cancels the order.
+export const voidOrderItems = async (
+  orderId: string,
+  orderItemIds: string[],
+  approval: AdjustmentApproval,
+  approver: Pick<User, 'id' | 'role'>
+): Promise<Order> => {
+  return await runInTransaction(['orders', 'orderItems', 'menuItems', 'ingredients', 'categories', 'payments', 'settings', 'promotions', 'tables', 'fiscalQueue', 'auditLog'], async (tx) => {
+    const order = await tx.objectStore('orders').get(orderId);
+    if (!order || !isOpenBill(order)) {
+      throw new Error('Only items on an open bill can be voided; refund paid orders instead');
+    }
+
+    const items = await tx.objectStore('orderItems').index('by-orderId').getAll(orderId);
+    const payments = await tx.objectStore('payments').index('by-orderId').getAll(orderId);
+    const paidItemIds = new Set(payments.flatMap(payment => payment.orderItemIds ?? []));
+
+    const voidedItems = items.filter(item => orderItemIds.includes(item.id));
+    if (voidedItems.length === 0 || voidedItems.some(item => item.voided)) {
+      throw new Error('Select items that have not already been voided');
+    }
+    if (voidedItems.some(item => paidItemIds.has(item.id))) {
+      throw new Error('Some of these items have been paid for; refund them instead');
+    }
+
+    for (const item of voidedItems) {
+      await auditedPut(tx, 'orderItems', { ...item, voided: approval });
+    }
+    await restoreStock(tx, voidedItems);
+
+    const remainingItems = items.filter(item => !item.voided && !orderItemIds.includes(item.id));
+    const amountPaid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    const totals = await priceOrder(tx, order, remainingItems);
+    if (amountPaid > totals.finalTotal + 0.005) {
+      throw new Error('Voiding these items would leave the bill overpaid; refund instead');
+    }
+
+    let updatedOrder: Order = { ...order, ...totals, updatedAt: new Date() };
+    if (remainingItems.length === 0) {
+      updatedOrder = transitionOrder(updatedOrder, 'cancelled', approver);
+    } else if (amountPaid > 0 && totals.finalTotal - amountPaid <= 0.005) {
+      updatedOrder = { ...updatedOrder, paymentStatus: 'paid', closedAt: new Date() };
+    }
+    await auditedPut(tx, 'orders', updatedOrder);
+    await releaseTableIfFree(tx, order.tableId);
+    await queueFiscalInvoice(tx, updatedOrder);
+
+    return updatedOrder;
+  });
+};
+
+// Records a refund as a negative payment. Refunded items are voided and returned
+// to stock; refunding everything that was paid marks the order refunded.
+export const refundOrder = async (
+  orderId: string,
+  refund: { amount: number; orderItemIds: string[]; method: TenderMethod },
+  approval: AdjustmentApproval,
+  id: string
+): Promise<Payment> => {
+  return await runInTransaction(['orders', 'orderItems', 'menuItems', 'ingredients', 'payments', 'settings', 'fiscalQueue', 'auditLog'], async (tx) => {
+    const order = await tx.objectStore('orders').get(orderId);
+    if (!order || order.paymentStatus !== 'paid') {
+      throw new Error('Only paid orders can be refunded');
+    }
+
+    const payments = await tx.objectStore('payments').index('by-orderId').getAll(orderId);
+    const netPaid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    if (refund.amount <= 0 || refund.amount > netPaid + 0.005) {
+      throw new Error(`Refund must be between Rs. 0.01 and Rs. ${netPaid.toFixed(2)}`);
+    }
+
+    const items = await tx.objectStore('orderItems').index('by-orderId').getAll(orderId);
+    const refundedItems = items.filter(item => refund.orderItemIds.includes(item.id));
+    if (refundedItems.length !== new Set(refund.orderItemIds).size) {
+      throw new Error('Some of these items are not on this order');
+    }
+    if (refundedItems.some(item => item.voided)) {
+      throw new Error('Some of these items have already been refunded');
+    }
+    for (const item of refundedItems) {
+      await auditedPut(tx, 'orderItems', { ...item, voided: approval });
+    }
+    await restoreStock(tx, refundedItems);
+
+    const payment: Payment = {
+      id,
+      orderId,
+      method: refund.method,
+      amount: -refund.amount,
+      tenders: [{ method: refund.method, tendered: -refund.amount, applied: -refund.amount }],
+      changeGiven: 0,
+      tip: 0,
+      waiterId: order.waiterId,
+      paidAt: approval.approvedAt,
+      orderItemIds: refund.orderItemIds,
+      refund: approval,
+    };
+    await auditedAdd(tx, 'payments', payment);
+    await queueFiscalCreditNote(tx, order, payment);
+
+    if (netPaid - refund.amount <= 0.005) {
+      await auditedPut(tx, 'orders', { ...order, paymentStatus: 'refunded', updatedAt: new Date() });
+    }
+
+    return payment;
+  });
+};
+
+// Promotion operations
+export const getAllPromotions = async (): Promise<Promotion[]> => {
+  return await db.getAll('promotions');
+};
+
+export const createPromotion = async (promotion: Promotion): Promise<void> => {
+  await runInTransaction(['promotions', 'auditLog'], tx => auditedAdd(tx, 'promotions', promotion));
+};
+
+export const updatePromotion = async (promotion: Promotion): Promise<void> => {
+  await runInTransaction(['promotions', 'auditLog'], tx => auditedPut(tx, 'promotions', promotion));
+};
+
+export const deletePromotion = async (id: string): Promise<void> => {
+  await runInTransaction(['promotions', 'auditLog'], tx => auditedDelete(tx, 'promotions', id));
 };
 
-export const getPaymentByOrderId = async (orderId: string): Promise<Payment | undefined> => {
-  const payments = await db.getAll('payments');
-  return payments.find(payment => payment.orderId === orderId);
+// Bulk edit operations
+
+// Applies edits to the records as they are in `tx`, so stock sold while the edits
+// were being prepared is not overwritten. Items deleted meanwhile are skipped.
+const applyEdits = async (tx: AuditedTransaction, edits: MenuItemEdit[]): Promise<void> => {
+  const itemIds = [...new Set(edits.map(edit => edit.menuItemId))];
+  for (const itemId of itemIds) {
+    const item = await tx.objectStore('menuItems').get(itemId);
+    if (!item) continue;
+    const updatedItem = edits
+      .filter(edit => edit.menuItemId === itemId)
+      .reduce(applyMenuItemEdit, item);
+    await auditedPut(tx, 'menuItems', updatedItem);
+  }
+};
+
+export const applyMenuItemEdits = async (edits: MenuItemEdit[]): Promise<void> => {
+  await runInTransaction(['menuItems', 'auditLog'], tx => applyEdits(tx, edits));
+};
+
+export const getAllPriceChanges = async (): Promise<ScheduledPriceChange[]> => {
+  return await db.getAll('priceChanges');
+};
+
+export const createPriceChange = async (change: ScheduledPriceChange): Promise<void> => {
+  await runInTransaction(['priceChanges', 'auditLog'], tx => auditedAdd(tx, 'priceChanges', change));
+};
+
+export const cancelPriceChange = async (id: string): Promise<void> => {
+  await runInTransaction(['priceChanges', 'auditLog'], async (tx) => {
+    const change = await tx.objectStore('priceChanges').get(id);
+    if (!change || change.status !== 'pending') {
+      throw new Error('Price change is no longer pending');
+    }
+    await auditedPut(tx, 'priceChanges', { ...change, status: 'cancelled' });
+  });
+};
+
+// Applies every pending price change that is due at `at`, oldest first
+export const applyDuePriceChanges = async (at: Date): Promise<ScheduledPriceChange[]> => {
+  return await runInTransaction(['menuItems', 'priceChanges', 'auditLog'], async (tx) => {
+    const due = (await tx.objectStore('priceChanges').getAll())
+      .filter(change => change.status === 'pending' && new Date(change.effectiveAt) <= at)
+      .sort((a, b) => new Date(a.effectiveAt).getTime() - new Date(b.effectiveAt).getTime());
+
+    const applied: ScheduledPriceChange[] = [];
+    for (const change of due) {
+      await applyEdits(tx, change.edits);
+      const appliedChange: ScheduledPriceChange = { ...change, status: 'applied', appliedAt: at };
+      await auditedPut(tx, 'priceChanges', appliedChange);
+      applied.push(appliedChange);
+    }
+    return applied;
+  });
+};
+
+// Settings operations
+export const getTaxSettings = async (): Promise<TaxSettings> => {
+  const settings = await db.get('settings', 'tax');
+  return settings?.id === 'tax' ? settings : DEFAULT_TAX_SETTINGS;
+};
+
+export const saveTaxSettings = async (settings: TaxSettings): Promise<void> => {
+  await runInTransaction(['settings', 'auditLog'], tx => auditedPut(tx, 'settings', settings));
+};
+
+export const getFbrSettings = async (): Promise<FbrSettings> => {
+  const settings = await db.get('settings', 'fbr');
+  return settings?.id === 'fbr' ? settings : DEFAULT_FBR_SETTINGS;
+};
+
+export const saveFbrSettings = async (settings: FbrSettings): Promise<void> => {
+  await runInTransaction(['settings', 'auditLog'], tx => auditedPut(tx, 'settings', settings));
+};
+
+export const getDiscountSettings = async (): Promise<DiscountSettings> => {
+  const settings = await db.get('settings', 'discounts');
+  return settings?.id === 'discounts' ? settings : DEFAULT_DISCOUNT_SETTINGS;
+};
+
+export const saveDiscountSettings = async (settings: DiscountSettings): Promise<void> => {
+  await runInTransaction(['settings', 'auditLog'], tx => auditedPut(tx, 'settings', settings));
+};
+
+// Fiscal queue operations (queue entries are bookkeeping and are not audited)
+export const getFiscalQueue = async (): Promise<FiscalQueueEntry[]> => {
+  return await db.getAll('fiscalQueue');
+};
+
+export const updateFiscalQueueEntry = async (entry: FiscalQueueEntry): Promise<void> => {
+  await db.put('fiscalQueue', entry);
+};
+
+export const deleteFiscalQueueEntry = async (id: string): Promise<void> => {
+  await db.delete('fiscalQueue', id);
+};
+
+// Stores the invoice number FBR issued on the order and drops it from the queue
+export const recordFiscalInvoice = async (orderId: string, fiscalInvoiceNumber: string): Promise<Order> => {
+  return await runInTransaction(['orders', 'fiscalQueue', 'auditLog'], async (tx) => {
+    const order = await tx.objectStore('orders').get(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    const reportedOrder: Order = { ...order, fiscalInvoiceNumber };
+    await auditedPut(tx, 'orders', reportedOrder);
+    await tx.objectStore('fiscalQueue').delete(orderId);
+    return reportedOrder;
+  });
+};
+
+// Stores the invoice number FBR issued for a refund's credit note and drops it from the queue
+export const recordFiscalCreditNote = async (paymentId: string, fiscalInvoiceNumber: string): Promise<Payment> => {
+  return await runInTransaction(['payments', 'fiscalQueue', 'auditLog'], async (tx) => {
+    const payment = await tx.objectStore('payments').get(paymentId);
+    if (!payment) {
+      throw new Error('Refund not found');
+    }
+    const reportedPayment: Payment = { ...payment, fiscalInvoiceNumber };
+    await auditedPut(tx, 'payments', reportedPayment);
+    await tx.objectStore('fiscalQueue').delete(paymentId);
+    return reportedPayment;
+  });
+};
+
+// Audit log operations (append-only: entries are never updated or deleted)
+export const getAuditLogBetween = async (start: Date, end: Date): Promise<AuditLogEntry[]> => {
+  return await db.getAllFromIndex('auditLog', 'by-timestamp', IDBKeyRange.bound(start, end));
+};
+
+// Backup operations
+export type RestoreMode = 'replace' | 'merge';
+
+export const exportStores = async (): Promise<BackupData> => {
+  const tx = db.transaction([...BACKUP_STORES]);
+  const [users, categories, menuItems, tables, orders, orderItems, payments, settings, promotions, menuImages, priceChanges, ingredients] = await Promise.all([
+    tx.objectStore('users').getAll(),
+    tx.objectStore('categories').getAll(),
+    tx.objectStore('menuItems').getAll(),
+    tx.objectStore('tables').getAll(),
+    tx.objectStore('orders').getAll(),
+    tx.objectStore('orderItems').getAll(),
+    tx.objectStore('payments').getAll(),
+    tx.objectStore('settings').getAll(),
+    tx.objectStore('promotions').getAll(),
+    tx.objectStore('menuImages').getAll(),
+    tx.objectStore('priceChanges').getAll(),
+    tx.objectStore('ingredients').getAll(),
+  ]);
+  return { users, categories, menuItems, tables, orders, orderItems, payments, settings, promotions, menuImages, priceChanges, ingredients };
+};
+
+export const getStoreKeys = async (): Promise<Record<BackupStoreName, string[]>> => {
+  const tx = db.transaction([...BACKUP_STORES]);
+  const keys = await Promise.all(BACKUP_STORES.map(name => tx.objectStore(name).getAllKeys()));
+  return Object.fromEntries(BACKUP_STORES.map((name, index) => [name, keys[index]])) as Record<BackupStoreName, string[]>;
+};
+
+export const importStores = async (data: BackupData, mode: RestoreMode): Promise<void> => {
+  await runInTransaction([...BACKUP_STORES, 'auditLog'], async (tx) => {
+    const restore = async <Name extends BackupStoreName>(name: Name) => {
+      const store = tx.objectStore(name);
+      const existingCount = await store.count();
+      if (mode === 'replace') {
+        await store.clear();
+      }
+      for (const record of data[name]) {
+        await store.put(record);
+      }
+      // Restores are logged per store rather than per record
+      await tx.objectStore('auditLog').add(
+        createAuditEntry(auditActor, 'restore', name, mode, { records: existingCount }, { records: await store.count() })
+      );
+    };
+
+    for (const name of BACKUP_STORES) {
+      await restore(name);
+    }
+  });
 };
 
-export { db };
+export { db, DB_NAME, BACKUP_STORES };
+export type { RestaurantDB, BackupStoreName, BackupData };
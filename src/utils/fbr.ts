@@ -0,0 +1,245 @@
+import axios from 'axios';
+import { format } from 'date-fns';
+import { FbrSettings, MenuItem, Order, OrderItem, Payment } from '../types';
+import { getOrderItemName } from './variants';
+
+// Local stub started with `npm run fbr:mock`; the FBR fiscal component listens on the same path
+export const DEFAULT_FBR_SETTINGS: FbrSettings = {
+  id: 'fbr',
+  enabled: false,
+  endpoint: 'http://localhost:8524/api/IMSFiscal/GetInvoiceNumberByModel',
+  posId: '',
+  accessToken: '',
+  pctCode: '98010000',
+};
+
+// Payment and invoice type codes defined by the FBR POS integration spec
+const PAYMENT_MODES = { cash: 1, card: 2, mixed: 5 } as const;
+const INVOICE_TYPE_NEW = 1;
+const INVOICE_TYPE_CREDIT_NOTE = 3;
+
+// Response code FBR returns when an invoice number was issued
+const SUCCESS_CODE = '100';
+
+export interface FbrInvoiceItem {
+  ItemCode: string;
+  ItemName: string;
+  Quantity: number;
+  PCTCode: string;
+  TaxRate: number;
+  SaleValue: number;
+  TotalAmount: number;
+  TaxCharged: number;
+  Discount: number;
+  FurtherTax: number;
+  InvoiceType: number;
+  RefUSIN: string | null;
+}
+
+export interface FbrInvoice {
+  InvoiceNumber: string;
+  POSID: number;
+  USIN: string;
+  DateTime: string;
+  BuyerNTN: string;
+  BuyerCNIC: string;
+  BuyerName: string;
+  BuyerPhoneNumber: string;
+  TotalBillAmount: number;
+  TotalQuantity: number;
+  TotalSaleValue: number;
+  TotalTaxCharged: number;
+  Discount: number;
+  FurtherTax: number;
+  PaymentMode: number;
+  RefUSIN: string | null;
+  InvoiceType: number;
+  Items: FbrInvoiceItem[];
+}
+
+export interface FbrResponse {
+  InvoiceNumber: string;
+  Code: string;
+  Response: string;
+  Errors: string | null;
+}
+
+// Thrown when FBR answered but refused the invoice. Sending it again unchanged
+// will not help, unlike a timeout or an unreachable service.
+export class FbrRejectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FbrRejectionError';
+  }
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Returns a user-facing problem with the settings, or null when invoices can be sent
+export const validateFbrSettings = (settings: FbrSettings): string | null => {
+  if (!settings.enabled) return null;
+  if (!/^https?:\/\//.test(settings.endpoint)) {
+    return 'Endpoint must be an http or https URL';
+  }
+  if (!/^\d+$/.test(settings.posId)) {
+    return 'POS ID must be the number issued by FBR';
+  }
+  if (!settings.pctCode.trim()) {
+    return 'PCT code is required';
+  }
+  return null;
+};
+
+// Sale value, tax and discount reported on one invoice
+interface InvoiceAmounts {
+  billAmount: number;
+  saleValue: number;
+  tax: number;
+  discount: number;
+}
+
+// The amounts are spread over the items in proportion to their price, so the
+// item lines add up to the invoice totals
+const buildInvoice = (
+  usin: string,
+  dateTime: Date,
+  amounts: InvoiceAmounts,
+  items: OrderItem[],
+  paymentMode: number,
+  invoiceType: number,
+  refUsin: string | null,
+  menuItems: MenuItem[],
+  settings: FbrSettings
+): FbrInvoice => {
+  const grossSubtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+  const taxRate = amounts.saleValue > 0 ? roundMoney(amounts.tax / amounts.saleValue * 100) : 0;
+
+  return {
+    InvoiceNumber: '',
+    POSID: Number(settings.posId),
+    USIN: usin,
+    DateTime: format(dateTime, 'yyyy-MM-dd HH:mm:ss'),
+    BuyerNTN: '',
+    BuyerCNIC: '',
+    BuyerName: '',
+    BuyerPhoneNumber: '',
+    TotalBillAmount: roundMoney(amounts.billAmount),
+    TotalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+    TotalSaleValue: roundMoney(amounts.saleValue),
+    TotalTaxCharged: roundMoney(amounts.tax),
+    Discount: roundMoney(amounts.discount),
+    FurtherTax: 0,
+    PaymentMode: paymentMode,
+    RefUSIN: refUsin,
+    InvoiceType: invoiceType,
+    Items: items.map(item => {
+      const share = grossSubtotal > 0 ? item.totalPrice / grossSubtotal : 0;
+      const saleValue = roundMoney(amounts.saleValue * share);
+      const taxCharged = roundMoney(amounts.tax * share);
+      return {
+        ItemCode: item.menuItemId.slice(0, 8),
+        ItemName: getOrderItemName(item, menuItems),
+        Quantity: item.quantity,
+        PCTCode: settings.pctCode,
+        TaxRate: taxRate,
+        SaleValue: saleValue,
+        TotalAmount: roundMoney(saleValue + taxCharged),
+        TaxCharged: taxCharged,
+        Discount: roundMoney(amounts.discount * share),
+        FurtherTax: 0,
+        InvoiceType: invoiceType,
+        RefUSIN: refUsin,
+      };
+    }),
+  };
+};
+
+// Items still on the bill when it was paid; refunded items were sold and are
+// taken back by their own credit note
+const getSoldItems = (items: OrderItem[], payments: Payment[]): OrderItem[] => {
+  const refundedItemIds = new Set(payments.filter(payment => payment.refund).flatMap(payment => payment.orderItemIds ?? []));
+  return items.filter(item => !item.voided || refundedItemIds.has(item.id));
+};
+
+export const buildFbrInvoice = (
+  order: Order,
+  items: OrderItem[],
+  payments: Payment[],
+  menuItems: MenuItem[],
+  settings: FbrSettings
+): FbrInvoice => {
+  const methods = new Set(payments.filter(payment => !payment.refund).map(payment => payment.method));
+  const paymentMode = methods.size === 1 ? PAYMENT_MODES[[...methods][0]] : PAYMENT_MODES.mixed;
+
+  return buildInvoice(
+    order.id,
+    new Date(order.closedAt ?? order.updatedAt),
+    { billAmount: order.finalTotal, saleValue: order.total, tax: order.tax, discount: order.discount },
+    getSoldItems(items, payments),
+    paymentMode,
+    INVOICE_TYPE_NEW,
+    null,
+    menuItems,
+    settings
+  );
+};
+
+// A refund reported against the order's sale invoice. Its amounts are the order's
+// scaled down to the refunded amount, spread over the refunded items, or over
+// everything sold when the refund was an amount rather than items.
+export const buildFbrCreditNote = (
+  order: Order,
+  refund: Payment,
+  items: OrderItem[],
+  payments: Payment[],
+  menuItems: MenuItem[],
+  settings: FbrSettings
+): FbrInvoice => {
+  const refundedItems = items.filter(item => refund.orderItemIds?.includes(item.id));
+  const share = order.finalTotal > 0 ? -refund.amount / order.finalTotal : 0;
+
+  return buildInvoice(
+    refund.id,
+    new Date(refund.paidAt),
+    { billAmount: -refund.amount, saleValue: order.total * share, tax: order.tax * share, discount: order.discount * share },
+    refundedItems.length > 0 ? refundedItems : getSoldItems(items, payments),
+    refund.method === 'mixed' ? PAYMENT_MODES.mixed : PAYMENT_MODES[refund.method],
+    INVOICE_TYPE_CREDIT_NOTE,
+    order.id,
+    menuItems,
+    settings
+  );
+};
+
+// Client errors that may pass if sent again: request timeout and rate limiting
+const RETRYABLE_STATUSES = [408, 429];
+
+// Posts an invoice and returns the fiscal invoice number. Throws an
+// FbrRejectionError when FBR refuses the invoice, and any other error when the
+// service could not be reached.
+export const submitFbrInvoice = async (invoice: FbrInvoice, settings: FbrSettings): Promise<string> => {
+  let data: FbrResponse;
+  try {
+    ({ data } = await axios.post<FbrResponse>(settings.endpoint, invoice, {
+      headers: settings.accessToken ? { Authorization: `Bearer ${settings.accessToken}` } : {},
+      timeout: 15000,
+    }));
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    if (status && status >= 400 && status < 500 && !RETRYABLE_STATUSES.includes(status)) {
+      const body = axios.isAxiosError<Partial<FbrResponse>>(error) ? error.response?.data : undefined;
+      throw new FbrRejectionError(body?.Errors || body?.Response || `FBR refused the invoice with status ${status}`);
+    }
+    throw error;
+  }
+
+  if (data.Code !== SUCCESS_CODE || !data.InvoiceNumber) {
+    throw new FbrRejectionError(data.Errors || data.Response || `FBR returned code ${data.Code}`);
+  }
+  return data.InvoiceNumber;
+};
+
+// Receipt line for a reported sale, or a placeholder while it waits in the queue
+export const formatFiscalLine = (fiscalInvoiceNumber?: string): string => {
+  return `FBR Invoice #: ${fiscalInvoiceNumber ?? 'Pending'}`;
+};
@@ -0,0 +1,164 @@
+import {
+  deleteFiscalQueueEntry,
+  getAllMenuItems,
+  getFbrSettings,
+  getFiscalQueue,
+  getOrder,
+  getOrderItems,
+  getPaymentsByOrderId,
+  recordFiscalCreditNote,
+  recordFiscalInvoice,
+  updateFiscalQueueEntry,
+} from './database';
+import { FbrRejectionError, buildFbrCreditNote, buildFbrInvoice, submitFbrInvoice } from './fbr';
+import { FbrSettings, FiscalQueueEntry } from '../types';
+
+const SYNC_INTERVAL_MS = 30 * 1000;
+const FIRST_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+let isSyncing = false;
+
+// Doubles after every failed attempt, capped at an hour
+const getRetryDelay = (attempts: number): number => {
+  return Math.min(FIRST_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+};
+
+// Sends a refund's credit note once the sale it refers to has its invoice number
+const reportCreditNote = async (entry: FiscalQueueEntry, settings: FbrSettings): Promise<string | undefined> => {
+  const [order, items, payments, menuItems] = await Promise.all([
+    getOrder(entry.orderId),
+    getOrderItems(entry.orderId),
+    getPaymentsByOrderId(entry.orderId),
+    getAllMenuItems(),
+  ]);
+  const refund = payments.find(payment => payment.id === entry.paymentId);
+  if (!order || !refund) {
+    await deleteFiscalQueueEntry(entry.id);
+    return undefined;
+  }
+  if (refund.fiscalInvoiceNumber) {
+    await recordFiscalCreditNote(refund.id, refund.fiscalInvoiceNumber);
+    return refund.fiscalInvoiceNumber;
+  }
+  if (!order.fiscalInvoiceNumber) {
+    throw new Error('Waiting for the sale to be reported first');
+  }
+
+  const invoiceNumber = await submitFbrInvoice(buildFbrCreditNote(order, refund, items, payments, menuItems, settings), settings);
+  await recordFiscalCreditNote(refund.id, invoiceNumber);
+  return invoiceNumber;
+};
+
+const reportSale = async (entry: FiscalQueueEntry, settings: FbrSettings): Promise<string | undefined> => {
+  const order = await getOrder(entry.orderId);
+  if (!order) {
+    await deleteFiscalQueueEntry(entry.id);
+    return undefined;
+  }
+  if (order.fiscalInvoiceNumber) {
+    await recordFiscalInvoice(order.id, order.fiscalInvoiceNumber);
+    return order.fiscalInvoiceNumber;
+  }
+
+  const [items, payments, menuItems] = await Promise.all([
+    getOrderItems(order.id),
+    getPaymentsByOrderId(order.id),
+    getAllMenuItems(),
+  ]);
+  const invoiceNumber = await submitFbrInvoice(buildFbrInvoice(order, items, payments, menuItems, settings), settings);
+  await recordFiscalInvoice(order.id, invoiceNumber);
+  return invoiceNumber;
+};
+
+// Sends one queued sale or credit note. On failure the error is rethrown and the
+// entry rescheduled, or set aside as rejected when FBR refused it.
+const reportEntry = async (entry: FiscalQueueEntry, settings: FbrSettings): Promise<string | undefined> => {
+  try {
+    return entry.paymentId ? await reportCreditNote(entry, settings) : await reportSale(entry, settings);
+  } catch (error) {
+    const attempts = entry.attempts + 1;
+    await updateFiscalQueueEntry({
+      ...entry,
+      attempts,
+      lastError: error instanceof Error ? error.message : String(error),
+      rejected: error instanceof FbrRejectionError,
+      nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)),
+    });
+    throw error;
+  }
+};
+
+// Reports every queued entry that is due for another attempt, or all of them,
+// rejected ones included, when `force` is set. Sales go before the credit notes
+// that refer to them.
+export const processFiscalQueue = async (force: boolean = false): Promise<{ reported: number; failed: number }> => {
+  const result = { reported: 0, failed: 0 };
+  if (isSyncing) return result;
+
+  isSyncing = true;
+  try {
+    const settings = await getFbrSettings();
+    if (!settings.enabled) return result;
+
+    const now = Date.now();
+    const dueEntries = (await getFiscalQueue())
+      .filter(entry => force || (!entry.rejected && new Date(entry.nextAttemptAt).getTime() <= now))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    for (const entry of dueEntries) {
+      try {
+        await reportEntry(entry, settings);
+        result.reported++;
+      } catch (error) {
+        console.error(`Error reporting ${entry.paymentId ? 'refund' : 'order'} ${entry.paymentId ?? entry.orderId} to FBR:`, error);
+        result.failed++;
+      }
+    }
+    return result;
+  } finally {
+    isSyncing = false;
+  }
+};
+
+// Reports a just-paid order straight away so its receipt can carry the fiscal
+// invoice number. Returns undefined when FBR is off or the sale stays queued;
+// a background sync already in progress will pick the order up instead.
+// Rethrows the FbrRejectionError when FBR refused the invoice.
+export const reportOrderToFbr = async (orderId: string): Promise<string | undefined> => {
+  if (isSyncing) return undefined;
+
+  isSyncing = true;
+  try {
+    const settings = await getFbrSettings();
+    if (!settings.enabled) return undefined;
+
+    const entry = (await getFiscalQueue()).find(queued => queued.orderId === orderId && !queued.paymentId);
+    if (!entry) {
+      return (await getOrder(orderId))?.fiscalInvoiceNumber;
+    }
+    return await reportEntry(entry, settings);
+  } catch (error) {
+    console.error(`Error reporting order ${orderId} to FBR:`, error);
+    if (error instanceof FbrRejectionError) throw error;
+    return undefined;
+  } finally {
+    isSyncing = false;
+  }
+};
+
+// Retries queued sales periodically and as soon as the terminal comes back online
+export const startFiscalSync = (): (() => void) => {
+  const sync = () => {
+    processFiscalQueue().catch(error => console.error('Error syncing FBR invoices:', error));
+  };
+
+  sync();
+  const interval = window.setInterval(sync, SYNC_INTERVAL_MS);
+  window.addEventListener('online', sync);
+
+  return () => {
+    window.clearInterval(interval);
+    window.removeEventListener('online', sync);
+  };
+};
@@ -0,0 +1,105 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MenuImage } from '../types';
+
+// Longest side, in pixels, of the stored photo and of its thumbnail
+export const MENU_IMAGE_SIZE = 800;
+export const MENU_THUMBNAIL_SIZE = 160;
+
+// Larger uploads are refused before decoding, so a camera original does not stall the terminal
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+const IMAGE_TYPE = 'image/jpeg';
+const IMAGE_QUALITY = 0.85;
+
+// A copy of `source` scaled down to fit within `maxSize`, never scaled up
+const resize = async (source: ImageBitmap, maxSize: number): Promise<Blob> => {
+  const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(source.width * scale);
+  canvas.height = Math.round(source.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Images cannot be processed in this browser');
+  }
+  // JPEG has no transparency; fill it white rather than black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to resize image'))),
+      IMAGE_TYPE,
+      IMAGE_QUALITY
+    );
+  });
+};
+
+// Resizes an uploaded photo for storage. Throws with a user-facing message
+// when the file is not an image or is too large.
+export const createMenuImage = async (file: Blob): Promise<MenuImage> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Choose an image file');
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`Images must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error('This image could not be read');
+  }
+  try {
+    const [image, thumbnail] = await Promise.all([
+      resize(bitmap, MENU_IMAGE_SIZE),
+      resize(bitmap, MENU_THUMBNAIL_SIZE),
+    ]);
+    return { id: uuidv4(), image, thumbnail, createdAt: new Date() };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error('Image is not a data URL');
+  }
+  const [, type = 'application/octet-stream', base64, data] = match;
+  if (!base64) {
+    return new Blob([decodeURIComponent(data)], { type });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return new Blob([bytes], { type });
+};
+
+// Backups are JSON, so image blobs travel as data URLs
+export type EncodedMenuImage = Omit<MenuImage, 'image' | 'thumbnail'> & { image: string; thumbnail: string };
+
+export const encodeMenuImage = async (image: MenuImage): Promise<EncodedMenuImage> => ({
+  ...image,
+  image: await blobToDataUrl(image.image),
+  thumbnail: await blobToDataUrl(image.thumbnail),
+});
+
+export const decodeMenuImage = (image: EncodedMenuImage): MenuImage => ({
+  ...image,
+  image: dataUrlToBlob(image.image),
+  thumbnail: dataUrlToBlob(image.thumbnail),
+});
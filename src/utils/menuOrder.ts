@@ -0,0 +1,106 @@
+import { Category, MenuChannel, MenuItem, MenuVisibility } from '../types';
+
+export const MENU_VISIBILITY_LABELS: Record<MenuVisibility, string> = {
+  all: 'Everywhere',
+  pos: 'POS only',
+  waiter: 'Waiters only',
+  hidden: 'Hidden',
+};
+
+export const MENU_VISIBILITIES = Object.keys(MENU_VISIBILITY_LABELS) as MenuVisibility[];
+
+export const CATEGORY_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+export interface SortUpdate {
+  id: string;
+  sortOrder: number;
+}
+
+export const compareBySortOrder = (a: { sortOrder: number; name: string }, b: { sortOrder: number; name: string }): number => {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+};
+
+// Places a new record after everything already in `records`
+export const getNextSortOrder = (records: { sortOrder: number }[]): number => {
+  return records.reduce((max, record) => Math.max(max, record.sortOrder + 1), 0);
+};
+
+// New sort orders after dragging `draggedId` onto `targetId` in `records` (in
+// their displayed order). The records keep the positions they had between
+// them, so anything not shown is not moved.
+export const moveRecord = <T extends { id: string; sortOrder: number }>(
+  records: T[],
+  draggedId: string,
+  targetId: string
+): SortUpdate[] => {
+  const from = records.findIndex(record => record.id === draggedId);
+  const to = records.findIndex(record => record.id === targetId);
+  if (from === -1 || to === -1 || from === to) return [];
+
+  const reordered = [...records];
+  const [dragged] = reordered.splice(from, 1);
+  reordered.splice(to, 0, dragged);
+
+  const slots = records.map(record => record.sortOrder).sort((a, b) => a - b);
+  // Records that shared a sort order are spread out so the new order sticks
+  slots.forEach((slot, index) => {
+    if (index > 0 && slot <= slots[index - 1]) slots[index] = slots[index - 1] + 1;
+  });
+
+  return reordered
+    .map((record, index) => ({ id: record.id, sortOrder: slots[index] }))
+    .filter((update, index) => update.sortOrder !== reordered[index].sortOrder);
+};
+
+export const isVisibleOn = (visibility: MenuVisibility, channel: MenuChannel): boolean => {
+  return visibility === 'all' || visibility === channel;
+};
+
+// A sub-category is only shown when its parent is
+export const isCategoryVisible = (category: Category, categories: Category[], channel: MenuChannel): boolean => {
+  if (!isVisibleOn(category.visibility, channel)) return false;
+  const parent = category.parentId ? categories.find(candidate => candidate.id === category.parentId) : undefined;
+  return !parent || isVisibleOn(parent.visibility, channel);
+};
+
+export const isMenuItemVisible = (item: MenuItem, categories: Category[], channel: MenuChannel): boolean => {
+  const category = categories.find(candidate => candidate.id === item.categoryId);
+  return isVisibleOn(item.visibility, channel) && (!category || isCategoryVisible(category, categories, channel));
+};
+
+export const getTopLevelCategories = (categories: Category[]): Category[] => {
+  return categories.filter(category => !category.parentId || !categories.some(parent => parent.id === category.parentId));
+};
+
+export const getSubCategories = (parentId: string, categories: Category[]): Category[] => {
+  return categories.filter(category => category.parentId === parentId);
+};
+
+// Each top-level category followed by its sub-categories, all in sort order
+export const flattenCategoryTree = (categories: Category[]): Category[] => {
+  const sorted = [...categories].sort(compareBySortOrder);
+  return getTopLevelCategories(sorted).flatMap(category => [category, ...getSubCategories(category.id, sorted)]);
+};
+
+// The category and its sub-categories, for showing a parent's items together
+export const getCategoryIdsWithin = (categoryId: string, categories: Category[]): string[] => {
+  return [categoryId, ...getSubCategories(categoryId, categories).map(category => category.id)];
+};
+
+// The top-level category a tab bar should highlight for `categoryId`
+export const getTopLevelCategoryId = (categoryId: string, categories: Category[]): string => {
+  const category = categories.find(candidate => candidate.id === categoryId);
+  return category?.parentId && categories.some(parent => parent.id === category.parentId) ? category.parentId : categoryId;
+};
+
+export const validateCategoryParent = (category: Pick<Category, 'id' | 'parentId'>, categories: Category[]): string | null => {
+  if (!category.parentId) return null;
+  if (category.parentId === category.id) return 'A category cannot be its own parent';
+  const parent = categories.find(candidate => candidate.id === category.parentId);
+  if (!parent) return 'Parent category no longer exists';
+  if (parent.parentId) return 'Sub-categories cannot have sub-categories of their own';
+  if (category.id && getSubCategories(category.id, categories).length > 0) {
+    return 'This category has sub-categories, so it cannot become one';
+  }
+  return null;
+};
@@ -0,0 +1,447 @@
+import { format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { Allergen, Category, DietaryTag, MenuImage, MenuItem, MenuItemVariant, ModifierGroup, SpiceLevel } from '../types';
+import { ALLERGENS, ALLERGEN_LABELS, DIETARY_TAGS, DIETARY_TAG_LABELS, SPICE_LEVELS, SPICE_LEVEL_LABELS } from './allergens';
+import { isBundle } from './bundles';
+import { parseCsv, toCsv } from './csv';
+import { blobToDataUrl, createMenuImage, dataUrlToBlob } from './images';
+import { getNextSortOrder } from './menuOrder';
+import { keepRecipesByName } from './recipes';
+import { validateModifierGroups } from './modifiers';
+import { validateVariants } from './variants';
+
+export const MENU_FILE_FORMAT = 'restaurant-pos-menu';
+
+export type MenuField =
+  | 'name'
+  | 'category'
+  | 'price'
+  | 'description'
+  | 'stock'
+  | 'modifiers'
+  | 'variants'
+  | 'allergens'
+  | 'dietaryTags'
+  | 'spiceLevel'
+  | 'image';
+
+export const MENU_FIELD_LABELS: Record<MenuField, string> = {
+  name: 'Name',
+  category: 'Category',
+  price: 'Price',
+  description: 'Description',
+  stock: 'Stock',
+  modifiers: 'Modifiers',
+  variants: 'Sizes',
+  allergens: 'Allergens',
+  dietaryTags: 'Dietary',
+  spiceLevel: 'Spice Level',
+  image: 'Image',
+};
+
+export const MENU_FIELDS = Object.keys(MENU_FIELD_LABELS) as MenuField[];
+
+export const REQUIRED_MENU_FIELDS: MenuField[] = ['name', 'category'];
+
+// A file as read, before its columns are mapped to menu fields
+export interface MenuSource {
+  columns: string[];
+  records: Record<string, unknown>[];
+  // Row number of the first record as the user sees it (CSV has a header row)
+  firstRowNumber: number;
+}
+
+export type ColumnMapping = Partial<Record<MenuField, string>>;
+
+// What to do with a row whose name matches an item already on the menu
+export type DuplicateAction = 'skip' | 'update';
+
+export type ImportRowStatus = 'new' | 'update' | 'skip' | 'error';
+
+type ImportedItem = Pick<
+  MenuItem,
+  'name' | 'price' | 'description' | 'stock' | 'modifierGroups' | 'variants' | 'allergens' | 'dietaryTags' | 'spiceLevel'
+>;
+
+export interface MenuImportRow {
+  rowNumber: number;
+  name: string;
+  categoryName: string;
+  item: ImportedItem;
+  // Photo as a data URL, when the row has one
+  imageData?: string;
+  errors: string[];
+  // Menu item with the same name, when there is one
+  existingId?: string;
+}
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+// Compares column headers loosely: "Spice level", "spice_level" and "spiceLevel" all match
+const normalizeColumn = (column: string): string => column.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const COLUMN_ALIASES: Partial<Record<MenuField, string[]>> = {
+  name: ['item', 'itemname'],
+  variants: ['size', 'variants', 'portions'],
+  modifiers: ['modifiergroups', 'options'],
+  dietaryTags: ['diet', 'dietarytags', 'tags'],
+};
+
+// Text forms used in CSV cells:
+//   modifiers  "Spice Level [1-1]: Mild, Regular*, Spicy; Add-ons [0-2]: Raita=60, Naan=40"
+//              (* marks a default option, =N an extra price)
+//   sizes      "Half=280/30; Full=450/50" (name=price/stock)
+//   lists      "Dairy, Nuts"
+//   image      a data URL, e.g. "data:image/jpeg;base64,..."
+export const formatModifierGroupsText = (groups: ModifierGroup[]): string => {
+  return groups.map(group => {
+    const options = group.options.map(option =>
+      `${option.name}${option.price > 0 ? `=${option.price}` : ''}${option.isDefault ? '*' : ''}`
+    );
+    return `${group.name} [${group.minSelect}-${group.maxSelect}]: ${options.join(', ')}`;
+  }).join('; ');
+};
+
+export const formatVariantsText = (variants: MenuItemVariant[]): string => {
+  return variants.map(variant => `${variant.name}=${variant.price}/${variant.stock}`).join('; ');
+};
+
+const splitList = (value: string, separator: string): string[] => {
+  return value.split(separator).map(part => part.trim()).filter(Boolean);
+};
+
+const GROUP_PATTERN = /^(.+?)\s*\[(\d+)\s*-\s*(\d+)\]\s*:\s*(.+)$/;
+const OPTION_PATTERN = /^(.+?)\s*(?:=\s*(\d+(?:\.\d+)?))?\s*(\*)?$/;
+const VARIANT_PATTERN = /^(.+?)\s*=\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+)$/;
+
+const toText = (value: unknown): string => {
+  return value === undefined || value === null ? '' : String(value).trim();
+};
+
+const parseModifierGroups = (value: unknown, errors: string[]): ModifierGroup[] => {
+  if (Array.isArray(value)) {
+    return value.map((group: Partial<ModifierGroup>) => ({
+      id: uuidv4(),
+      name: toText(group.name),
+      minSelect: Number(group.minSelect) || 0,
+      maxSelect: Number(group.maxSelect) || 1,
+      options: (group.options ?? []).map(option => ({
+        id: uuidv4(),
+        name: toText(option.name),
+        price: Number(option.price) || 0,
+        isDefault: !!option.isDefault,
+      })),
+    }));
+  }
+
+  return splitList(toText(value), ';').flatMap(text => {
+    const match = GROUP_PATTERN.exec(text);
+    if (!match) {
+      errors.push(`Modifiers: cannot read "${text}"`);
+      return [];
+    }
+    const [, name, minSelect, maxSelect, optionsText] = match;
+    const options = splitList(optionsText, ',').flatMap(optionText => {
+      const option = OPTION_PATTERN.exec(optionText);
+      if (!option) {
+        errors.push(`Modifiers: cannot read option "${optionText}"`);
+        return [];
+      }
+      return [{ id: uuidv4(), name: option[1], price: Number(option[2] ?? 0), isDefault: !!option[3] }];
+    });
+    return [{ id: uuidv4(), name, minSelect: Number(minSelect), maxSelect: Number(maxSelect), options }];
+  });
+};
+
+const parseVariants = (value: unknown, errors: string[]): MenuItemVariant[] => {
+  if (Array.isArray(value)) {
+    return value.map((variant: Partial<MenuItemVariant>) => ({
+      id: uuidv4(),
+      name: toText(variant.name),
+      price: Number(variant.price) || 0,
+      stock: Number(variant.stock) || 0,
+    }));
+  }
+
+  return splitList(toText(value), ';').flatMap(text => {
+    const match = VARIANT_PATTERN.exec(text);
+    if (!match) {
+      errors.push(`Sizes: cannot read "${text}", expected name=price/stock`);
+      return [];
+    }
+    return [{ id: uuidv4(), name: match[1], price: Number(match[2]), stock: Number(match[3]) }];
+  });
+};
+
+// Accepts keys or labels in any case, as an array or comma-separated text
+const parseTags = <T extends string>(
+  value: unknown,
+  keys: T[],
+  labels: Record<T, string>,
+  field: string,
+  errors: string[]
+): T[] => {
+  const entries = Array.isArray(value) ? value.map(toText) : splitList(toText(value), ',');
+  return entries.flatMap(entry => {
+    const key = keys.find(candidate =>
+      normalizeName(candidate) === normalizeName(entry) || normalizeName(labels[candidate]) === normalizeName(entry)
+    );
+    if (!key) {
+      errors.push(`${field}: unknown value "${entry}"`);
+      return [];
+    }
+    return [key];
+  });
+};
+
+const parseSpiceLevel = (value: unknown, errors: string[]): SpiceLevel => {
+  const text = toText(value);
+  if (!text) return 0;
+  const level = SPICE_LEVELS.find(candidate =>
+    String(candidate) === text || normalizeName(SPICE_LEVEL_LABELS[candidate]) === normalizeName(text)
+  );
+  if (level === undefined) {
+    errors.push(`Spice Level: unknown value "${text}"`);
+    return 0;
+  }
+  return level;
+};
+
+const parseAmount = (value: unknown, field: string, errors: string[]): number => {
+  const text = toText(value);
+  if (!text) return 0;
+  const amount = Number(text);
+  if (Number.isNaN(amount)) {
+    errors.push(`${field}: "${text}" is not a number`);
+    return 0;
+  }
+  return amount;
+};
+
+export const readMenuFile = (fileName: string, contents: string): MenuSource => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(contents);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+    // Either our own export or a plain array of items
+    const records = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown })?.items;
+    if (!Array.isArray(records) || !records.every(record => record && typeof record === 'object')) {
+      throw new Error('JSON file should hold a list of menu items');
+    }
+    const columns = [...new Set(records.flatMap(record => Object.keys(record)))];
+    return { columns, records, firstRowNumber: 1 };
+  }
+
+  const [header, ...rows] = parseCsv(contents);
+  if (!header) {
+    throw new Error('File is empty');
+  }
+  const columns = header.map(column => column.trim());
+  const records = rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+  return { columns, records, firstRowNumber: 2 };
+};
+
+export const guessMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  MENU_FIELDS.forEach(field => {
+    const candidates = [field, MENU_FIELD_LABELS[field], ...(COLUMN_ALIASES[field] ?? [])].map(normalizeColumn);
+    const column = columns.find(candidate => candidates.includes(normalizeColumn(candidate)));
+    if (column) mapping[field] = column;
+  });
+  return mapping;
+};
+
+export const buildImportRows = (source: MenuSource, mapping: ColumnMapping, menuItems: MenuItem[]): MenuImportRow[] => {
+  const seen = new Map<string, number>();
+
+  return source.records.map((record, index) => {
+    const rowNumber = source.firstRowNumber + index;
+    const value = (field: MenuField): unknown => {
+      const column = mapping[field];
+      return column ? record[column] : undefined;
+    };
+    const errors: string[] = [];
+
+    const name = toText(value('name'));
+    const categoryName = toText(value('category'));
+    const key = normalizeName(name);
+    const existing = name ? menuItems.find(menuItem => normalizeName(menuItem.name) === key) : undefined;
+
+    // An item already on the menu keeps what it has for every column left unmapped
+    const read = <K extends keyof ImportedItem>(field: MenuField, property: K, parse: () => ImportedItem[K]): ImportedItem[K] => {
+      return existing && !mapping[field] ? existing[property] : parse();
+    };
+    const item: ImportedItem = {
+      name,
+      price: read('price', 'price', () => parseAmount(value('price'), 'Price', errors)),
+      description: read('description', 'description', () => toText(value('description'))),
+      stock: read('stock', 'stock', () => parseAmount(value('stock'), 'Stock', errors)),
+      modifierGroups: read('modifiers', 'modifierGroups', () => parseModifierGroups(value('modifiers'), errors)),
+      variants: read('variants', 'variants', () => {
+        const variants = parseVariants(value('variants'), errors);
+        return variants.length > 0 ? variants : undefined;
+      }),
+      allergens: read('allergens', 'allergens', () =>
+        parseTags<Allergen>(value('allergens'), ALLERGENS, ALLERGEN_LABELS, 'Allergens', errors)
+      ),
+      dietaryTags: read('dietaryTags', 'dietaryTags', () =>
+        parseTags<DietaryTag>(value('dietaryTags'), DIETARY_TAGS, DIETARY_TAG_LABELS, 'Dietary', errors)
+      ),
+      spiceLevel: read('spiceLevel', 'spiceLevel', () => parseSpiceLevel(value('spiceLevel'), errors)),
+    };
+
+    if (!name) errors.push('Name is required');
+    if (!categoryName) errors.push('Category is required');
+    if (item.variants) {
+      const problem = validateVariants(item.variants);
+      if (problem) errors.push(problem);
+      // Listed from the cheapest size, as in menu management
+      item.price = Math.min(...item.variants.map(variant => variant.price));
+      item.stock = 0;
+    } else {
+      if (item.price <= 0) errors.push('Price must be greater than 0');
+      if (item.stock < 0 || !Number.isInteger(item.stock)) errors.push('Stock must be a whole number, 0 or more');
+    }
+    const modifierProblem = validateModifierGroups(item.modifierGroups);
+    if (modifierProblem) errors.push(modifierProblem);
+
+    const imageData = toText(value('image')) || undefined;
+    if (imageData && !imageData.startsWith('data:image/')) {
+      errors.push('Image: expected an image data URL');
+    }
+
+    if (name && seen.has(key)) {
+      errors.push(`Same name as row ${seen.get(key)}`);
+    } else if (name) {
+      seen.set(key, rowNumber);
+    }
+
+    if (existing && isBundle(existing)) {
+      errors.push(`${existing.name} is a deal on the menu and cannot be replaced by an import`);
+    }
+
+    return { rowNumber, name, categoryName, item, imageData, errors, existingId: existing?.id };
+  });
+};
+
+export const getImportRowStatus = (row: MenuImportRow, duplicateAction: DuplicateAction): ImportRowStatus => {
+  if (row.errors.length > 0) return 'error';
+  if (!row.existingId) return 'new';
+  return duplicateAction === 'update' ? 'update' : 'skip';
+};
+
+// Records to write for the rows being imported; categories are matched by name
+// and created when missing. Updated items keep their id, deal slots, hours and
+// recipes, and their photo unless the row brings a new one.
+export const prepareMenuImport = async (
+  rows: MenuImportRow[],
+  duplicateAction: DuplicateAction,
+  menuItems: MenuItem[],
+  categories: Category[]
+): Promise<{ categories: Category[]; menuItems: MenuItem[]; images: MenuImage[] }> => {
+  const newCategories: Category[] = [];
+  const getCategoryId = (name: string): string => {
+    const category = [...categories, ...newCategories].find(candidate => normalizeName(candidate.name) === normalizeName(name));
+    if (category) return category.id;
+    const created: Category = {
+      id: uuidv4(),
+      name,
+      sortOrder: getNextSortOrder([...categories, ...newCategories]),
+      visibility: 'all',
+      createdAt: new Date(),
+    };
+    newCategories.push(created);
+    return created.id;
+  };
+
+  const items: MenuItem[] = [];
+  const images: MenuImage[] = [];
+  for (const row of rows) {
+    const status = getImportRowStatus(row, duplicateAction);
+    if (status === 'error' || status === 'skip') continue;
+
+    const categoryId = getCategoryId(row.categoryName);
+    const existing = menuItems.find(menuItem => menuItem.id === row.existingId);
+    const item: MenuItem = existing
+      ? keepRecipesByName(existing, { ...existing, ...row.item, categoryId })
+      : {
+          ...row.item,
+          id: uuidv4(),
+          categoryId,
+          sortOrder: getNextSortOrder([...menuItems, ...items]),
+          visibility: 'all' as const,
+          createdAt: new Date(),
+        };
+
+    // Re-processed so the thumbnail and size match photos uploaded here
+    if (row.imageData) {
+      const image = await createMenuImage(dataUrlToBlob(row.imageData));
+      images.push(image);
+      item.image = image.id;
+    }
+    items.push(item);
+  }
+
+  return { categories: newCategories, menuItems: items, images };
+};
+
+// Deals refer to other items by id, so they are left out of exports
+const getExportedItems = (menuItems: MenuItem[]): MenuItem[] => menuItems.filter(item => !isBundle(item));
+
+const getCategoryName = (item: MenuItem, categories: Category[]): string => {
+  return categories.find(category => category.id === item.categoryId)?.name ?? '';
+};
+
+const getImageData = async (item: MenuItem, images: MenuImage[]): Promise<string> => {
+  const image = images.find(candidate => candidate.id === item.image);
+  return image ? await blobToDataUrl(image.image) : '';
+};
+
+export const exportMenuJson = async (menuItems: MenuItem[], categories: Category[], images: MenuImage[]): Promise<Blob> => {
+  const items = await Promise.all(getExportedItems(menuItems).map(async item => ({
+    name: item.name,
+    category: getCategoryName(item, categories),
+    price: item.price,
+    description: item.description,
+    stock: item.stock,
+    modifiers: item.modifierGroups.map(({ name, minSelect, maxSelect, options }) => ({
+      name,
+      minSelect,
+      maxSelect,
+      options: options.map(({ name: optionName, price, isDefault }) => ({ name: optionName, price, isDefault })),
+    })),
+    variants: (item.variants ?? []).map(({ name, price, stock }) => ({ name, price, stock })),
+    allergens: item.allergens,
+    dietaryTags: item.dietaryTags,
+    spiceLevel: item.spiceLevel,
+    image: await getImageData(item, images) || undefined,
+  })));
+
+  const file = { format: MENU_FILE_FORMAT, exportedAt: new Date().toISOString(), items };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+export const exportMenuCsv = async (menuItems: MenuItem[], categories: Category[], images: MenuImage[]): Promise<Blob> => {
+  const rows = await Promise.all(getExportedItems(menuItems).map(async item => [
+    item.name,
+    getCategoryName(item, categories),
+    String(item.price),
+    item.description,
+    String(item.stock),
+    formatModifierGroupsText(item.modifierGroups),
+    formatVariantsText(item.variants ?? []),
+    item.allergens.map(allergen => ALLERGEN_LABELS[allergen]).join(', '),
+    item.dietaryTags.map(tag => DIETARY_TAG_LABELS[tag]).join(', '),
+    String(item.spiceLevel),
+    await getImageData(item, images),
+  ]));
+  const header = MENU_FIELDS.map(field => MENU_FIELD_LABELS[field]);
+  return new Blob([toCsv([header, ...rows])], { type: 'text/csv' });
+};
+
+export const getMenuFileName = (extension: 'csv' | 'json', date: Date = new Date()): string => {
+  return `menu-${format(date, 'yyyyMMdd-HHmm')}.${extension}`;
+};
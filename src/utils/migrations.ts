@@ -0,0 +1,347 @@
+import { IDBPDatabase, IDBPTransaction, StoreNames, StoreValue } from 'idb';
+import { RestaurantDB, BACKUP_STORES, BackupData } from './schema';
+import { SYSTEM_ACTOR } from './audit';
+import { DEFAULT_TAX_SETTINGS } from './pricing';
+import { DEFAULT_DISCOUNT_SETTINGS } from './promotions';
+import { MenuItem, SelectedModifier, TenderMethod } from '../types';
+
+// Before version 11 modifiers were plain names, free of charge
+type LegacyMenuItem = MenuItem & { modifiers?: string[] };
+type LegacyModifier = SelectedModifier | string;
+
+export type UpgradeTransaction = IDBPTransaction<RestaurantDB, StoreNames<RestaurantDB>[], 'versionchange'>;
+
+type StoreRecord = StoreValue<RestaurantDB, StoreNames<RestaurantDB>>;
+
+export type RecordBackfills = {
+  [Name in StoreNames<RestaurantDB>]?: (record: StoreValue<RestaurantDB, Name>) => StoreValue<RestaurantDB, Name>;
+};
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Structural changes: new stores and indexes
+  migrate?: (db: IDBPDatabase<RestaurantDB>, transaction: UpgradeTransaction) => Promise<void> | void;
+  // Per-record transforms, also applied to records restored from older backups
+  backfill?: RecordBackfills;
+  // Transforms that need to see related records in other stores (e.g. orders and
+  // their payments). Loads every business store, so prefer `backfill` when possible.
+  backfillData?: (data: BackupData) => BackupData;
+}
+
+// Rewrites every record in a store inside the upgrade transaction.
+// Only IndexedDB requests may be awaited here, otherwise the transaction auto-commits.
+export const transformRecords = async <Name extends StoreNames<RestaurantDB>>(
+  transaction: UpgradeTransaction,
+  storeName: Name,
+  transform: (record: StoreValue<RestaurantDB, Name>) => StoreValue<RestaurantDB, Name>
+): Promise<void> => {
+  let cursor = await transaction.objectStore(storeName).openCursor();
+  while (cursor) {
+    await cursor.update(transform(cursor.value));
+    cursor = await cursor.continue();
+  }
+};
+
+// Append new migrations to the end of this list. Never edit or reorder a
+// migration that has already shipped: terminals in the field only run the
+// steps above their current database version.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create users, categories, menu items, tables, orders, order items and payments stores',
+    migrate(db) {
+      db.createObjectStore('users', { keyPath: 'id' });
+      db.createObjectStore('categories', { keyPath: 'id' });
+      db.createObjectStore('menuItems', { keyPath: 'id' });
+      db.createObjectStore('tables', { keyPath: 'id' });
+      db.createObjectStore('orders', { keyPath: 'id' });
+      db.createObjectStore('orderItems', { keyPath: 'id' });
+      db.createObjectStore('payments', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Index order items and payments by order, users by email and orders by status and creation time',
+    migrate(_db, transaction) {
+      transaction.objectStore('users').createIndex('by-email', 'email');
+      transaction.objectStore('orders').createIndex('by-status', 'status');
+      transaction.objectStore('orders').createIndex('by-createdAt', 'createdAt');
+      transaction.objectStore('orderItems').createIndex('by-orderId', 'orderId');
+      transaction.objectStore('payments').createIndex('by-orderId', 'orderId');
+    },
+  },
+  {
+    version: 3,
+    description: 'Create append-only audit log store',
+    migrate(db) {
+      const auditLog = db.createObjectStore('auditLog', { keyPath: 'id' });
+      auditLog.createIndex('by-timestamp', 'timestamp');
+      auditLog.createIndex('by-actorId', 'actorId');
+      auditLog.createIndex('by-entityType', 'entityType');
+    },
+  },
+  {
+    version: 4,
+    description: 'Backfill order status history from creation and last update times',
+    backfill: {
+      orders: order => order.statusHistory ? order : {
+        ...order,
+        statusHistory: [
+          { status: 'pending', at: order.createdAt, by: order.waiterId },
+          ...(order.status !== 'pending' ? [{ status: order.status, at: order.updatedAt, by: SYSTEM_ACTOR.id }] : []),
+        ],
+      },
+    },
+  },
+  {
+    version: 5,
+    description: 'Index orders by table and number kitchen tickets on order items',
+    migrate(_db, transaction) {
+      transaction.objectStore('orders').createIndex('by-tableId', 'tableId');
+    },
+    backfill: {
+      orderItems: item => ({ ...item, ticket: item.ticket ?? 1 }),
+    },
+  },
+  {
+    version: 6,
+    description: 'Track whether each order has been paid and index orders by payment status',
+    migrate(_db, transaction) {
+      transaction.objectStore('orders').createIndex('by-paymentStatus', 'paymentStatus');
+    },
+    backfillData(data) {
+      const paidOrderIds = new Map(data.payments.map(payment => [payment.orderId, payment.paidAt]));
+      return {
+        ...data,
+        orders: data.orders.map(order => order.paymentStatus ? order : {
+          ...order,
+          paymentStatus: paidOrderIds.has(order.id) ? 'paid' : 'unpaid',
+          closedAt: paidOrderIds.get(order.id),
+        }),
+      };
+    },
+  },
+  {
+    version: 7,
+    description: 'Record tenders, change and tips on payments and index payments by time',
+    migrate(_db, transaction) {
+      transaction.objectStore('payments').createIndex('by-paidAt', 'paidAt');
+    },
+    backfillData(data) {
+      const waiterIds = new Map(data.orders.map(order => [order.id, order.waiterId]));
+      return {
+        ...data,
+        payments: data.payments.map(payment => payment.tenders ? payment : {
+          ...payment,
+          tenders: [{ method: payment.method as TenderMethod, tendered: payment.amount, applied: payment.amount }],
+          changeGiven: 0,
+          tip: 0,
+          waiterId: waiterIds.get(payment.orderId) ?? '',
+        }),
+      };
+    },
+  },
+  {
+    version: 8,
+    description: 'Create settings store with configurable tax rates and record order type and tax lines on orders',
+    migrate(db) {
+      db.createObjectStore('settings', { keyPath: 'id' });
+    },
+    backfill: {
+      orders: order => order.taxLines ? order : {
+        ...order,
+        orderType: order.orderType ?? 'dine-in',
+        taxLines: order.tax > 0
+          ? [{ rateId: 'gst', name: 'GST', rate: Math.round(order.tax / order.total * 100), amount: order.tax }]
+          : [],
+      },
+    },
+    backfillData(data) {
+      return data.settings.some(setting => setting.id === 'tax')
+        ? data
+        : { ...data, settings: [...data.settings, DEFAULT_TAX_SETTINGS] };
+    },
+  },
+  {
+    version: 9,
+    description: 'Create queue of paid orders waiting to be reported to FBR',
+    migrate(db) {
+      db.createObjectStore('fiscalQueue', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 10,
+    description: 'Create promotions store and record the discounts applied to each order',
+    migrate(db) {
+      db.createObjectStore('promotions', { keyPath: 'id' });
+    },
+    backfill: {
+      orders: order => order.discounts ? order : {
+        ...order,
+        discounts: order.discount > 0 ? [{ name: 'Manual: Discount', amount: order.discount }] : [],
+        manualDiscount: order.discount > 0
+          ? { type: 'fixed', value: order.discount, reason: 'Discount', appliedBy: order.waiterId }
+          : undefined,
+      },
+    },
+    backfillData(data) {
+      return data.settings.some(setting => setting.id === 'discounts')
+        ? data
+        : { ...data, settings: [...data.settings, DEFAULT_DISCOUNT_SETTINGS] };
+    },
+  },
+  {
+    version: 11,
+    description: 'Replace free-text modifiers with priced modifier groups',
+    backfill: {
+      menuItems: item => {
+        if (item.modifierGroups) return item;
+        const { modifiers = [], ...rest } = item as LegacyMenuItem;
+        return {
+          ...rest,
+          modifierGroups: modifiers.length > 0
+            ? [{
+                id: `${item.id}-options`,
+                name: 'Options',
+                minSelect: 0,
+                maxSelect: modifiers.length,
+                options: modifiers.map(name => ({ id: name, name, price: 0, isDefault: false })),
+              }]
+            : [],
+        };
+      },
+      orderItems: item => ({
+        ...item,
+        modifiers: (item.modifiers as LegacyModifier[]).map(modifier => typeof modifier === 'string'
+          ? { groupId: `${item.menuItemId}-options`, optionId: modifier, name: modifier, price: 0 }
+          : modifier),
+      }),
+    },
+  },
+  {
+    version: 12,
+    description: 'Add allergens, dietary tags and spice level to menu items',
+    backfill: {
+      menuItems: item => ({
+        ...item,
+        allergens: item.allergens ?? [],
+        dietaryTags: item.dietaryTags ?? [],
+        spiceLevel: item.spiceLevel ?? 0,
+      }),
+    },
+  },
+  {
+    version: 13,
+    description: 'Create menu images store for item photos and their thumbnails',
+    migrate(db) {
+      db.createObjectStore('menuImages', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 14,
+    description: 'Create store of price changes scheduled from the bulk menu editor',
+    migrate(db) {
+      db.createObjectStore('priceChanges', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 15,
+    description: 'Order categories and menu items, allow sub-categories and set where each is shown',
+    backfillData(data) {
+      // Existing records keep the order they were created in
+      const byCreation = <T extends { createdAt: Date }>(records: T[]): T[] => {
+        return [...records].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+      };
+      return {
+        ...data,
+        categories: byCreation(data.categories).map((category, index) => ({
+          ...category,
+          sortOrder: category.sortOrder ?? index,
+          visibility: category.visibility ?? 'all',
+        })),
+        menuItems: byCreation(data.menuItems).map((item, index) => ({
+          ...item,
+          sortOrder: item.sortOrder ?? index,
+          visibility: item.visibility ?? 'all',
+        })),
+      };
+    },
+  },
+  {
+    version: 16,
+    description: 'Create ingredients store for recipe-based inventory',
+    migrate(db) {
+      db.createObjectStore('ingredients', { keyPath: 'id' });
+    },
+  },
+];
+
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+export const runMigrations = async (
+  db: IDBPDatabase<RestaurantDB>,
+  oldVersion: number,
+  newVersion: number,
+  transaction: UpgradeTransaction
+): Promise<void> => {
+  const pending = migrations.filter(migration =>
+    migration.version > oldVersion && migration.version <= newVersion
+  );
+
+  for (const migration of pending) {
+    await migration.migrate?.(db, transaction);
+    await applyBackfills(transaction, migration.backfill ?? {});
+    if (migration.backfillData) {
+      await applyDataBackfill(transaction, migration.backfillData);
+    }
+  }
+};
+
+const applyBackfills = async (transaction: UpgradeTransaction, backfill: RecordBackfills): Promise<void> => {
+  for (const storeName of Object.keys(backfill) as StoreNames<RestaurantDB>[]) {
+    const transform = backfill[storeName] as (record: StoreRecord) => StoreRecord;
+    await transformRecords(transaction, storeName, transform);
+  }
+};
+
+const applyDataBackfill = async (
+  transaction: UpgradeTransaction,
+  backfillData: (data: BackupData) => BackupData
+): Promise<void> => {
+  // Stores created by later migrations do not exist yet
+  const storeNames = BACKUP_STORES.filter(name => transaction.objectStoreNames.contains(name));
+  const records = await Promise.all(storeNames.map(name => transaction.objectStore(name).getAll()));
+  const data = backfillData({
+    ...Object.fromEntries(BACKUP_STORES.map(name => [name, []])),
+    ...Object.fromEntries(storeNames.map((name, index) => [name, records[index]])),
+  } as BackupData);
+
+  for (const name of storeNames) {
+    const store = transaction.objectStore(name);
+    for (const record of data[name]) {
+      await store.put(record);
+    }
+  }
+};
+
+const backfillStore = <Name extends keyof BackupData>(
+  data: BackupData,
+  storeName: Name,
+  backfill: RecordBackfills
+): BackupData[Name] => {
+  const transform = backfill[storeName] as ((record: BackupData[Name][number]) => BackupData[Name][number]) | undefined;
+  return (transform ? data[storeName].map(transform) : data[storeName]) as BackupData[Name];
+};
+
+// Brings a backup exported at `fromVersion` up to the current schema
+export const backfillBackupData = (data: BackupData, fromVersion: number): BackupData => {
+  return migrations
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => {
+      const backfilled = Object.fromEntries(
+        BACKUP_STORES.map(name => [name, backfillStore(current, name, migration.backfill ?? {})])
+      ) as BackupData;
+      return migration.backfillData ? migration.backfillData(backfilled) : backfilled;
+    }, data);
+};
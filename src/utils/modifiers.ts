@@ -0,0 +1,92 @@
+import { MenuItem, ModifierGroup, SelectedModifier } from '../types';
+
+export const getDefaultModifiers = (item: MenuItem): SelectedModifier[] => {
+  return item.modifierGroups.flatMap(group =>
+    group.options
+      .filter(option => option.isDefault)
+      .slice(0, group.maxSelect)
+      .map(option => ({ groupId: group.id, optionId: option.id, name: option.name, price: option.price }))
+  );
+};
+
+// Picking an option in a single-choice group replaces the current pick; in
+// other groups it toggles, but never past the group's maximum
+export const toggleModifier = (
+  selected: SelectedModifier[],
+  group: ModifierGroup,
+  optionId: string
+): SelectedModifier[] => {
+  const option = group.options.find(candidate => candidate.id === optionId);
+  if (!option) return selected;
+
+  const inGroup = selected.filter(modifier => modifier.groupId === group.id);
+  if (inGroup.some(modifier => modifier.optionId === optionId)) {
+    // A required single choice cannot be cleared, only changed
+    if (group.maxSelect === 1 && group.minSelect === 1) return selected;
+    return selected.filter(modifier => !(modifier.groupId === group.id && modifier.optionId === optionId));
+  }
+
+  const modifier = { groupId: group.id, optionId: option.id, name: option.name, price: option.price };
+  if (group.maxSelect === 1) {
+    return [...selected.filter(existing => existing.groupId !== group.id), modifier];
+  }
+  if (inGroup.length >= group.maxSelect) return selected;
+  return [...selected, modifier];
+};
+
+// The first rule the selection breaks, or null when it can be ordered
+export const validateModifiers = (item: MenuItem, selected: SelectedModifier[]): string | null => {
+  for (const group of item.modifierGroups) {
+    const count = selected.filter(modifier => modifier.groupId === group.id).length;
+    if (count < group.minSelect) {
+      return group.minSelect === 1
+        ? `${item.name}: choose a ${group.name.toLowerCase()}`
+        : `${item.name}: choose at least ${group.minSelect} ${group.name.toLowerCase()}`;
+    }
+    if (count > group.maxSelect) {
+      return `${item.name}: choose at most ${group.maxSelect} ${group.name.toLowerCase()}`;
+    }
+  }
+  return null;
+};
+
+export const getModifiersPrice = (selected: SelectedModifier[]): number => {
+  return selected.reduce((sum, modifier) => sum + modifier.price, 0);
+};
+
+export const formatModifier = (modifier: SelectedModifier): string => {
+  return modifier.price > 0 ? `${modifier.name} (+Rs. ${modifier.price})` : modifier.name;
+};
+
+export const formatModifiers = (selected: SelectedModifier[]): string => {
+  return selected.map(formatModifier).join(', ');
+};
+
+export const describeGroupRule = (group: ModifierGroup): string => {
+  if (group.minSelect === group.maxSelect) return `Choose ${group.minSelect}`;
+  if (group.minSelect === 0) return `Up to ${group.maxSelect}`;
+  return `Choose ${group.minSelect}-${group.maxSelect}`;
+};
+
+export const validateModifierGroups = (groups: ModifierGroup[]): string | null => {
+  for (const group of groups) {
+    if (!group.name.trim()) return 'Every modifier group needs a name';
+    if (group.options.length === 0) return `${group.name}: add at least one option`;
+    if (group.options.some(option => !option.name.trim())) return `${group.name}: every option needs a name`;
+    if (group.options.some(option => option.price < 0)) return `${group.name}: option prices cannot be negative`;
+    if (group.maxSelect < 1 || group.minSelect < 0 || group.minSelect > group.maxSelect) {
+      return `${group.name}: minimum must be between 0 and the maximum, and the maximum at least 1`;
+    }
+    if (group.maxSelect > group.options.length) return `${group.name}: maximum is more than the number of options`;
+    if (group.options.filter(option => option.isDefault).length > group.maxSelect) {
+      return `${group.name}: more defaults than can be chosen`;
+    }
+  }
+  return null;
+};
+
+export const isSameModifiers = (a: SelectedModifier[], b: SelectedModifier[]): boolean => {
+  return a.length === b.length && a.every(modifier =>
+    b.some(other => other.groupId === modifier.groupId && other.optionId === modifier.optionId)
+  );
+};
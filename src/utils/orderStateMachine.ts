@@ -0,0 +1,110 @@
+import { Order, OrderStatus, OrderStatusChange, User } from '../types';
+
+type Role = User['role'];
+
+interface OrderTransition {
+  to: OrderStatus;
+  roles: Role[];
+}
+
+// The only legal moves between order statuses and who may make them.
+// Served and cancelled orders are final.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderTransition[]> = {
+  pending: [
+    { to: 'in-progress', roles: ['chef', 'admin'] },
+    { to: 'cancelled', roles: ['waiter', 'cashier', 'admin'] },
+  ],
+  'in-progress': [
+    { to: 'ready', roles: ['chef', 'admin'] },
+    { to: 'cancelled', roles: ['admin'] },
+  ],
+  ready: [
+    { to: 'served', roles: ['waiter', 'cashier', 'admin'] },
+    { to: 'cancelled', roles: ['admin'] },
+  ],
+  served: [],
+  cancelled: [],
+};
+
+export const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  'in-progress': 'In Progress',
+  ready: 'Ready',
+  served: 'Served',
+  cancelled: 'Cancelled',
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus, role: Role): boolean => {
+  return ORDER_TRANSITIONS[from].some(transition => transition.to === to && transition.roles.includes(role));
+};
+
+export const getAvailableTransitions = (order: Order, role: Role): OrderStatus[] => {
+  return ORDER_TRANSITIONS[order.status]
+    .filter(transition => transition.roles.includes(role))
+    .map(transition => transition.to);
+};
+
+export const createStatusHistory = (by: string, at: Date = new Date()): OrderStatusChange[] => {
+  return [{ status: 'pending', at, by }];
+};
+
+// Returns the order moved to `to`, or throws if the move is not allowed for the actor's role
+export const transitionOrder = (order: Order, to: OrderStatus, actor: Pick<User, 'id' | 'role'>): Order => {
+  if (!canTransition(order.status, to, actor.role)) {
+    throw new Error(`Cannot change order from ${STATUS_LABELS[order.status]} to ${STATUS_LABELS[to]}`);
+  }
+
+  const now = new Date();
+  return {
+    ...order,
+    status: to,
+    statusHistory: [...order.statusHistory, { status: to, at: now, by: actor.id }],
+    updatedAt: now,
+  };
+};
+
+// Statuses an open order can be sent back to pending from when a new round is added
+const REOPENABLE_STATUSES: OrderStatus[] = ['in-progress', 'ready', 'served'];
+const REOPEN_ROLES: Role[] = ['waiter', 'cashier', 'admin'];
+
+export const canReopen = (order: Order, role: Role): boolean => {
+  return REOPENABLE_STATUSES.includes(order.status) && REOPEN_ROLES.includes(role);
+};
+
+// Sends an order back to the kitchen because new items were added to it
+export const reopenOrder = (order: Order, actor: Pick<User, 'id' | 'role'>): Order => {
+  if (order.status === 'pending') return order;
+  if (!canReopen(order, actor.role)) {
+    throw new Error(`Cannot add items to a ${STATUS_LABELS[order.status].toLowerCase()} order`);
+  }
+
+  const now = new Date();
+  return {
+    ...order,
+    status: 'pending',
+    statusHistory: [...order.statusHistory, { status: 'pending', at: now, by: actor.id }],
+    updatedAt: now,
+  };
+};
+
+// When the order last entered `status`, if it ever did
+export const getStatusReachedAt = (order: Order, status: OrderStatus): Date | undefined => {
+  const change = [...order.statusHistory].reverse().find(entry => entry.status === status);
+  return change ? new Date(change.at) : undefined;
+};
+
+// Minutes from each round being placed (the order, or a round added after it
+// was reopened) to the kitchen marking it ready; rounds still cooking are left out
+export const getRoundPrepMinutes = (order: Order): number[] => {
+  const minutes: number[] = [];
+  let placedAt: Date | undefined;
+  order.statusHistory.forEach(entry => {
+    if (entry.status === 'pending') {
+      placedAt = new Date(entry.at);
+    } else if (entry.status === 'ready' && placedAt) {
+      minutes.push((new Date(entry.at).getTime() - placedAt.getTime()) / (1000 * 60));
+      placedAt = undefined;
+    }
+  });
+  return minutes;
+};
@@ -0,0 +1,15 @@
+import { applyDuePriceChanges } from './database';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// Applies scheduled price changes once they fall due, checking every minute;
+// each one applied is recorded in the audit log
+export const startPriceSchedule = (): (() => void) => {
+  const check = () => {
+    applyDuePriceChanges(new Date()).catch(error => console.error('Error applying scheduled price changes:', error));
+  };
+
+  check();
+  const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+  return () => window.clearInterval(interval);
+};
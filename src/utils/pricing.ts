@@ -0,0 +1,135 @@
+import { Category, MenuItem, OrderType, TaxLine, TaxSettings, TenderMethod } from '../types';
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  'dine-in': 'Dine In',
+  takeaway: 'Takeaway',
+  delivery: 'Delivery',
+};
+
+// The rates the app charged before tax became configurable: 16% GST and a 5%
+// service charge on every order, added on top of menu prices.
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  id: 'tax',
+  rates: [{ id: 'gst', name: 'GST', rate: 16 }],
+  classes: [
+    { id: 'standard', name: 'Standard', rateIds: ['gst'] },
+    { id: 'exempt', name: 'Exempt', rateIds: [] },
+  ],
+  defaultClassId: 'standard',
+  rules: [],
+  pricesIncludeTax: false,
+  serviceChargeRate: 5,
+  serviceChargeOrderTypes: ['dine-in', 'takeaway', 'delivery'],
+};
+
+export interface OrderTotals {
+  total: number;
+  discount: number;
+  tax: number;
+  taxLines: TaxLine[];
+  serviceCharge: number;
+  finalTotal: number;
+}
+
+export interface PricingContext {
+  orderType: OrderType;
+  paymentMethod?: TenderMethod;
+}
+
+// What the engine needs to know about the menu to tax a line
+export interface TaxCatalog {
+  settings: TaxSettings;
+  menuItems: MenuItem[];
+  categories: Category[];
+}
+
+export interface PricedLine {
+  menuItemId: string;
+  totalPrice: number;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Item's own class, else its category's, else the default class
+export const getTaxClass = (catalog: TaxCatalog, menuItemId: string) => {
+  const { settings } = catalog;
+  const menuItem = catalog.menuItems.find(item => item.id === menuItemId);
+  const category = catalog.categories.find(c => c.id === menuItem?.categoryId);
+  const classId = menuItem?.taxClassId ?? category?.taxClassId ?? settings.defaultClassId;
+  return settings.classes.find(taxClass => taxClass.id === classId)
+    ?? settings.classes.find(taxClass => taxClass.id === settings.defaultClassId);
+};
+
+// A rule applies when every condition it sets matches; the most specific rule wins
+export const getEffectiveRate = (settings: TaxSettings, rateId: string, context: PricingContext): number => {
+  const rule = settings.rules
+    .filter(candidate =>
+      candidate.rateId === rateId &&
+      (!candidate.paymentMethod || candidate.paymentMethod === context.paymentMethod) &&
+      (!candidate.orderType || candidate.orderType === context.orderType)
+    )
+    .sort((a, b) => Number(!!b.paymentMethod) + Number(!!b.orderType) - Number(!!a.paymentMethod) - Number(!!a.orderType))[0];
+  return rule ? rule.rate : settings.rates.find(rate => rate.id === rateId)?.rate ?? 0;
+};
+
+// Whether any rule changes tax depending on how the bill is paid
+export const dependsOnPaymentMethod = (settings: TaxSettings): boolean => {
+  return settings.rules.some(rule => rule.paymentMethod);
+};
+
+// Taxes each line at its class's rates and adds the service charge. With
+// tax-inclusive pricing the tax is extracted from line prices, so `total` is
+// always the net subtotal and finalTotal = total + tax + serviceCharge - discount.
+export const calculateOrderTotals = (
+  lines: PricedLine[],
+  context: PricingContext,
+  catalog: TaxCatalog,
+  discount: number = 0
+): OrderTotals => {
+  const { settings } = catalog;
+  const taxByRate = new Map<string, TaxLine>();
+  let netSubtotal = 0;
+
+  for (const line of lines) {
+    const rates = (getTaxClass(catalog, line.menuItemId)?.rateIds ?? [])
+      .filter(rateId => settings.rates.some(rate => rate.id === rateId))
+      .map(rateId => ({ rateId, rate: getEffectiveRate(settings, rateId, context) }));
+    const combinedRate = rates.reduce((sum, rate) => sum + rate.rate, 0);
+    const net = settings.pricesIncludeTax ? line.totalPrice / (1 + combinedRate / 100) : line.totalPrice;
+    netSubtotal += net;
+
+    for (const { rateId, rate } of rates) {
+      const existing = taxByRate.get(rateId);
+      const name = settings.rates.find(taxRate => taxRate.id === rateId)?.name ?? rateId;
+      taxByRate.set(rateId, {
+        rateId,
+        name,
+        rate,
+        amount: (existing?.amount ?? 0) + net * rate / 100,
+      });
+    }
+  }
+
+  const taxLines = [...taxByRate.values()]
+    .map(line => ({ ...line, amount: roundMoney(line.amount) }))
+    .filter(line => line.amount !== 0);
+  const total = roundMoney(netSubtotal);
+  const tax = roundMoney(taxLines.reduce((sum, line) => sum + line.amount, 0));
+  const serviceCharge = settings.serviceChargeOrderTypes.includes(context.orderType)
+    ? roundMoney(total * settings.serviceChargeRate / 100)
+    : 0;
+
+  return {
+    total,
+    discount,
+    tax,
+    taxLines,
+    serviceCharge,
+    finalTotal: roundMoney(total + tax + serviceCharge - discount),
+  };
+};
+
+// Receipt and summary label for a tax line, e.g. "GST (16%)"
+export const formatTaxLine = (line: Pick<TaxLine, 'name' | 'rate'>): string => {
+  return `${line.name} (${line.rate}%)`;
+};
@@ -0,0 +1,151 @@
+import { AppliedDiscount, DiscountSettings, ManualDiscount, MenuItem, Promotion, PromotionScope, PromotionType, User } from '../types';
+import { isWithinSchedule } from './schedule';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: 'Percentage off',
+  fixed: 'Fixed amount off',
+  'buy-x-get-y': 'Buy X get Y free',
+};
+
+export const PROMOTION_SCOPE_LABELS: Record<PromotionScope, string> = {
+  order: 'Whole order',
+  categories: 'Categories',
+  items: 'Menu items',
+};
+
+export const DEFAULT_DISCOUNT_SETTINGS: DiscountSettings = {
+  id: 'discounts',
+  manualLimits: { admin: 100, cashier: 10, waiter: 0, chef: 0 },
+};
+
+export interface DiscountLine {
+  menuItemId: string;
+  quantity: number;
+  totalPrice: number;
+}
+
+export interface DiscountContext {
+  // Happy hours are judged against when the order was opened
+  at: Date;
+  couponCode?: string;
+  manualDiscount?: ManualDiscount;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+const isLive = (promotion: Promotion, at: Date): boolean => {
+  return !promotion.schedule || isWithinSchedule(promotion.schedule, at);
+};
+
+const isInScope = (promotion: Promotion, menuItem: MenuItem | undefined): boolean => {
+  switch (promotion.scope) {
+    case 'order':
+      return true;
+    case 'categories':
+      return !!menuItem && promotion.categoryIds.includes(menuItem.categoryId);
+    case 'items':
+      return !!menuItem && promotion.menuItemIds.includes(menuItem.id);
+  }
+};
+
+// What the promotion takes off these lines, or 0 when it does not qualify
+export const getPromotionDiscount = (promotion: Promotion, lines: DiscountLine[], menuItems: MenuItem[]): number => {
+  const scopedLines = lines.filter(line => isInScope(promotion, menuItems.find(item => item.id === line.menuItemId)));
+  const scopedTotal = scopedLines.reduce((sum, line) => sum + line.totalPrice, 0);
+  if (scopedTotal <= 0 || scopedTotal < promotion.minSpend) return 0;
+
+  switch (promotion.type) {
+    case 'percentage':
+      return roundMoney(scopedTotal * Math.min(promotion.value, 100) / 100);
+    case 'fixed':
+      return roundMoney(Math.min(promotion.value, scopedTotal));
+    case 'buy-x-get-y': {
+      // Every group of X + Y units gets its Y cheapest units free, most expensive units grouped first
+      const groupSize = promotion.buyQuantity + promotion.getQuantity;
+      if (promotion.buyQuantity <= 0 || promotion.getQuantity <= 0) return 0;
+      const unitPrices = scopedLines
+        .flatMap(line => Array<number>(line.quantity).fill(line.totalPrice / line.quantity))
+        .sort((a, b) => b - a);
+      const freeUnits = unitPrices.filter((_, index) => index % groupSize >= promotion.buyQuantity);
+      return roundMoney(freeUnits.reduce((sum, price) => sum + price, 0));
+    }
+  }
+};
+
+export const findCouponPromotion = (promotions: Promotion[], code: string): Promotion | undefined => {
+  return promotions.find(promotion =>
+    promotion.active && promotion.couponCode && normalizeCode(promotion.couponCode) === normalizeCode(code)
+  );
+};
+
+export const getManualDiscountAmount = (manualDiscount: ManualDiscount, subtotal: number): number => {
+  return roundMoney(manualDiscount.type === 'percentage'
+    ? subtotal * Math.min(manualDiscount.value, 100) / 100
+    : manualDiscount.value);
+};
+
+// Whether a manual discount is above what `role` may give without a manager
+export const exceedsManualLimit = (
+  settings: DiscountSettings,
+  role: User['role'],
+  manualDiscount: Pick<ManualDiscount, 'type' | 'value'>,
+  subtotal: number
+): boolean => {
+  const limit = settings.manualLimits[role] ?? 0;
+  const percent = manualDiscount.type === 'percentage'
+    ? manualDiscount.value
+    : subtotal > 0 ? manualDiscount.value / subtotal * 100 : 100;
+  return percent > limit + 0.001;
+};
+
+// The best automatic promotion applies by itself; an entered coupon and a
+// manual discount are added on top. Discounts never exceed the subtotal.
+export const calculateDiscounts = (
+  lines: DiscountLine[],
+  promotions: Promotion[],
+  menuItems: MenuItem[],
+  context: DiscountContext
+): AppliedDiscount[] => {
+  const subtotal = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+  if (subtotal <= 0) return [];
+
+  const candidates: AppliedDiscount[] = [];
+
+  const automatic = promotions
+    .filter(promotion => promotion.active && !promotion.couponCode && isLive(promotion, context.at))
+    .map(promotion => ({ promotionId: promotion.id, name: promotion.name, amount: getPromotionDiscount(promotion, lines, menuItems) }))
+    .sort((a, b) => b.amount - a.amount)[0];
+  if (automatic) candidates.push(automatic);
+
+  const coupon = context.couponCode ? findCouponPromotion(promotions, context.couponCode) : undefined;
+  if (coupon && isLive(coupon, context.at)) {
+    candidates.push({
+      promotionId: coupon.id,
+      name: coupon.name,
+      amount: getPromotionDiscount(coupon, lines, menuItems),
+      couponCode: normalizeCode(context.couponCode!),
+    });
+  }
+
+  if (context.manualDiscount) {
+    candidates.push({
+      name: `Manual: ${context.manualDiscount.reason}`,
+      amount: getManualDiscountAmount(context.manualDiscount, subtotal),
+    });
+  }
+
+  let remaining = subtotal;
+  return candidates
+    .map(discount => {
+      const amount = roundMoney(Math.min(discount.amount, remaining));
+      remaining -= amount;
+      return { ...discount, amount };
+    })
+    .filter(discount => discount.amount > 0);
+};
+
+export const getDiscountTotal = (discounts: AppliedDiscount[]): number => {
+  return roundMoney(discounts.reduce((sum, discount) => sum + discount.amount, 0));
+};
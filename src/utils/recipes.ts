@@ -0,0 +1,196 @@
+import { Ingredient, IngredientUnit, MenuItem, RecipeLine } from '../types';
+import { StockLine, getStockUsage } from './bundles';
+import { getVariant, hasVariants } from './variants';
+
+export const INGREDIENT_UNIT_LABELS: Record<IngredientUnit, string> = {
+  kg: 'Kilograms (kg)',
+  g: 'Grams (g)',
+  l: 'Litres (l)',
+  ml: 'Millilitres (ml)',
+  pcs: 'Pieces (pcs)',
+};
+
+export const INGREDIENT_UNITS = Object.keys(INGREDIENT_UNIT_LABELS) as IngredientUnit[];
+
+// Units of the same kind convert through their size in the smallest unit
+const UNIT_SIZES: Record<IngredientUnit, { kind: 'mass' | 'volume' | 'count'; size: number }> = {
+  kg: { kind: 'mass', size: 1000 },
+  g: { kind: 'mass', size: 1 },
+  l: { kind: 'volume', size: 1000 },
+  ml: { kind: 'volume', size: 1 },
+  pcs: { kind: 'count', size: 1 },
+};
+
+export interface IngredientUsage {
+  ingredientId: string;
+  // In the ingredient's own unit
+  quantity: number;
+}
+
+export const getCompatibleUnits = (unit: IngredientUnit): IngredientUnit[] => {
+  return INGREDIENT_UNITS.filter(candidate => UNIT_SIZES[candidate].kind === UNIT_SIZES[unit].kind);
+};
+
+export const convertQuantity = (quantity: number, from: IngredientUnit, to: IngredientUnit): number => {
+  return quantity * UNIT_SIZES[from].size / UNIT_SIZES[to].size;
+};
+
+// Drops floating point noise, e.g. 0.30000000000000004 kg left after taking 0.1 kg three times
+export const roundQuantity = (quantity: number): number => {
+  return Math.round(quantity * 1e6) / 1e6;
+};
+
+export const formatQuantity = (quantity: number, unit: IngredientUnit): string => {
+  return `${Math.round(quantity * 1000) / 1000} ${unit}`;
+};
+
+// The recipe one unit of the item, or of one of its sizes, is made from; empty
+// when it is counted as finished dishes instead
+export const getRecipe = (item: MenuItem, variantId?: string): RecipeLine[] => {
+  const variantRecipe = getVariant(item, variantId)?.recipe;
+  return variantRecipe && variantRecipe.length > 0 ? variantRecipe : item.recipe ?? [];
+};
+
+export const usesRecipe = (item: MenuItem): boolean => {
+  return (item.recipe?.length ?? 0) > 0 || !!item.variants?.some(variant => (variant.recipe?.length ?? 0) > 0);
+};
+
+// Ingredients `lines` use, combined per ingredient: each dish's recipe (deals
+// through their components) plus the recipes of its chosen modifiers
+export const getIngredientUsage = (lines: StockLine[], menuItems: MenuItem[], ingredients: Ingredient[]): IngredientUsage[] => {
+  const usage: IngredientUsage[] = [];
+  const take = (recipe: RecipeLine[], quantity: number) => {
+    recipe.forEach(line => {
+      const ingredient = ingredients.find(candidate => candidate.id === line.ingredientId);
+      if (!ingredient) return;
+      const amount = convertQuantity(line.quantity, line.unit, ingredient.unit) * quantity;
+      const existing = usage.find(entry => entry.ingredientId === ingredient.id);
+      if (existing) {
+        existing.quantity += amount;
+      } else {
+        usage.push({ ingredientId: ingredient.id, quantity: amount });
+      }
+    });
+  };
+
+  getStockUsage(lines).forEach(({ menuItemId, variantId, quantity }) => {
+    const item = menuItems.find(menuItem => menuItem.id === menuItemId);
+    if (item) take(getRecipe(item, variantId), quantity);
+  });
+  lines.forEach(line => {
+    const item = menuItems.find(menuItem => menuItem.id === line.menuItemId);
+    (line.modifiers ?? []).forEach(modifier => {
+      const option = item?.modifierGroups
+        .find(group => group.id === modifier.groupId)
+        ?.options.find(candidate => candidate.id === modifier.optionId);
+      take(option?.recipe ?? [], line.quantity);
+    });
+  });
+  return usage.map(entry => ({ ...entry, quantity: roundQuantity(entry.quantity) }));
+};
+
+// "Can make N more": how many of the item, or of one of its sizes, the
+// ingredients in stock are enough for, before any modifiers
+export const getRecipeCapacity = (recipe: RecipeLine[], ingredients: Ingredient[]): number => {
+  return Math.min(...recipe.map(line => {
+    const ingredient = ingredients.find(candidate => candidate.id === line.ingredientId);
+    if (!ingredient || line.quantity <= 0) return 0;
+    return Math.max(0, Math.floor(roundQuantity(ingredient.stock / convertQuantity(line.quantity, line.unit, ingredient.unit))));
+  }));
+};
+
+// The items with the stock of everything made from a recipe replaced by what
+// its ingredients can make, so stock checks and tiles treat them like counted dishes
+export const withRecipeStock = (menuItems: MenuItem[], ingredients: Ingredient[]): MenuItem[] => {
+  return menuItems.map(item => {
+    if (!usesRecipe(item)) return item;
+    if (!hasVariants(item)) return { ...item, stock: getRecipeCapacity(getRecipe(item), ingredients) };
+    return {
+      ...item,
+      variants: item.variants!.map(variant => {
+        const recipe = getRecipe(item, variant.id);
+        return recipe.length > 0 ? { ...variant, stock: getRecipeCapacity(recipe, ingredients) } : variant;
+      }),
+    };
+  });
+};
+
+// `item` as stored, with the recipes of the item, its sizes and its modifier
+// options taken from `edited` and everything else left as it is
+export const copyRecipes = (edited: MenuItem, item: MenuItem): MenuItem => {
+  const recipeOf = <T extends { id: string; recipe?: RecipeLine[] }>(records: T[] | undefined, id: string) => {
+    return records?.find(record => record.id === id)?.recipe;
+  };
+  return {
+    ...item,
+    recipe: edited.recipe,
+    variants: item.variants?.map(variant => ({ ...variant, recipe: recipeOf(edited.variants, variant.id) })),
+    modifierGroups: item.modifierGroups.map(group => ({
+      ...group,
+      options: group.options.map(option => ({
+        ...option,
+        recipe: recipeOf(edited.modifierGroups.find(editedGroup => editedGroup.id === group.id)?.options, option.id),
+      })),
+    })),
+  };
+};
+
+// `item` with each size and modifier option given the recipe of the one with the
+// same name on `previous`, for when an import replaces them with new records
+export const keepRecipesByName = (previous: MenuItem, item: MenuItem): MenuItem => {
+  const isNamed = (name: string) => (record: { name: string }) => record.name.trim().toLowerCase() === name.trim().toLowerCase();
+  return {
+    ...item,
+    variants: item.variants?.map(variant => ({
+      ...variant,
+      recipe: variant.recipe ?? previous.variants?.find(isNamed(variant.name))?.recipe,
+    })),
+    modifierGroups: item.modifierGroups.map(group => ({
+      ...group,
+      options: group.options.map(option => ({
+        ...option,
+        recipe: option.recipe ?? previous.modifierGroups.find(isNamed(group.name))?.options.find(isNamed(option.name))?.recipe,
+      })),
+    })),
+  };
+};
+
+export const isLowOnIngredient = (ingredient: Ingredient): boolean => {
+  return ingredient.stock <= ingredient.lowStockLevel;
+};
+
+// Items whose recipe, sizes or modifier options use `ingredientId`
+export const getMenuItemsUsing = (ingredientId: string, menuItems: MenuItem[]): MenuItem[] => {
+  const uses = (recipe?: RecipeLine[]) => !!recipe?.some(line => line.ingredientId === ingredientId);
+  return menuItems.filter(item =>
+    uses(item.recipe) ||
+    item.variants?.some(variant => uses(variant.recipe)) ||
+    item.modifierGroups.some(group => group.options.some(option => uses(option.recipe)))
+  );
+};
+
+export const validateRecipe = (name: string, recipe: RecipeLine[], ingredients: Ingredient[]): string | null => {
+  const used = new Set<string>();
+  for (const line of recipe) {
+    const ingredient = ingredients.find(candidate => candidate.id === line.ingredientId);
+    if (!ingredient) return `${name}: choose an ingredient for every line`;
+    if (used.has(ingredient.id)) return `${name}: ${ingredient.name} is listed twice`;
+    if (!(line.quantity > 0)) return `${name}: ${ingredient.name} quantity must be greater than 0`;
+    if (!getCompatibleUnits(ingredient.unit).includes(line.unit)) {
+      return `${name}: ${ingredient.name} cannot be measured in ${line.unit}`;
+    }
+    used.add(ingredient.id);
+  }
+  return null;
+};
+
+export const validateIngredient = (ingredient: Pick<Ingredient, 'id' | 'name' | 'stock' | 'lowStockLevel'>, ingredients: Ingredient[]): string | null => {
+  const name = ingredient.name.trim();
+  if (!name) return 'Ingredient name is required';
+  if (ingredients.some(other => other.id !== ingredient.id && other.name.trim().toLowerCase() === name.toLowerCase())) {
+    return `There is already an ingredient called ${name}`;
+  }
+  if (ingredient.stock < 0) return 'Stock cannot be negative';
+  if (ingredient.lowStockLevel < 0) return 'Low stock level cannot be negative';
+  return null;
+};
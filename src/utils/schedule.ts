@@ -0,0 +1,26 @@
+import { Schedule } from '../types';
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isWithinSchedule = (schedule: Schedule, at: Date): boolean => {
+  const minutes = at.getHours() * 60 + at.getMinutes();
+  const start = toMinutes(schedule.startTime);
+  const end = toMinutes(schedule.endTime);
+  if (start <= end) {
+    return schedule.days.includes(at.getDay()) && minutes >= start && minutes < end;
+  }
+  // Window wraps past midnight: the early hours belong to the previous day's window
+  if (minutes >= start) return schedule.days.includes(at.getDay());
+  if (minutes < end) return schedule.days.includes((at.getDay() + 6) % 7);
+  return false;
+};
+
+export const formatSchedule = (schedule: Schedule): string => {
+  const days = schedule.days.length === 7 ? 'Daily' : schedule.days.map(day => DAY_LABELS[day]).join(', ');
+  return `${days} ${schedule.startTime}-${schedule.endTime}`;
+};
@@ -0,0 +1,80 @@
+import { DBSchema, StoreValue } from 'idb';
+import { User, Category, MenuItem, MenuImage, Table, Order, OrderItem, OrderStatus, Payment, PaymentStatus, AppSettings, FiscalQueueEntry, Promotion, AuditEntityType, AuditLogEntry, ScheduledPriceChange, Ingredient } from '../types';
+
+export const DB_NAME = 'restaurant-pos';
+
+export interface RestaurantDB extends DBSchema {
+  users: {
+    key: string;
+    value: User;
+    indexes: { 'by-email': string };
+  };
+  categories: {
+    key: string;
+    value: Category;
+  };
+  menuItems: {
+    key: string;
+    value: MenuItem;
+  };
+  menuImages: {
+    key: string;
+    value: MenuImage;
+  };
+  tables: {
+    key: string;
+    value: Table;
+  };
+  orders: {
+    key: string;
+    value: Order;
+    indexes: {
+      'by-status': OrderStatus;
+      'by-createdAt': Date;
+      'by-tableId': string;
+      'by-paymentStatus': PaymentStatus;
+    };
+  };
+  orderItems: {
+    key: string;
+    value: OrderItem;
+    indexes: { 'by-orderId': string };
+  };
+  payments: {
+    key: string;
+    value: Payment;
+    indexes: { 'by-orderId': string; 'by-paidAt': Date };
+  };
+  settings: {
+    key: string;
+    value: AppSettings;
+  };
+  promotions: {
+    key: string;
+    value: Promotion;
+  };
+  priceChanges: {
+    key: string;
+    value: ScheduledPriceChange;
+  };
+  ingredients: {
+    key: string;
+    value: Ingredient;
+  };
+  fiscalQueue: {
+    key: string;
+    value: FiscalQueueEntry;
+  };
+  auditLog: {
+    key: string;
+    value: AuditLogEntry;
+    indexes: { 'by-timestamp': Date; 'by-actorId': string; 'by-entityType': AuditEntityType };
+  };
+}
+
+// Business data stores included in backups and whole-dataset migrations
+export const BACKUP_STORES = ['users', 'categories', 'menuItems', 'tables', 'orders', 'orderItems', 'payments', 'settings', 'promotions', 'menuImages', 'priceChanges', 'ingredients'] as const;
+
+export type BackupStoreName = typeof BACKUP_STORES[number];
+
+export type BackupData = { [Name in BackupStoreName]: StoreValue<RestaurantDB, Name>[] };
@@ -1,7 +1,51 @@
 import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
-import { User, Category, MenuItem, Table } from '../types';
-import { createUser, createCategory, createMenuItem, createTable, getAllUsers } from './database';
+import { User, Category, Ingredient, IngredientUnit, MenuItem, MenuItemVariant, ModifierGroup, RecipeLine, Table } from '../types';
+import { createUser, createCategory, createIngredient, createMenuItem, createTable, getAllUsers } from './database';
+
+const spiceLevel = (): ModifierGroup => ({
+  id: uuidv4(),
+  name: 'Spice Level',
+  minSelect: 1,
+  maxSelect: 1,
+  options: [
+    { id: uuidv4(), name: 'Mild', price: 0, isDefault: false },
+    { id: uuidv4(), name: 'Regular', price: 0, isDefault: true },
+    { id: uuidv4(), name: 'Spicy', price: 0, isDefault: false },
+  ],
+});
+
+const sweetness = (): ModifierGroup => ({
+  id: uuidv4(),
+  name: 'Sweetness',
+  minSelect: 1,
+  maxSelect: 1,
+  options: [
+    { id: uuidv4(), name: 'Less Sugar', price: 0, isDefault: false },
+    { id: uuidv4(), name: 'Regular', price: 0, isDefault: true },
+    { id: uuidv4(), name: 'Extra Sweet', price: 0, isDefault: false },
+  ],
+});
+
+// Optional extras, each a [name, price] pair
+const addOns = (...options: [string, number][]): ModifierGroup => ({
+  id: uuidv4(),
+  name: 'Add-ons',
+  minSelect: 0,
+  maxSelect: options.length,
+  options: options.map(([name, price]) => ({ id: uuidv4(), name, price, isDefault: false })),
+});
+
+// Portion sizes, each a [name, price, stock] triple, plus a recipe for sizes
+// sold from ingredients
+const sizes = (...variants: [string, number, number, RecipeLine[]?][]): MenuItemVariant[] => {
+  return variants.map(([name, price, stock, recipe]) => ({ id: uuidv4(), name, price, stock, recipe }));
+};
+
+// Recipe lines, each an [ingredient, quantity, unit] triple
+const recipe = (...lines: [Ingredient, number, IngredientUnit][]): RecipeLine[] => {
+  return lines.map(([ingredient, quantity, unit]) => ({ ingredientId: ingredient.id, quantity, unit }));
+};
 
 export const seedDatabase = async () => {
   // Check if data already exists
@@ -17,6 +61,7 @@ export const seedDatabase = async () => {
       email: 'admin@restaurant.com',
       password: await bcrypt.hash('admin123', 10),
       role: 'admin',
+      pin: await bcrypt.hash('1234', 10),
       createdAt: new Date(),
     },
     {
@@ -47,32 +92,49 @@ export const seedDatabase = async () => {
   }
 
   // Seed categories
-  const categories: Omit<Category, 'id'>[] = [
-    { name: 'Biryani & Rice', createdAt: new Date() },
-    { name: 'BBQ & Karahi', createdAt: new Date() },
-    { name: 'Fast Food', createdAt: new Date() },
-    { name: 'Chinese', createdAt: new Date() },
-    { name: 'Beverages', createdAt: new Date() },
-    { name: 'Desserts', createdAt: new Date() },
+  const categories: Omit<Category, 'id' | 'sortOrder' | 'visibility'>[] = [
+    { name: 'Biryani & Rice', color: '#f97316', icon: 'wheat', createdAt: new Date() },
+    { name: 'BBQ & Karahi', color: '#ef4444', icon: 'flame', createdAt: new Date() },
+    { name: 'Fast Food', color: '#eab308', icon: 'sandwich', createdAt: new Date() },
+    { name: 'Chinese', color: '#22c55e', icon: 'soup', createdAt: new Date() },
+    { name: 'Beverages', color: '#3b82f6', icon: 'cup-soda', createdAt: new Date() },
+    { name: 'Desserts', color: '#ec4899', icon: 'cake', createdAt: new Date() },
   ];
 
   const createdCategories: Category[] = [];
-  for (const category of categories) {
-    const newCategory = { ...category, id: uuidv4() };
+  for (const [index, category] of categories.entries()) {
+    const newCategory: Category = { ...category, id: uuidv4(), sortOrder: index, visibility: 'all' };
     await createCategory(newCategory);
     createdCategories.push(newCategory);
   }
 
+  // Seed ingredients for the dishes sold from a recipe
+  const [chicken, rice, oil]: Ingredient[] = [
+    { id: uuidv4(), name: 'Chicken', unit: 'kg', stock: 20, lowStockLevel: 3, createdAt: new Date() },
+    { id: uuidv4(), name: 'Basmati Rice', unit: 'kg', stock: 25, lowStockLevel: 5, createdAt: new Date() },
+    { id: uuidv4(), name: 'Cooking Oil', unit: 'l', stock: 10, lowStockLevel: 2, createdAt: new Date() },
+  ];
+  for (const ingredient of [chicken, rice, oil]) {
+    await createIngredient(ingredient);
+  }
+
   // Seed menu items
-  const menuItems: Omit<MenuItem, 'id'>[] = [
+  const menuItems: Omit<MenuItem, 'id' | 'sortOrder' | 'visibility'>[] = [
     // Biryani & Rice
     {
       name: 'Chicken Biryani',
       categoryId: createdCategories[0].id,
-      price: 450,
+      price: 280,
       description: 'Aromatic basmati rice with tender chicken and traditional spices',
-      modifiers: ['Extra Raita', 'Spicy', 'Mild'],
-      stock: 50,
+      modifierGroups: [spiceLevel(), addOns(['Extra Raita', 60])],
+      allergens: ['dairy'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 2,
+      variants: sizes(
+        ['Half', 280, 0, recipe([chicken, 150, 'g'], [rice, 150, 'g'])],
+        ['Full', 450, 0, recipe([chicken, 300, 'g'], [rice, 250, 'g'])]
+      ),
+      stock: 0,
       createdAt: new Date(),
     },
     {
@@ -80,7 +142,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[0].id,
       price: 650,
       description: 'Premium mutton biryani with authentic flavors',
-      modifiers: ['Extra Raita', 'Spicy', 'Mild'],
+      modifierGroups: [spiceLevel(), addOns(['Extra Raita', 60])],
+      allergens: ['dairy'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 2,
       stock: 30,
       createdAt: new Date(),
     },
@@ -89,7 +154,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[0].id,
       price: 380,
       description: 'Flavorful beef pulao with aromatic rice',
-      modifiers: ['Extra Raita'],
+      modifierGroups: [addOns(['Extra Raita', 60])],
+      allergens: [],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 1,
       stock: 40,
       createdAt: new Date(),
     },
@@ -98,10 +166,17 @@ export const seedDatabase = async () => {
     {
       name: 'Chicken Karahi',
       categoryId: createdCategories[1].id,
-      price: 850,
-      description: 'Traditional chicken karahi for 2-3 people',
-      modifiers: ['Extra Naan', 'Spicy', 'Mild'],
-      stock: 25,
+      price: 500,
+      description: 'Traditional chicken karahi, full serves 2-3 people',
+      modifierGroups: [spiceLevel(), addOns(['Extra Naan', 40])],
+      allergens: ['dairy'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 3,
+      variants: sizes(
+        ['Half', 500, 0, recipe([chicken, 500, 'g'], [oil, 50, 'ml'])],
+        ['Full', 850, 0, recipe([chicken, 1, 'kg'], [oil, 100, 'ml'])]
+      ),
+      stock: 0,
       createdAt: new Date(),
     },
     {
@@ -109,7 +184,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[1].id,
       price: 1200,
       description: 'Tender mutton karahi with authentic spices',
-      modifiers: ['Extra Naan', 'Spicy', 'Mild'],
+      modifierGroups: [spiceLevel(), addOns(['Extra Naan', 40])],
+      allergens: ['dairy'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 3,
       stock: 20,
       createdAt: new Date(),
     },
@@ -118,7 +196,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[1].id,
       price: 320,
       description: 'Grilled chicken tikka with mint chutney',
-      modifiers: ['Extra Chutney', 'Spicy'],
+      modifierGroups: [spiceLevel(), addOns(['Extra Chutney', 30])],
+      allergens: ['dairy'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 2,
       stock: 35,
       createdAt: new Date(),
     },
@@ -127,7 +208,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[1].id,
       price: 280,
       description: 'Juicy seekh kebabs with onions',
-      modifiers: ['Extra Chutney'],
+      modifierGroups: [addOns(['Extra Chutney', 30])],
+      allergens: [],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 2,
       stock: 40,
       createdAt: new Date(),
     },
@@ -138,7 +222,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[2].id,
       price: 350,
       description: 'Crispy chicken burger with fries',
-      modifiers: ['Extra Cheese', 'No Fries'],
+      modifierGroups: [addOns(['Extra Cheese', 70], ['No Fries', 0])],
+      allergens: ['gluten', 'egg'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 1,
       stock: 50,
       createdAt: new Date(),
     },
@@ -147,7 +234,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[2].id,
       price: 280,
       description: 'Triple layer club sandwich with fries',
-      modifiers: ['Extra Cheese'],
+      modifierGroups: [addOns(['Extra Cheese', 70])],
+      allergens: ['gluten', 'egg', 'dairy'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 0,
       stock: 30,
       createdAt: new Date(),
     },
@@ -156,7 +246,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[2].id,
       price: 220,
       description: 'Spicy chicken roll with fresh vegetables',
-      modifiers: ['Extra Spicy', 'No Salad'],
+      modifierGroups: [spiceLevel(), addOns(['No Salad', 0])],
+      allergens: ['gluten'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 1,
       stock: 45,
       createdAt: new Date(),
     },
@@ -167,7 +260,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[3].id,
       price: 380,
       description: 'Wok-fried rice with chicken and vegetables',
-      modifiers: ['Extra Spicy'],
+      modifierGroups: [spiceLevel()],
+      allergens: ['egg'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 1,
       stock: 35,
       createdAt: new Date(),
     },
@@ -176,7 +272,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[3].id,
       price: 450,
       description: 'Crispy chicken in sweet and sour sauce',
-      modifiers: ['Extra Sauce'],
+      modifierGroups: [addOns(['Extra Sauce', 40])],
+      allergens: ['gluten'],
+      dietaryTags: ['halal-certified'],
+      spiceLevel: 0,
       stock: 25,
       createdAt: new Date(),
     },
@@ -187,7 +286,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[4].id,
       price: 120,
       description: 'Fresh lime water with mint',
-      modifiers: ['Extra Sweet', 'Less Sugar'],
+      modifierGroups: [sweetness()],
+      allergens: [],
+      dietaryTags: ['vegetarian'],
+      spiceLevel: 0,
       stock: 100,
       createdAt: new Date(),
     },
@@ -196,7 +298,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[4].id,
       price: 180,
       description: 'Thick mango yogurt drink',
-      modifiers: ['Extra Sweet'],
+      modifierGroups: [sweetness()],
+      allergens: ['dairy'],
+      dietaryTags: ['vegetarian'],
+      spiceLevel: 0,
       stock: 50,
       createdAt: new Date(),
     },
@@ -205,8 +310,12 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[4].id,
       price: 80,
       description: 'Pepsi, Coke, Sprite, Fanta',
-      modifiers: [],
-      stock: 200,
+      modifierGroups: [],
+      allergens: [],
+      dietaryTags: ['vegetarian'],
+      spiceLevel: 0,
+      variants: sizes(['Regular', 80, 200], ['1.5L', 220, 60]),
+      stock: 0,
       createdAt: new Date(),
     },
 
@@ -216,7 +325,10 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[5].id,
       price: 150,
       description: 'Traditional sweet dumplings in syrup (2 pieces)',
-      modifiers: [],
+      modifierGroups: [],
+      allergens: ['dairy', 'gluten'],
+      dietaryTags: ['vegetarian'],
+      spiceLevel: 0,
       stock: 30,
       createdAt: new Date(),
     },
@@ -225,14 +337,17 @@ export const seedDatabase = async () => {
       categoryId: createdCategories[5].id,
       price: 180,
       description: 'Creamy rice pudding with nuts',
-      modifiers: ['Extra Nuts'],
+      modifierGroups: [addOns(['Extra Nuts', 50])],
+      allergens: ['dairy', 'nuts'],
+      dietaryTags: ['vegetarian'],
+      spiceLevel: 0,
       stock: 25,
       createdAt: new Date(),
     },
   ];
 
-  for (const item of menuItems) {
-    await createMenuItem({ ...item, id: uuidv4() });
+  for (const [index, item] of menuItems.entries()) {
+    await createMenuItem({ ...item, id: uuidv4(), sortOrder: index, visibility: 'all' });
   }
 
   // Seed tables
@@ -0,0 +1,102 @@
+import { Order, OrderItem, Payment } from '../types';
+
+export type SplitMode = 'even' | 'items' | 'seat';
+
+// One guest's portion of a bill, settled by its own payment
+export interface SplitShare {
+  label: string;
+  amount: number;
+  orderItemIds: string[];
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const getAmountPaid = (payments: Payment[]): number => {
+  return roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0));
+};
+
+export const getRemainingBalance = (order: Order, payments: Payment[]): number => {
+  return Math.max(0, roundMoney(order.finalTotal - getAmountPaid(payments)));
+};
+
+// Items not voided and not yet covered by an item or seat split payment
+export const getUnpaidItems = (items: OrderItem[], payments: Payment[]): OrderItem[] => {
+  const paidItemIds = new Set(payments.flatMap(payment => payment.orderItemIds ?? []));
+  return items.filter(item => !item.voided && !paidItemIds.has(item.id));
+};
+
+// Splits `amount` into `ways` shares; the last share absorbs the rounding
+export const splitEvenly = (amount: number, ways: number): SplitShare[] => {
+  const share = Math.floor((amount / ways) * 100) / 100;
+  return Array.from({ length: ways }, (_, index) => ({
+    label: `Share ${index + 1} of ${ways}`,
+    amount: index === ways - 1 ? roundMoney(amount - share * (ways - 1)) : share,
+    orderItemIds: [],
+  }));
+};
+
+// A line's share of the bill, including its part of tax, service charge and discount
+export const getItemsAmount = (order: Order, items: OrderItem[]): number => {
+  const lineTotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+  return order.total > 0 ? (lineTotal / order.total) * order.finalTotal : 0;
+};
+
+export const splitByItems = (
+  order: Order,
+  items: OrderItem[],
+  payments: Payment[],
+  selectedItemIds: string[]
+): SplitShare => {
+  const unpaidItems = getUnpaidItems(items, payments);
+  const selectedItems = unpaidItems.filter(item => selectedItemIds.includes(item.id));
+  const remaining = getRemainingBalance(order, payments);
+
+  // Paying for everything that is left settles the bill exactly
+  const amount = selectedItems.length === unpaidItems.length
+    ? remaining
+    : Math.min(remaining, roundMoney(getItemsAmount(order, selectedItems)));
+
+  return {
+    label: `${selectedItems.length} item${selectedItems.length === 1 ? '' : 's'}`,
+    amount,
+    orderItemIds: selectedItems.map(item => item.id),
+  };
+};
+
+// Each seat pays for its own items; items without a seat are shared equally
+// between every seat on the order, including seats that have already paid
+export const splitBySeat = (
+  order: Order,
+  items: OrderItem[],
+  payments: Payment[],
+  seats: Record<string, number | undefined>
+): SplitShare[] => {
+  const getSeatNumbers = (lines: OrderItem[]) => [...new Set(
+    lines.map(item => seats[item.id]).filter((seat): seat is number => seat !== undefined)
+  )].sort((a, b) => a - b);
+
+  const unpaidItems = getUnpaidItems(items, payments);
+  const unpaidSeats = getSeatNumbers(unpaidItems);
+  if (unpaidSeats.length === 0) return [];
+
+  const billedItems = items.filter(item => !item.voided);
+  const sharedItems = billedItems.filter(item => seats[item.id] === undefined);
+  const sharedAmount = getItemsAmount(order, sharedItems) / getSeatNumbers(billedItems).length;
+  const remaining = getRemainingBalance(order, payments);
+  let allocated = 0;
+
+  return unpaidSeats.map((seat, index) => {
+    const seatItems = unpaidItems.filter(item => seats[item.id] === seat);
+    const isLast = index === unpaidSeats.length - 1;
+    const amount = isLast
+      ? roundMoney(remaining - allocated)
+      : Math.min(roundMoney(getItemsAmount(order, seatItems) + sharedAmount), roundMoney(remaining - allocated));
+    allocated = roundMoney(allocated + amount);
+
+    return {
+      label: `Seat ${seat}`,
+      amount,
+      orderItemIds: seatItems.map(item => item.id),
+    };
+  });
+};
@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Payment, PaymentTender, TenderMethod } from '../types';
+
+export interface TenderInput {
+  method: TenderMethod;
+  tendered: number;
+}
+
+export interface TenderBreakdown {
+  tenders: PaymentTender[];
+  amountDue: number;
+  tip: number;
+  totalTendered: number;
+  changeDue: number;
+  // Still owed after all tenders; zero once the bill and tip are covered
+  shortfall: number;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Card tenders are applied first because they cannot give change; whatever is
+// left is taken from cash and any cash over the amount owed is returned as change.
+export const calculateTenders = (amountDue: number, tip: number, inputs: TenderInput[]): TenderBreakdown => {
+  const owed = roundMoney(amountDue + tip);
+  const ordered = [
+    ...inputs.filter(input => input.method !== 'cash'),
+    ...inputs.filter(input => input.method === 'cash'),
+  ].filter(input => input.tendered > 0);
+
+  let outstanding = owed;
+  const tenders = ordered.map(input => {
+    const applied = roundMoney(Math.min(input.tendered, outstanding));
+    outstanding = roundMoney(outstanding - applied);
+    return { method: input.method, tendered: roundMoney(input.tendered), applied };
+  });
+
+  const totalTendered = roundMoney(tenders.reduce((sum, tender) => sum + tender.tendered, 0));
+  const changeDue = roundMoney(tenders
+    .filter(tender => tender.method === 'cash')
+    .reduce((sum, tender) => sum + tender.tendered - tender.applied, 0));
+
+  return {
+    tenders,
+    amountDue,
+    tip,
+    totalTendered,
+    changeDue,
+    shortfall: outstanding,
+  };
+};
+
+// Returns a user-facing problem with the tenders, or null when they can be accepted
+export const validateTenders = (breakdown: TenderBreakdown): string | null => {
+  if (breakdown.shortfall > 0) {
+    return `Rs. ${breakdown.shortfall.toFixed(2)} still to pay`;
+  }
+  const overpaidCard = breakdown.tenders.find(tender => tender.method !== 'cash' && tender.tendered > tender.applied);
+  if (overpaidCard) {
+    return 'Card amount is more than the balance; card payments cannot give change';
+  }
+  return null;
+};
+
+export const getPaymentMethod = (tenders: PaymentTender[]): Payment['method'] => {
+  const methods = new Set(tenders.map(tender => tender.method));
+  return methods.size === 1 ? [...methods][0] : 'mixed';
+};
+
+// Pays `amountDue` exactly with a single tender, as used for split bill shares
+export const createExactTender = (method: TenderMethod, amountDue: number): TenderBreakdown => {
+  return calculateTenders(amountDue, 0, [{ method, tendered: amountDue }]);
+};
+
+export const buildPayment = (
+  orderId: string,
+  waiterId: string,
+  breakdown: TenderBreakdown,
+  paidAt: Date = new Date()
+): Payment => {
+  return {
+    id: uuidv4(),
+    orderId,
+    method: getPaymentMethod(breakdown.tenders),
+    amount: breakdown.amountDue,
+    tenders: breakdown.tenders,
+    changeGiven: breakdown.changeDue,
+    tip: breakdown.tip,
+    waiterId,
+    paidAt,
+  };
+};
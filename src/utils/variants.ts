@@ -0,0 +1,64 @@
+import { MenuItem, MenuItemVariant, OrderItem } from '../types';
+
+export const hasVariants = (item: MenuItem): boolean => !!item.variants && item.variants.length > 0;
+
+export const getVariant = (item: MenuItem, variantId?: string): MenuItemVariant | undefined => {
+  return variantId ? item.variants?.find(variant => variant.id === variantId) : undefined;
+};
+
+// The price of one unit before modifiers
+export const getBasePrice = (item: MenuItem, variantId?: string): number => {
+  return getVariant(item, variantId)?.price ?? item.price;
+};
+
+export const getStockOf = (item: MenuItem, variantId?: string): number => {
+  if (!hasVariants(item)) return item.stock;
+  return getVariant(item, variantId)?.stock ?? 0;
+};
+
+// The record with `change` added to the stock of the item, or of one of its sizes
+export const adjustStock = (item: MenuItem, variantId: string | undefined, change: number): MenuItem => {
+  if (!hasVariants(item)) return { ...item, stock: item.stock + change };
+  return {
+    ...item,
+    variants: item.variants!.map(variant =>
+      variant.id === variantId ? { ...variant, stock: variant.stock + change } : variant
+    ),
+  };
+};
+
+// The record with the price of the item, or of one of its sizes, set to `price`;
+// a sized item stays listed from its cheapest size
+export const setBasePrice = (item: MenuItem, variantId: string | undefined, price: number): MenuItem => {
+  if (!hasVariants(item)) return { ...item, price };
+  const variants = item.variants!.map(variant => variant.id === variantId ? { ...variant, price } : variant);
+  return { ...item, variants, price: Math.min(...variants.map(variant => variant.price)) };
+};
+
+// The first size that can be sold, used where a size cannot be picked (e.g. a deal's fixed slot)
+export const getDefaultVariantId = (item: MenuItem, quantity: number = 1): string | undefined => {
+  if (!hasVariants(item)) return undefined;
+  return (item.variants!.find(variant => variant.stock >= quantity) ?? item.variants![0]).id;
+};
+
+export const formatItemName = (name: string, variantName?: string): string => {
+  return variantName ? `${name} (${variantName})` : name;
+};
+
+export const getOrderItemName = (item: Pick<OrderItem, 'menuItemId' | 'variantName'>, menuItems: MenuItem[]): string => {
+  const name = menuItems.find(menuItem => menuItem.id === item.menuItemId)?.name ?? 'Unknown Item';
+  return formatItemName(name, item.variantName);
+};
+
+export const validateVariants = (variants: MenuItemVariant[]): string | null => {
+  const names = new Set<string>();
+  for (const variant of variants) {
+    const name = variant.name.trim();
+    if (!name) return 'Every size needs a name';
+    if (names.has(name.toLowerCase())) return `There are two sizes called ${name}`;
+    if (variant.price <= 0) return `${name}: price must be greater than 0`;
+    if (variant.stock < 0) return `${name}: stock cannot be negative`;
+    names.add(name.toLowerCase());
+  }
+  return null;
+};